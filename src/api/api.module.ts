@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { APP_PIPE, DiscoveryModule } from '@nestjs/core';
+import { OpenApiController } from './openapi.controller';
+import { ZodValidationPipe } from './zod-validation.pipe';
+
+@Module({
+  imports: [DiscoveryModule],
+  controllers: [OpenApiController],
+  providers: [{ provide: APP_PIPE, useClass: ZodValidationPipe }],
+})
+export class ApiModule {}
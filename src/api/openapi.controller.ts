@@ -0,0 +1,54 @@
+import { Controller, Get, Header, Type } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { Public } from '../auth/auth.decorators';
+import { buildOpenApiDocument, OpenApiDocument } from './openapi';
+
+// Swagger UI from a CDN, so the server doesn't ship its assets
+const SWAGGER_UI = 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5';
+
+const swaggerPage = (specUrl: string) => `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Seeker API</title>
+    <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI}/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: '${specUrl}', dom_id: '#swagger-ui' });
+    </script>
+  </body>
+</html>
+`;
+
+@Public()
+@Controller()
+export class OpenApiController {
+  private document?: OpenApiDocument;
+
+  constructor(private readonly discovery: DiscoveryService) {}
+
+  @Get('openapi.json')
+  openApi() {
+    // Routes are fixed once the app has booted, so build the document once
+    this.document ??= buildOpenApiDocument(
+      this.discovery
+        .getControllers()
+        .map((wrapper) => wrapper.metatype as Type | null)
+        .filter((metatype): metatype is Type => !!metatype),
+      {
+        title: 'Seeker API',
+        version: process.env.npm_package_version ?? '0.0.1',
+      },
+    );
+    return this.document;
+  }
+
+  @Get('docs')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  docs() {
+    return swaggerPage('/openapi.json');
+  }
+}
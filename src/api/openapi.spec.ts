@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { z } from 'zod';
+import { Public } from '../auth/auth.decorators';
+import { buildOpenApiDocument } from './openapi';
+import { createZodDto } from './zod-dto';
+
+class RenameDto extends createZodDto(
+  z.object({ title: z.string().min(1).max(200) }),
+) {}
+
+class StudentQueryDto extends createZodDto(z.object({ studentId: z.uuid() })) {}
+
+@Controller('books')
+class BooksController {
+  @Post(':bookId/pages/:page/rename')
+  rename(
+    @Param('bookId') bookId: string,
+    @Param('page', ParseIntPipe) page: number,
+    @Body() body: RenameDto,
+  ) {
+    return { bookId, page, body };
+  }
+
+  @Public()
+  @Get(':bookId')
+  read(@Param('bookId') bookId: string, @Query() query: StudentQueryDto) {
+    return { bookId, query };
+  }
+}
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument([BooksController], {
+    title: 'Test',
+    version: '1',
+  });
+
+  it('describes routes with their path parameters and body schema', () => {
+    const rename = document.paths['/books/{bookId}/pages/{page}/rename'].post;
+    expect(rename.operationId).toBe('Books_rename');
+    expect(rename.parameters).toEqual([
+      {
+        name: 'bookId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      },
+      { name: 'page', in: 'path', required: true, schema: { type: 'integer' } },
+    ]);
+    expect(rename.requestBody?.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/RenameDto',
+    });
+    expect(Object.keys(rename.responses)).toEqual(['201', '400', '401', '403']);
+    expect(document.components.schemas.RenameDto).toMatchObject({
+      type: 'object',
+      properties: { title: { type: 'string', minLength: 1, maxLength: 200 } },
+      required: ['title'],
+    });
+  });
+
+  it('spreads query DTOs and opens public routes', () => {
+    const read = document.paths['/books/{bookId}'].get;
+    const [, studentId] = read.parameters ?? [];
+    expect(studentId).toMatchObject({
+      name: 'studentId',
+      in: 'query',
+      required: true,
+      schema: { type: 'string', format: 'uuid' },
+    });
+    expect(read.security).toEqual([]);
+    expect(read.responses).not.toHaveProperty('401');
+  });
+});
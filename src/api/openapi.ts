@@ -0,0 +1,218 @@
+import { ParseIntPipe, RequestMethod, Type } from '@nestjs/common';
+import {
+  HTTP_CODE_METADATA,
+  METHOD_METADATA,
+  PATH_METADATA,
+  ROUTE_ARGS_METADATA,
+  SSE_METADATA,
+} from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { z } from 'zod';
+import { IS_PUBLIC } from '../auth/auth.decorators';
+import { isZodDto, ZodDto } from './zod-dto';
+
+type JsonSchema = Record<string, unknown>;
+
+interface RouteArg {
+  index: number;
+  data?: unknown;
+  pipes?: unknown[];
+}
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: {
+    required: boolean;
+    content: { 'application/json': { schema: JsonSchema } };
+  };
+  responses: Record<string, { description: string }>;
+  security?: never[];
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+  };
+  security: Record<string, never[]>[];
+}
+
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+  // The document declares its own dialect
+  const json: JsonSchema = z.toJSONSchema(schema, { io: 'input' });
+  delete json.$schema;
+  return json;
+};
+
+const joinPath = (...parts: string[]) =>
+  '/' +
+  parts
+    .map((part) => part.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/')
+    // Express-style `:param` becomes OpenAPI's `{param}`
+    .replace(/:(\w+)/g, '{$1}');
+
+const firstPath = (target: object) => {
+  const path = Reflect.getMetadata(PATH_METADATA, target) as
+    | string
+    | string[]
+    | undefined;
+  return (Array.isArray(path) ? path[0] : path) ?? '';
+};
+
+/**
+ * Describes the given controllers as an OpenAPI 3.1 document: routes from
+ * Nest's decorator metadata, request bodies and queries from their zod DTOs,
+ * and the API-key or bearer-token security of every route not @Public().
+ */
+export function buildOpenApiDocument(
+  controllers: Type[],
+  info: OpenApiDocument['info'],
+): OpenApiDocument {
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info,
+    paths: {},
+    components: {
+      schemas: {},
+      securitySchemes: {
+        bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+    security: [{ bearer: [] }, { apiKey: [] }],
+  };
+
+  const schemaRef = (dto: ZodDto) => {
+    document.components.schemas[dto.name] ??= toJsonSchema(dto.schema);
+    return { $ref: `#/components/schemas/${dto.name}` };
+  };
+
+  for (const controller of controllers) {
+    const tag = controller.name.replace(/Controller$/, '');
+    const classPublic = Reflect.getMetadata(IS_PUBLIC, controller) === true;
+
+    for (const name of Object.getOwnPropertyNames(controller.prototype)) {
+      const handler = (controller.prototype as Record<string, unknown>)[name];
+      if (typeof handler !== 'function' || name === 'constructor') continue;
+      const method = Reflect.getMetadata(METHOD_METADATA, handler) as
+        | RequestMethod
+        | undefined;
+      if (
+        method === undefined ||
+        Reflect.getMetadata(PATH_METADATA, handler) === undefined
+      ) {
+        continue;
+      }
+
+      const path = joinPath(firstPath(controller), firstPath(handler));
+      const args = (Reflect.getMetadata(
+        ROUTE_ARGS_METADATA,
+        controller,
+        name,
+      ) ?? {}) as Record<string, RouteArg>;
+      const types = (Reflect.getMetadata(
+        'design:paramtypes',
+        controller.prototype as object,
+        name,
+      ) ?? []) as unknown[];
+
+      const operation: Operation = {
+        operationId: `${tag}_${name}`,
+        tags: [tag],
+        responses: {},
+      };
+      const parameters: Parameter[] = [];
+
+      // Decorators record arguments last to first; list them in signature order
+      const sorted = Object.entries(args).sort(
+        ([, a], [, b]) => a.index - b.index,
+      );
+      for (const [key, arg] of sorted) {
+        const paramtype = Number(key.split(':')[0]) as RouteParamtypes;
+        const type = types[arg.index];
+        if (
+          paramtype === RouteParamtypes.PARAM &&
+          typeof arg.data === 'string'
+        ) {
+          const integer = arg.pipes?.some(
+            (pipe) => pipe === ParseIntPipe || pipe instanceof ParseIntPipe,
+          );
+          parameters.push({
+            name: arg.data,
+            in: 'path',
+            required: true,
+            schema: { type: integer ? 'integer' : 'string' },
+          });
+        } else if (paramtype === RouteParamtypes.QUERY) {
+          if (typeof arg.data === 'string') {
+            parameters.push({
+              name: arg.data,
+              in: 'query',
+              required: false,
+              schema: { type: 'string' },
+            });
+          } else if (isZodDto(type)) {
+            // A whole-query DTO spreads into one parameter per property
+            const json = toJsonSchema(type.schema) as {
+              properties?: Record<string, JsonSchema>;
+              required?: string[];
+            };
+            for (const [property, schema] of Object.entries(
+              json.properties ?? {},
+            )) {
+              parameters.push({
+                name: property,
+                in: 'query',
+                required: json.required?.includes(property) ?? false,
+                schema,
+              });
+            }
+          }
+        } else if (paramtype === RouteParamtypes.BODY && isZodDto(type)) {
+          operation.requestBody = {
+            required: true,
+            content: { 'application/json': { schema: schemaRef(type) } },
+          };
+        }
+      }
+
+      if (parameters.length) operation.parameters = parameters;
+      const status =
+        (Reflect.getMetadata(HTTP_CODE_METADATA, handler) as
+          | number
+          | undefined) ?? (method === RequestMethod.POST ? 201 : 200);
+      operation.responses[status] = {
+        description: Reflect.getMetadata(SSE_METADATA, handler)
+          ? 'Server-sent event stream'
+          : 'Success',
+      };
+      if (operation.requestBody || parameters.some((p) => p.in === 'query')) {
+        operation.responses[400] = { description: 'Invalid request' };
+      }
+      if (classPublic || Reflect.getMetadata(IS_PUBLIC, handler) === true) {
+        operation.security = [];
+      } else {
+        operation.responses[401] = { description: 'Not authenticated' };
+        operation.responses[403] = { description: 'Not allowed' };
+      }
+
+      const verb = RequestMethod[method].toLowerCase();
+      document.paths[path] = { ...document.paths[path], [verb]: operation };
+    }
+  }
+  return document;
+}
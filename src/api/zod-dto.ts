@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+/**
+ * A request DTO class backed by a zod schema. ZodValidationPipe parses
+ * `@Body()` and `@Query()` arguments of this type with the schema, and the
+ * OpenAPI document describes them with it.
+ */
+export interface ZodDto<S extends z.ZodType = z.ZodType> {
+  new (): z.output<S>;
+  readonly schema: S;
+}
+
+// Use as `export class FooDto extends createZodDto(fooSchema) {}`; the class name names the OpenAPI schema.
+export function createZodDto<S extends z.ZodType>(schema: S) {
+  class Dto {
+    static readonly schema = schema;
+  }
+  return Dto as unknown as ZodDto<S>;
+}
+
+export function isZodDto(metatype: unknown): metatype is ZodDto {
+  return (
+    typeof metatype === 'function' &&
+    (metatype as Partial<ZodDto>).schema instanceof z.ZodType
+  );
+}
@@ -0,0 +1,53 @@
+import { BadRequestException } from '@nestjs/common';
+import { z } from 'zod';
+import { createZodDto } from './zod-dto';
+import { ZodValidationPipe } from './zod-validation.pipe';
+
+class ExampleDto extends createZodDto(
+  z.object({ id: z.uuid(), title: z.string().max(5).optional() }),
+) {}
+
+describe('ZodValidationPipe', () => {
+  const pipe = new ZodValidationPipe();
+  const id = '7f1c2b8e-3a4d-4e5f-8a6b-9c0d1e2f3a4b';
+
+  it('parses DTO arguments, dropping unknown fields', () => {
+    expect(
+      pipe.transform(
+        { id, extra: true },
+        { type: 'body', metatype: ExampleDto },
+      ),
+    ).toEqual({ id });
+  });
+
+  it('reports every issue with its path', () => {
+    try {
+      pipe.transform(
+        { id: 'nope', title: 'too long' },
+        { type: 'body', metatype: ExampleDto },
+      );
+      fail('expected a validation error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      const { message } = (error as BadRequestException).getResponse() as {
+        message: string[];
+      };
+      expect(message).toHaveLength(2);
+      expect(message[0]).toMatch(/^id: /);
+      expect(message[1]).toMatch(/^title: /);
+    }
+  });
+
+  it('treats a missing body as empty', () => {
+    expect(() =>
+      pipe.transform(undefined, { type: 'body', metatype: ExampleDto }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('passes other arguments through untouched', () => {
+    expect(pipe.transform('x', { type: 'param', metatype: String })).toBe('x');
+    expect(
+      pipe.transform({ id: 'nope' }, { type: 'custom', metatype: ExampleDto }),
+    ).toEqual({ id: 'nope' });
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  Injectable,
+  PipeTransform,
+} from '@nestjs/common';
+import { isZodDto } from './zod-dto';
+
+/**
+ * Validates request bodies and queries typed as a zod DTO, before the
+ * handler runs. Unknown fields are dropped; each issue is reported as
+ * `path: message`.
+ */
+@Injectable()
+export class ZodValidationPipe implements PipeTransform {
+  transform(value: unknown, metadata: ArgumentMetadata) {
+    if (metadata.type === 'custom' || !isZodDto(metadata.metatype)) {
+      return value;
+    }
+    // A request without a body arrives as undefined; let the schema say what's missing
+    const result = metadata.metatype.schema.safeParse(value ?? {});
+    if (!result.success) {
+      throw new BadRequestException(
+        result.error.issues.map(
+          (i) => `${i.path.join('.') || metadata.type}: ${i.message}`,
+        ),
+      );
+    }
+    return result.data;
+  }
+}
@@ -1,13 +1,27 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ApiModule } from './api/api.module';
+import { AuthModule } from './auth/auth.module';
+import { CharactersModule } from './characters/characters.module';
+import { FeedsModule } from './feeds/feeds.module';
+import { JobsModule } from './jobs/jobs.module';
+import { PodcastModule } from './podcast/podcast.module';
+import { SkillTreesModule } from './skill-trees/skill-trees.module';
 import { SlidesModule } from './slides/slides.module';
 import { VideoModule } from './video/video.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }), // Loads your .env file
+    AuthModule,
+    ApiModule,
+    JobsModule,
     SlidesModule,
     VideoModule,
+    FeedsModule,
+    PodcastModule,
+    CharactersModule,
+    SkillTreesModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,115 @@
+import { ForbiddenException } from '@nestjs/common';
+import {
+  InMemoryCourseRepository,
+  InMemorySkillTreeRepository,
+} from '../repositories/in-memory-repositories';
+import { AccessService } from './access.service';
+import { Principal } from './principal';
+
+const user = (id: string): Principal => ({ kind: 'user', id });
+
+describe('AccessService', () => {
+  let courses: InMemoryCourseRepository;
+  let skillTrees: InMemorySkillTreeRepository;
+  let access: AccessService;
+
+  beforeEach(() => {
+    courses = new InMemoryCourseRepository();
+    skillTrees = new InMemorySkillTreeRepository();
+    courses.courses.set('course-1', {
+      id: 'course-1',
+      title: 'Optics',
+      slideTheme: null,
+      ownerId: 'owner',
+      teacherIds: ['teacher'],
+      modules: [
+        {
+          id: 'm1',
+          title: 'Light',
+          orderIndex: 0,
+          lessonPlans: [
+            { id: 'lesson-1', title: 'Lenses', orderIndex: 0, status: null },
+          ],
+        },
+      ],
+    });
+    courses.enrollments.set('course-1', ['student']);
+    access = new AccessService(courses, skillTrees);
+  });
+
+  it("lets the course's owner and teachers work on its lessons", async () => {
+    await expect(
+      access.checkLesson(user('owner'), 'lesson-1'),
+    ).resolves.toMatchObject({ id: 'course-1' });
+    await expect(
+      access.checkLesson(user('teacher'), 'lesson-1'),
+    ).resolves.toBeDefined();
+    await expect(
+      access.checkLesson(user('student'), 'lesson-1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      access.checkLesson(user('owner'), 'lesson-elsewhere'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      access.checkCourse(user('stranger'), 'course-1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('opens a student only to themselves and their teachers', async () => {
+    await expect(
+      access.checkStudent(user('student'), 'course-1', 'student'),
+    ).resolves.toBeUndefined();
+    await expect(
+      access.checkStudent(user('teacher'), 'course-1', 'student'),
+    ).resolves.toBeUndefined();
+    await expect(
+      access.checkStudent(user('stranger'), 'course-1', 'student'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    // Teaching a course doesn't open students who aren't in it
+    await expect(
+      access.checkStudent(user('teacher'), 'course-1', 'outsider'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('opens published material to enrolled students too', async () => {
+    await expect(
+      access.checkLessonReader(user('student'), 'lesson-1'),
+    ).resolves.toBeUndefined();
+    await expect(
+      access.checkCourseReader(user('student'), 'course-1'),
+    ).resolves.toBeUndefined();
+    await expect(
+      access.checkLessonReader(user('teacher'), 'lesson-1'),
+    ).resolves.toBeUndefined();
+    await expect(
+      access.checkLessonReader(user('stranger'), 'lesson-1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    courses.enrollments.set('course-1', []);
+    await expect(
+      access.checkLessonReader(user('student'), 'lesson-1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      access.checkCourseReader(user('student'), 'course-1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('checks skill trees against their course', async () => {
+    const tree = await skillTrees.create('course-1');
+
+    await expect(
+      access.checkTree(user('teacher'), tree.id),
+    ).resolves.toBeUndefined();
+    await expect(
+      access.checkTree(user('student'), tree.id),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      access.checkTree(user('student'), tree.id, 'student'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('trusts services', async () => {
+    await expect(
+      access.checkLesson({ kind: 'service' }, 'anything'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Course } from '../repositories/entities';
+import {
+  CourseRepository,
+  SkillTreeRepository,
+} from '../repositories/repositories';
+import { Principal } from './principal';
+
+const teaches = (course: Course, userId: string) =>
+  course.ownerId === userId || course.teacherIds.includes(userId);
+
+/**
+ * Per-course authorization. Users may generate and manage assets of the
+ * courses they own or teach, and see a student's data only when the student
+ * is enrolled and is either themselves or taught by them. Services holding
+ * an API key may do anything.
+ */
+@Injectable()
+export class AccessService {
+  constructor(
+    private readonly courses: CourseRepository,
+    private readonly skillTrees: SkillTreeRepository,
+  ) {}
+
+  async checkCourse(principal: Principal, courseId: string) {
+    if (principal.kind === 'service') return;
+    const course = await this.courses.findById(courseId);
+    if (!course || !teaches(course, principal.id)) {
+      throw new ForbiddenException(`You don't teach course ${courseId}`);
+    }
+  }
+
+  // The lesson's course, or undefined for services, which skip the lookup
+  async checkLesson(
+    principal: Principal,
+    lessonId: string,
+  ): Promise<Course | undefined> {
+    if (principal.kind === 'service') return undefined;
+    // Lessons outside any course have no teacher, so only services reach them
+    const course = await this.courses.findByLesson(lessonId);
+    if (!course || !teaches(course, principal.id)) {
+      throw new ForbiddenException(
+        `You don't teach the course of lesson ${lessonId}`,
+      );
+    }
+    return course;
+  }
+
+  // Published course material, also open to the students enrolled in the course
+  async checkCourseReader(principal: Principal, courseId: string) {
+    if (principal.kind === 'service') return;
+    const course = await this.courses.findById(courseId);
+    if (!course || !(await this.reads(course, principal.id))) {
+      throw new ForbiddenException(`No access to course ${courseId}`);
+    }
+  }
+
+  // Published lesson material, likewise
+  async checkLessonReader(principal: Principal, lessonId: string) {
+    if (principal.kind === 'service') return;
+    const course = await this.courses.findByLesson(lessonId);
+    if (!course || !(await this.reads(course, principal.id))) {
+      throw new ForbiddenException(`No access to lesson ${lessonId}`);
+    }
+  }
+
+  async checkStudent(
+    principal: Principal,
+    courseId: string,
+    studentId: string,
+  ) {
+    if (principal.kind === 'service') return;
+    const course = await this.courses.findById(courseId);
+    const allowed =
+      !!course &&
+      (principal.id === studentId || teaches(course, principal.id)) &&
+      (await this.courses.hasStudent(courseId, studentId));
+    if (!allowed) {
+      throw new ForbiddenException(
+        `No access to student ${studentId} in course ${courseId}`,
+      );
+    }
+  }
+
+  private async reads(course: Course, userId: string) {
+    return (
+      teaches(course, userId) ||
+      (await this.courses.hasStudent(course.id, userId))
+    );
+  }
+
+  // Managing a skill tree needs its course; with `studentId`, that student's progress
+  async checkTree(principal: Principal, treeId: string, studentId?: string) {
+    if (principal.kind === 'service') return;
+    const tree = await this.skillTrees.findById(treeId);
+    if (!tree) throw new NotFoundException(`Skill tree ${treeId} not found`);
+    if (studentId === undefined) {
+      await this.checkCourse(principal, tree.courseId);
+    } else {
+      await this.checkStudent(principal, tree.courseId, studentId);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthenticatedRequest } from './principal';
+
+export const IS_PUBLIC = 'auth:public';
+export const QUERY_TOKEN = 'auth:query-token';
+
+// Skips authentication, for routes that check their own signed tokens or serve public data
+export const Public = () => SetMetadata(IS_PUBLIC, true);
+
+// Also accepts the access token as `?access_token=`, for EventSource clients that can't set headers
+export const QueryToken = () => SetMetadata(QUERY_TOKEN, true);
+
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) => {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.principal) throw new UnauthorizedException();
+    return request.principal;
+  },
+);
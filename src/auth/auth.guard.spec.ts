@@ -0,0 +1,93 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHmac } from 'crypto';
+import { IS_PUBLIC } from './auth.decorators';
+import { AuthGuard } from './auth.guard';
+import { JwtKeysService } from './jwt-keys.service';
+import { AuthenticatedRequest } from './principal';
+
+const SECRET = 'super-secret-jwt-token';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function token(sub: string) {
+  const unsigned = `${encode({ alg: 'HS256' })}.${encode({
+    sub,
+    aud: 'authenticated',
+    exp: Date.now() / 1000 + 60,
+  })}`;
+  const signature = createHmac('sha256', SECRET)
+    .update(unsigned)
+    .digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+describe('AuthGuard', () => {
+  let reflector: Reflector;
+  let guard: AuthGuard;
+
+  const run = async (headers: Record<string, string>) => {
+    const request = { headers, query: {} } as AuthenticatedRequest;
+    const context = {
+      getHandler: () => run,
+      getClass: () => AuthGuard,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    await guard.canActivate(context);
+    return request.principal;
+  };
+
+  beforeEach(() => {
+    const config = new ConfigService({
+      SUPABASE_JWT_SECRET: SECRET,
+      SERVICE_API_KEYS: 'key-one, key-two',
+    });
+    reflector = new Reflector();
+    guard = new AuthGuard(reflector, new JwtKeysService(config), config);
+  });
+
+  it('signs users in with their Supabase access token', async () => {
+    await expect(
+      run({ authorization: `Bearer ${token('user-1')}` }),
+    ).resolves.toEqual({ kind: 'user', id: 'user-1' });
+  });
+
+  it('trusts backends holding one of the API keys', async () => {
+    await expect(run({ 'x-api-key': 'key-two' })).resolves.toEqual({
+      kind: 'service',
+    });
+    await expect(run({ 'x-api-key': 'key-three' })).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('turns away anonymous requests unless the route is public', async () => {
+    await expect(run({})).rejects.toBeInstanceOf(UnauthorizedException);
+
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockImplementation((key) => key === IS_PUBLIC);
+    await expect(run({})).resolves.toBeUndefined();
+  });
+
+  it.each([
+    ['unreachable', () => Promise.reject(new TypeError('fetch failed'))],
+    ['failing', () => Promise.resolve(new Response('', { status: 503 }))],
+  ])('answers 401 while the JWKS is %s', async (_name, respond) => {
+    const config = new ConfigService({
+      SUPABASE_URL: 'https://project.supabase.co',
+    });
+    guard = new AuthGuard(reflector, new JwtKeysService(config), config);
+    jest.spyOn(global, 'fetch').mockImplementationOnce(respond);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const unsigned = `${encode({ alg: 'ES256', kid: 'k1' })}.${encode({
+      sub: 'user-1',
+    })}`;
+
+    const result = run({ authorization: `Bearer ${unsigned}.c2ln` });
+    await expect(result).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(result).rejects.toThrow('Signing keys are unavailable');
+  });
+});
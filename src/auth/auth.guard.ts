@@ -0,0 +1,90 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHash, timingSafeEqual } from 'crypto';
+import { IS_PUBLIC, QUERY_TOKEN } from './auth.decorators';
+import { verifyJwt } from './jwt';
+import { JwtKeysService } from './jwt-keys.service';
+import { AuthenticatedRequest, Principal } from './principal';
+
+const digest = (key: string) => createHash('sha256').update(key).digest();
+
+/**
+ * Authenticates every route not marked @Public(): either a Supabase access
+ * token (`Authorization: Bearer ...`) for a user, or one of
+ * SERVICE_API_KEYS (`X-API-Key`) for trusted backends. AUTH_DISABLED=true
+ * treats every request as a service, for local development only.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  private readonly apiKeys: Buffer[];
+  private readonly disabled: boolean;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly keys: JwtKeysService,
+    config: ConfigService,
+  ) {
+    this.apiKeys = (config.get<string>('SERVICE_API_KEYS') ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map(digest);
+    this.disabled = config.get<string>('AUTH_DISABLED') === 'true';
+    if (this.disabled) {
+      console.warn(
+        '⚠️  AUTH_DISABLED=true: every request is trusted as a service',
+      );
+    }
+  }
+
+  async canActivate(context: ExecutionContext) {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC, targets)) {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const queryToken = this.reflector.getAllAndOverride<boolean>(
+      QUERY_TOKEN,
+      targets,
+    );
+    request.principal = await this.authenticate(request, queryToken);
+    return true;
+  }
+
+  private async authenticate(
+    request: AuthenticatedRequest,
+    queryToken: boolean,
+  ): Promise<Principal> {
+    if (this.disabled) return { kind: 'service' };
+
+    const apiKey = request.headers['x-api-key'];
+    if (typeof apiKey === 'string') {
+      // Hashing first keeps the comparison constant-time whatever the lengths
+      const given = digest(apiKey);
+      if (!this.apiKeys.some((key) => timingSafeEqual(key, given))) {
+        throw new UnauthorizedException('Invalid API key');
+      }
+      return { kind: 'service' };
+    }
+
+    const [scheme, bearer] = (request.headers.authorization ?? '').split(' ');
+    const query = request.query.access_token;
+    const token =
+      scheme?.toLowerCase() === 'bearer' && bearer
+        ? bearer
+        : queryToken && typeof query === 'string'
+          ? query
+          : undefined;
+    if (!token) {
+      throw new UnauthorizedException('Missing bearer token or API key');
+    }
+    const claims = await verifyJwt(token, (header) => this.keys.keyFor(header));
+    return { kind: 'user', id: claims.sub };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { AccessService } from './access.service';
+import { AuthGuard } from './auth.guard';
+import { JwtKeysService } from './jwt-keys.service';
+
+@Module({
+  imports: [RepositoriesModule],
+  providers: [
+    JwtKeysService,
+    AccessService,
+    { provide: APP_GUARD, useClass: AuthGuard },
+  ],
+  exports: [AccessService],
+})
+export class AuthModule {}
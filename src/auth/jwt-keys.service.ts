@@ -0,0 +1,67 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createPublicKey,
+  createSecretKey,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+import { JwtHeader } from './jwt';
+
+// An unknown `kid` triggers a JWKS refetch (keys rotate), but no more often than this.
+const JWKS_REFRESH_MS = 60_000;
+
+/**
+ * Signing keys for Supabase access tokens: the legacy shared JWT secret
+ * (SUPABASE_JWT_SECRET) for HS256, and the project's published JWKS for
+ * asymmetric keys.
+ */
+@Injectable()
+export class JwtKeysService {
+  private readonly secret?: KeyObject;
+  private readonly jwksUrl?: string;
+  private jwks?: { keys: Map<string, KeyObject>; fetchedAt: number };
+
+  constructor(config: ConfigService) {
+    const secret = config.get<string>('SUPABASE_JWT_SECRET');
+    if (secret) this.secret = createSecretKey(Buffer.from(secret, 'utf8'));
+    const url = config.get<string>('SUPABASE_URL');
+    if (url) {
+      this.jwksUrl = `${url.replace(/\/+$/, '')}/auth/v1/.well-known/jwks.json`;
+    }
+  }
+
+  async keyFor(header: JwtHeader) {
+    if (header.alg === 'HS256') return this.secret;
+    if (!header.kid || !this.jwksUrl) return undefined;
+    const known = this.jwks?.keys.get(header.kid);
+    if (known) return known;
+    if (this.jwks && Date.now() - this.jwks.fetchedAt < JWKS_REFRESH_MS) {
+      return undefined;
+    }
+    try {
+      await this.refresh(this.jwksUrl);
+    } catch (e) {
+      // An outage at the auth provider shouldn't surface as a server error on every route
+      console.error('❌ Failed to load JWT signing keys:', e);
+      throw new UnauthorizedException('Signing keys are unavailable');
+    }
+    return this.jwks?.keys.get(header.kid);
+  }
+
+  private async refresh(url: string) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load signing keys: HTTP ${response.status}`);
+    }
+    const body = (await response.json()) as {
+      keys?: (JsonWebKey & { kid?: string })[];
+    };
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of body.keys ?? []) {
+      if (jwk.kid)
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+    this.jwks = { keys, fetchedAt: Date.now() };
+  }
+}
@@ -0,0 +1,79 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { createHmac, createSecretKey, generateKeyPairSync, sign } from 'crypto';
+import { verifyJwt } from './jwt';
+
+const NOW = Date.UTC(2026, 0, 1);
+const SECRET = createSecretKey(Buffer.from('super-secret-jwt-token'));
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function hs256(claims: object, secret = 'super-secret-jwt-token') {
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = createHmac('sha256', secret)
+    .update(unsigned)
+    .digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+const claims = (extra: object = {}) => ({
+  sub: 'user-1',
+  aud: 'authenticated',
+  role: 'authenticated',
+  exp: NOW / 1000 + 3600,
+  ...extra,
+});
+
+const withSecret = () => Promise.resolve(SECRET);
+
+describe('verifyJwt', () => {
+  it('accepts a Supabase HS256 access token', async () => {
+    await expect(verifyJwt(hs256(claims()), withSecret, NOW)).resolves.toEqual(
+      claims(),
+    );
+  });
+
+  it.each([
+    ['a wrong signature', hs256(claims(), 'other-secret'), 'signature'],
+    ['an expired token', hs256(claims({ exp: NOW / 1000 - 1 })), 'expired'],
+    [
+      'an anon key',
+      hs256(claims({ aud: undefined, role: 'anon' })),
+      'signed-in',
+    ],
+    ['no subject', hs256(claims({ sub: '' })), 'subject'],
+    ['garbage', 'not-a-token', 'Malformed'],
+    [
+      'a header that is not an object',
+      `${Buffer.from('null').toString('base64url')}.${encode(claims())}.c2ln`,
+      'Malformed',
+    ],
+  ])('rejects %s', async (_name, token, message) => {
+    const result = verifyJwt(token, withSecret, NOW);
+    await expect(result).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(result).rejects.toThrow(message);
+  });
+
+  it('verifies ES256 tokens against the key for their kid', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const unsigned = `${encode({ alg: 'ES256', kid: 'k1' })}.${encode(claims())}`;
+    const signature = sign('sha256', Buffer.from(unsigned), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363',
+    }).toString('base64url');
+    const token = `${unsigned}.${signature}`;
+
+    const keyFor = jest.fn(({ kid }: { kid?: string }) =>
+      Promise.resolve(kid === 'k1' ? publicKey : undefined),
+    );
+    await expect(verifyJwt(token, keyFor, NOW)).resolves.toMatchObject({
+      sub: 'user-1',
+    });
+    // An HS256 secret must not verify a token that claims an asymmetric algorithm
+    await expect(verifyJwt(token, withSecret, NOW)).rejects.toThrow(
+      'signature',
+    );
+  });
+});
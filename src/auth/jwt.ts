@@ -0,0 +1,108 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { createHmac, KeyObject, timingSafeEqual, verify } from 'crypto';
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+}
+
+export interface JwtClaims {
+  sub: string;
+  exp: number;
+  nbf?: number;
+  aud?: string | string[];
+  role?: string;
+  email?: string;
+}
+
+// Supabase puts signed-in users' tokens in this audience; anon and service keys aren't in it.
+const AUDIENCE = 'authenticated';
+
+function segment<T>(raw: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new UnauthorizedException('Malformed token');
+  }
+  // Valid JSON such as `null` or `1` is still no header or claims set
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new UnauthorizedException('Malformed token');
+  }
+  return value as T;
+}
+
+function signatureValid(
+  alg: string,
+  key: KeyObject,
+  data: Buffer,
+  signature: Buffer,
+) {
+  switch (alg) {
+    case 'HS256': {
+      if (key.type !== 'secret') return false;
+      const expected = createHmac('sha256', key).update(data).digest();
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    }
+    case 'RS256':
+      return (
+        key.asymmetricKeyType === 'rsa' &&
+        verify('sha256', data, key, signature)
+      );
+    case 'ES256':
+      return (
+        key.asymmetricKeyType === 'ec' &&
+        verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Verifies a Supabase access token: signature (HS256 with the project's JWT
+ * secret, or RS256/ES256 with a key from its JWKS), expiry and audience.
+ * `keyFor` picks the key for the token's header; undefined rejects it.
+ */
+export async function verifyJwt(
+  token: string,
+  keyFor: (header: JwtHeader) => Promise<KeyObject | undefined>,
+  now = Date.now(),
+): Promise<JwtClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new UnauthorizedException('Malformed token');
+  const [rawHeader, rawClaims, rawSignature] = parts;
+
+  const header = segment<JwtHeader>(rawHeader);
+  const key = await keyFor(header);
+  if (
+    !key ||
+    !signatureValid(
+      header.alg,
+      key,
+      Buffer.from(`${rawHeader}.${rawClaims}`),
+      Buffer.from(rawSignature, 'base64url'),
+    )
+  ) {
+    throw new UnauthorizedException('Invalid token signature');
+  }
+
+  const claims = segment<Partial<JwtClaims>>(rawClaims);
+  const seconds = now / 1000;
+  if (typeof claims.exp !== 'number' || claims.exp <= seconds) {
+    throw new UnauthorizedException('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > seconds) {
+    throw new UnauthorizedException('Token not valid yet');
+  }
+  if (![claims.aud].flat().includes(AUDIENCE)) {
+    throw new UnauthorizedException('Token is not for a signed-in user');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new UnauthorizedException('Token has no subject');
+  }
+  return claims as JwtClaims;
+}
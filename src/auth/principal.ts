@@ -0,0 +1,9 @@
+import type { Request } from 'express';
+
+// Who a request acts for: a signed-in Supabase user, or a trusted backend holding an API key.
+export type Principal = { kind: 'user'; id: string } | { kind: 'service' };
+
+export interface AuthenticatedRequest extends Request {
+  // Set by AuthGuard on every non-public route
+  principal?: Principal;
+}
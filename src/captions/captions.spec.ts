@@ -0,0 +1,40 @@
+import { narrationCues, toSrt, toWebVtt } from './captions';
+
+describe('captions', () => {
+  it('splits narration into two-line cues that share the time window', () => {
+    const cues = narrationCues(
+      'Light travels in straight lines. When it hits a mirror, the angle of incidence equals the angle of reflection, which is why you can see yourself.',
+      10,
+      20,
+    );
+
+    expect(cues[0]).toMatchObject({
+      start: 10,
+      text: 'Light travels in straight lines.',
+    });
+    for (const cue of cues) {
+      const lines = cue.text.split('\n');
+      expect(lines.length).toBeLessThanOrEqual(2);
+      for (const line of lines) expect(line.length).toBeLessThanOrEqual(42);
+    }
+    for (let i = 1; i < cues.length; i++) {
+      expect(cues[i].start).toBeCloseTo(cues[i - 1].end);
+    }
+    expect(cues[cues.length - 1].end).toBe(20);
+  });
+
+  it('merges cues when the window is too short to read them', () => {
+    const cues = narrationCues('One. Two. Three. Four.', 0, 2);
+    expect(cues).toHaveLength(2);
+  });
+
+  it('formats WebVTT and SRT timestamps', () => {
+    const cues = [{ start: 3661.5, end: 3663.25, text: 'Hello\nworld' }];
+    expect(toWebVtt(cues)).toBe(
+      'WEBVTT\n\n01:01:01.500 --> 01:01:03.250\nHello\nworld\n',
+    );
+    expect(toSrt(cues)).toBe(
+      '1\n01:01:01,500 --> 01:01:03,250\nHello\nworld\n',
+    );
+  });
+});
@@ -0,0 +1,127 @@
+export interface Cue {
+  start: number; // seconds
+  end: number;
+  text: string; // may contain line breaks
+  // Rendered as a WebVTT voice span (`<v Alex>`); SRT has no equivalent.
+  speaker?: string;
+}
+
+export interface CueOptions {
+  // Characters per caption line and lines per cue, per common broadcast guidelines.
+  maxLineLength?: number;
+  maxLines?: number;
+  // Cues shorter than this are merged into their neighbour when possible.
+  minDuration?: number;
+}
+
+const DEFAULTS: Required<CueOptions> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  minDuration: 1,
+};
+
+function wrapWords(words: string[], maxLineLength: number) {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Splits at sentence ends first so cues don't straddle two sentences, then packs words into lines.
+function chunkText(text: string, maxLineLength: number, maxLines: number) {
+  const sentences = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(/(?<=[.!?…])\s+/)
+    .filter(Boolean);
+
+  const chunks: string[][] = [];
+  for (const sentence of sentences) {
+    const lines = wrapWords(sentence.split(' '), maxLineLength);
+    for (let i = 0; i < lines.length; i += maxLines) {
+      chunks.push(lines.slice(i, i + maxLines));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Breaks narration spoken between `start` and `end` into readable cues,
+ * sharing the time out in proportion to each cue's length.
+ */
+export function narrationCues(
+  text: string,
+  start: number,
+  end: number,
+  options: CueOptions = {},
+): Cue[] {
+  const { maxLineLength, maxLines, minDuration } = { ...DEFAULTS, ...options };
+  let chunks = chunkText(text, maxLineLength, maxLines);
+  if (chunks.length === 0 || end <= start) return [];
+
+  // Too many cues for the time available: fall back to fewer, fuller ones.
+  const maxCues = Math.max(1, Math.floor((end - start) / minDuration));
+  while (chunks.length > maxCues) {
+    const merged: string[][] = [];
+    for (let i = 0; i < chunks.length; i += 2) {
+      const pair = [...chunks[i], ...(chunks[i + 1] ?? [])].join(' ');
+      merged.push(wrapWords(pair.split(' '), maxLineLength));
+    }
+    chunks = merged;
+  }
+
+  const lengths = chunks.map((lines) => lines.join(' ').length);
+  const total = lengths.reduce((sum, n) => sum + n, 0);
+  const cues: Cue[] = [];
+  let cursor = start;
+  chunks.forEach((lines, i) => {
+    const cueEnd =
+      i === chunks.length - 1
+        ? end
+        : cursor + ((end - start) * lengths[i]) / total;
+    cues.push({ start: cursor, end: cueEnd, text: lines.join('\n') });
+    cursor = cueEnd;
+  });
+  return cues;
+}
+
+function timestamp(seconds: number, separator: '.' | ',') {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toWebVtt(cues: Cue[]) {
+  const body = cues
+    .map((cue) => {
+      const voice = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : '';
+      return `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${voice}${escapeVtt(cue.text)}`;
+    })
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+export function toSrt(cues: Cue[]) {
+  return (
+    cues
+      .map(
+        (cue, i) =>
+          `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.text}`,
+      )
+      .join('\n\n') + '\n'
+  );
+}
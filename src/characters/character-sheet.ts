@@ -0,0 +1,23 @@
+// A 2x2 turnaround of one character, the image pipelines pass as a visual reference.
+export function characterSheetPrompt(description: string, artStyle: string) {
+  return `A professional 2x2 character reference sheet showing the same character from 4 different angles arranged in a grid:
+- Top-left: Front view facing camera
+- Top-right: Side profile (left side)
+- Bottom-left: 3/4 three-quarter view
+- Bottom-right: Back view
+
+Character description: ${description}
+Art style: ${artStyle}
+
+Requirements:
+- All 4 views must show the EXACT same character with identical features, clothing, and proportions
+- Clean white background
+- Professional reference sheet layout
+- High detail and clarity
+- Consistent lighting across all views`;
+}
+
+// Prompt lines that tie a page or scene to the character on a reference sheet.
+export function characterReference(description: string) {
+  return `The attached character reference sheet shows the main character (${description}) from four angles. Draw them exactly as shown: same face, hair, clothing, colours and proportions.`;
+}
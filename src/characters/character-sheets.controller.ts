@@ -0,0 +1,23 @@
+import { Controller, Get, Param, ParseUUIDPipe } from '@nestjs/common';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { CharacterSheetsService } from './character-sheets.service';
+
+@Controller('courses/:courseId/character-sheets')
+export class CharacterSheetsController {
+  constructor(
+    private readonly characters: CharacterSheetsService,
+    private readonly access: AccessService,
+  ) {}
+
+  // Newest first; the first one is what the next comic or video reuses
+  @Get()
+  async list(
+    @CurrentPrincipal() principal: Principal,
+    @Param('courseId', ParseUUIDPipe) courseId: string,
+  ) {
+    await this.access.checkCourse(principal, courseId);
+    return this.characters.listForCourse(courseId);
+  }
+}
@@ -0,0 +1,112 @@
+import { FakeGenerativeProvider } from '../generative/fake.provider';
+import {
+  InMemoryCharacterSheetRepository,
+  InMemoryCourseRepository,
+} from '../repositories/in-memory-repositories';
+import { StorageService } from '../storage/storage.service';
+import { CharacterSheetsService } from './character-sheets.service';
+
+class MemoryStorage extends StorageService {
+  readonly objects = new Map<string, Buffer>();
+
+  put(key: string, data: Buffer) {
+    this.objects.set(key, data);
+    return Promise.resolve({ key, url: this.publicUrl(key) });
+  }
+  get(key: string) {
+    return Promise.resolve(this.objects.get(key));
+  }
+  delete(key: string) {
+    this.objects.delete(key);
+    return Promise.resolve();
+  }
+  publicUrl(key: string) {
+    return `https://cdn.test/${key}`;
+  }
+  signedUrl(key: string) {
+    return Promise.resolve(this.publicUrl(key));
+  }
+}
+
+describe('CharacterSheetsService', () => {
+  let storage: MemoryStorage;
+  let courses: InMemoryCourseRepository;
+  let service: CharacterSheetsService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    courses = new InMemoryCourseRepository();
+    service = new CharacterSheetsService(
+      new FakeGenerativeProvider(),
+      storage,
+      new InMemoryCharacterSheetRepository(),
+      courses,
+    );
+  });
+
+  it('shares a course sheet with every lesson of the course', async () => {
+    const { sheet, image } = await service.create(
+      { lessonId: 'lesson-1', courseId: 'course-1' },
+      'A fox in a lab coat',
+      'Ink and watercolour',
+    );
+
+    expect(sheet.imageKey).toMatch(/^characters\/courses\/course-1\//);
+    const reused = await service.find({
+      lessonId: 'lesson-2',
+      courseId: 'course-1',
+    });
+    expect(reused?.id).toBe(sheet.id);
+    expect(await service.image(reused!)).toEqual(image);
+  });
+
+  it("finds the lesson's course when no course is passed", async () => {
+    courses.courses.set('course-1', {
+      id: 'course-1',
+      title: 'Optics',
+      slideTheme: null,
+      ownerId: 'owner',
+      teacherIds: [],
+      modules: [
+        {
+          id: 'm1',
+          title: 'Light',
+          orderIndex: 0,
+          lessonPlans: [
+            { id: 'lesson-1', title: 'Lenses', orderIndex: 0, status: null },
+            { id: 'lesson-2', title: 'Prisms', orderIndex: 1, status: null },
+          ],
+        },
+      ],
+    });
+    const { sheet } = await service.create(
+      { lessonId: 'lesson-1' },
+      'A fox in a lab coat',
+      'Ink and watercolour',
+    );
+
+    expect(sheet.courseId).toBe('course-1');
+    expect((await service.find({ lessonId: 'lesson-2' }))?.id).toBe(sheet.id);
+  });
+
+  it('keeps sheets of lessons outside a course to that lesson', async () => {
+    await service.create({ lessonId: 'lesson-1' }, 'A robot', 'Flat colours');
+
+    expect(await service.find({ lessonId: 'lesson-1' })).toBeDefined();
+    expect(await service.find({ lessonId: 'lesson-2' })).toBeUndefined();
+    expect(
+      await service.find({ lessonId: 'lesson-1', courseId: 'course-1' }),
+    ).toBeUndefined();
+  });
+
+  it('fails loudly when a stored sheet image has gone missing', async () => {
+    const { sheet } = await service.create(
+      { lessonId: 'lesson-1', courseId: 'course-1' },
+      'A fox',
+      'Ink',
+    );
+    storage.objects.clear();
+
+    await expect(service.image(sheet)).rejects.toThrow(/is missing/);
+  });
+});
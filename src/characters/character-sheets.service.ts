@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { GenerativeProvider } from '../generative/generative-provider';
+import { CharacterSheet } from '../repositories/entities';
+import {
+  CharacterSheetRepository,
+  CourseRepository,
+} from '../repositories/repositories';
+import { StorageService } from '../storage/storage.service';
+import { characterSheetPrompt } from './character-sheet';
+
+export interface SheetOwner {
+  lessonId: string;
+  // Sheets drawn for a course are shared by all of its lessons; defaults to the lesson's course.
+  courseId?: string | null;
+}
+
+/**
+ * Character reference sheets as reusable assets: the newest sheet of the
+ * course (or, outside a course, of the lesson) is reused, so a mascot looks
+ * the same in every comic and video.
+ */
+@Injectable()
+export class CharacterSheetsService {
+  constructor(
+    private readonly ai: GenerativeProvider,
+    private readonly storage: StorageService,
+    private readonly sheets: CharacterSheetRepository,
+    private readonly courses: CourseRepository,
+  ) {}
+
+  private async courseOf(owner: SheetOwner) {
+    if (owner.courseId) return owner.courseId;
+    return (await this.courses.findByLesson(owner.lessonId))?.id;
+  }
+
+  listForCourse(courseId: string) {
+    return this.sheets.findByCourse(courseId);
+  }
+
+  /** The sheet to reuse for this lesson, if one has been drawn. */
+  async find(owner: SheetOwner): Promise<CharacterSheet | undefined> {
+    const courseId = await this.courseOf(owner);
+    const found = courseId
+      ? await this.sheets.findByCourse(courseId)
+      : await this.sheets.findByLesson(owner.lessonId);
+    return found[0];
+  }
+
+  /** Draws a new sheet and stores it with the course (or lesson). */
+  async create(owner: SheetOwner, description: string, artStyle: string) {
+    const image = await this.ai.generateImage(
+      characterSheetPrompt(description, artStyle),
+      { task: 'character.sheet' },
+    );
+    const courseId = await this.courseOf(owner);
+    const folder = courseId
+      ? `courses/${courseId}`
+      : `lessons/${owner.lessonId}`;
+    const stored = await this.storage.put(
+      `characters/${folder}/sheet_${Date.now()}.png`,
+      image,
+      { contentType: 'image/png', public: true },
+    );
+    const sheet = await this.sheets.create({
+      courseId: courseId ?? null,
+      lessonId: owner.lessonId,
+      description,
+      artStyle,
+      imageKey: stored.key,
+      imageUrl: stored.url,
+    });
+    console.log(
+      `🧬 Drew character sheet ${sheet.id} for ${courseId ? `course ${courseId}` : `lesson ${owner.lessonId}`}`,
+    );
+    return { sheet, image };
+  }
+
+  async image(sheet: CharacterSheet) {
+    const image = await this.storage.get(sheet.imageKey);
+    if (!image) {
+      throw new Error(
+        `Character sheet ${sheet.id} image ${sheet.imageKey} is missing`,
+      );
+    }
+    return image;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { GenerativeModule } from '../generative/generative.module';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { StorageModule } from '../storage/storage.module';
+import { CharacterSheetsController } from './character-sheets.controller';
+import { CharacterSheetsService } from './character-sheets.service';
+
+@Module({
+  imports: [AuthModule, GenerativeModule, StorageModule, RepositoriesModule],
+  controllers: [CharacterSheetsController],
+  providers: [CharacterSheetsService],
+  exports: [CharacterSheetsService],
+})
+export class CharactersModule {}
@@ -0,0 +1,43 @@
+import { comicInfoXml, crc32, zipStore } from './comic-cbz';
+
+describe('CBZ', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('stores entries uncompressed with a central directory', () => {
+    const zip = zipStore([
+      { name: '000_cover.jpg', data: Buffer.from('cover') },
+      { name: 'ComicInfo.xml', data: Buffer.from('<ComicInfo/>') },
+    ]);
+
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(2);
+    const directory = zip.readUInt32LE(end + 16);
+    expect(zip.readUInt32LE(directory)).toBe(0x02014b50);
+    // Second local header follows the first entry's name and data
+    const second = zip.readUInt32LE(directory + 46 + 13 + 42);
+    expect(second).toBe(30 + 13 + 5);
+    expect(zip.subarray(second + 30, second + 43).toString()).toBe(
+      'ComicInfo.xml',
+    );
+  });
+
+  it('bookmarks story pages in ComicInfo.xml', () => {
+    const info = comicInfoXml({
+      title: 'Light & Lenses',
+      language: 'en',
+      pages: [
+        { type: 'FrontCover', width: 10, height: 20 },
+        { type: 'Story', bookmark: 'Refraction', width: 10, height: 20 },
+      ],
+    });
+
+    expect(info).toContain('<Title>Light &amp; Lenses</Title>');
+    expect(info).toContain('<PageCount>2</PageCount>');
+    expect(info).toContain(
+      '<Page Image="1" Type="Story" Bookmark="Refraction" ImageWidth="10" ImageHeight="20" />',
+    );
+  });
+});
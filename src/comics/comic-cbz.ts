@@ -0,0 +1,136 @@
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, as ZIP headers store them.
+function dosTime(date: Date) {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2);
+  const day =
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return { time, day };
+}
+
+/**
+ * A ZIP archive with every entry stored uncompressed, which is what comic
+ * readers expect of a CBZ (JPEGs don't compress further anyway).
+ */
+export function zipStore(entries: ZipEntry[], modified = new Date()): Buffer {
+  const { time, day } = dosTime(modified);
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const crc = crc32(entry.data);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(0, 8); // stored
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(day, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(entry.data.length, 18);
+    header.writeUInt32LE(entry.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    local.push(header, name, entry.data);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4); // version made by
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(0x0800, 8);
+    record.writeUInt16LE(0, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(day, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(entry.data.length, 20);
+    record.writeUInt32LE(entry.data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += header.length + name.length + entry.data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, directory, end]);
+}
+
+export type ComicPageType = 'FrontCover' | 'Other' | 'Story';
+
+export interface ComicInfo {
+  title: string;
+  series?: string;
+  summary?: string;
+  // ISO 639 code, e.g. `es`.
+  language: string;
+  pages: {
+    type: ComicPageType;
+    bookmark?: string;
+    width: number;
+    height: number;
+  }[];
+}
+
+const xml = (value: string) =>
+  value.replace(
+    /[<>&"]/g,
+    (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c]!,
+  );
+
+/**
+ * ComicInfo.xml (the ComicRack schema most readers understand). Page
+ * bookmarks act as the CBZ's table of contents.
+ */
+export function comicInfoXml(info: ComicInfo) {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+    `  <Title>${xml(info.title)}</Title>`,
+  ];
+  if (info.series) lines.push(`  <Series>${xml(info.series)}</Series>`);
+  if (info.summary) lines.push(`  <Summary>${xml(info.summary)}</Summary>`);
+  lines.push(
+    `  <PageCount>${info.pages.length}</PageCount>`,
+    `  <LanguageISO>${xml(info.language)}</LanguageISO>`,
+    '  <Manga>No</Manga>',
+    '  <Pages>',
+    ...info.pages.map(
+      (page, i) =>
+        `    <Page Image="${i}" Type="${page.type}"` +
+        (page.bookmark ? ` Bookmark="${xml(page.bookmark)}"` : '') +
+        ` ImageWidth="${page.width}" ImageHeight="${page.height}" />`,
+    ),
+    '  </Pages>',
+    '</ComicInfo>',
+    '',
+  );
+  return lines.join('\n');
+}
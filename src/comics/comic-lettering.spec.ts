@@ -0,0 +1,80 @@
+import {
+  Box,
+  contentsLettering,
+  coverLettering,
+  letteringFilter,
+  pageLettering,
+} from './comic-lettering';
+
+const size = { width: 1000, height: 1400 };
+
+const inside = (inner: Box, outer: Box) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const page: Box = { x: 0, y: 0, ...size };
+
+describe('comic lettering', () => {
+  it('puts the caption on its edge and balloons on the other one', () => {
+    const lettering = pageLettering(size, {
+      caption: 'In 1905 Einstein published four papers that changed physics.',
+      dialogue: [
+        { speaker: 'Einstein', text: 'Light comes in packets!' },
+        { speaker: 'Planck', text: 'Quanta, you mean?' },
+      ],
+      captionPosition: 'bottom',
+    });
+
+    const [caption, left, right] = lettering.boxes.filter(
+      (b) => b.color === 'black' && b.height > 20,
+    );
+    expect(caption.y + caption.height).toBeGreaterThan(size.height * 0.8);
+    expect(left.y).toBeLessThan(size.height * 0.2);
+    expect(right.x + right.width).toBeGreaterThan(size.width * 0.8);
+    expect(lettering.boxes.every((b) => inside(b, page))).toBe(true);
+    expect(lettering.text.map((t) => t.text).join(' ')).toContain('packets');
+    expect(lettering.truncated).toBe(false);
+  });
+
+  it('shrinks a long caption and only cuts it when it cannot fit', () => {
+    const lettering = pageLettering(size, {
+      caption: 'word '.repeat(2000),
+      dialogue: [],
+      captionPosition: 'top',
+    });
+
+    expect(lettering.truncated).toBe(true);
+    expect(lettering.boxes[0].height).toBeLessThanOrEqual(size.height * 0.2);
+  });
+
+  it('lays out one clickable contents row per page', () => {
+    const contents = contentsLettering(size, 'Optics', [
+      { number: 1, title: 'Light' },
+      { number: 2, title: 'Lenses' },
+    ]);
+
+    expect(contents.rows).toHaveLength(2);
+    expect(contents.rows[1].y).toBe(
+      contents.rows[0].y + contents.rows[0].height,
+    );
+    expect(contents.rows.every((row) => inside(row, page))).toBe(true);
+  });
+
+  it('paints boxes before text, reading text from files', () => {
+    const files: string[] = [];
+    const filter = letteringFilter(
+      coverLettering(size, 'Optics', 'Ancient Alexandria'),
+      () => '/fonts/Bold.ttf',
+      (text) => {
+        files.push(text);
+        return `/tmp/t${files.length}.txt`;
+      },
+    );
+
+    expect(files).toEqual(['Optics', 'Ancient Alexandria']);
+    expect(filter.indexOf('drawbox')).toBeLessThan(filter.indexOf('drawtext'));
+    expect(filter).toContain('textfile=/tmp/t1.txt');
+  });
+});
@@ -0,0 +1,404 @@
+import { drawtextFilter } from '../media/drawtext';
+import { FontWeight } from '../media/fonts';
+import { fitText, FittedText, measureText } from '../media/text-layout';
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FilledBox extends Box {
+  color: string;
+}
+
+export interface LetterBlock {
+  // One drawtext call; multi-line text is left-aligned.
+  text: string;
+  // Pixels, or a drawtext expression such as `(w-text_w)/2`.
+  x: number | string;
+  y: number;
+  fontSize: number;
+  lineHeight: number;
+  weight: FontWeight;
+  color: string;
+}
+
+// What gets painted over a page: boxes first, in order, then the text.
+export interface Lettering {
+  boxes: FilledBox[];
+  text: LetterBlock[];
+  // True when some text only fitted by cutting it short.
+  truncated: boolean;
+}
+
+export interface SpokenLine {
+  speaker: string;
+  text: string;
+}
+
+export interface PageText {
+  caption: string;
+  dialogue: SpokenLine[];
+  // Edge of the page the caption box sits on; balloons take the other one.
+  captionPosition: 'top' | 'bottom';
+}
+
+const INK = 'black';
+const CAPTION_FILL = '0xFFF3B0';
+const BALLOON_FILL = 'white';
+const PAPER = '0xFAF6EC';
+
+// Sizes scale with the page so lettering looks the same at any resolution.
+function metrics({ width, height }: PageSize) {
+  return {
+    margin: Math.round(width * 0.03),
+    pad: Math.round(width * 0.015),
+    border: Math.max(2, Math.round(width * 0.002)),
+    maxFont: Math.max(12, Math.round(width * 0.03)),
+    minFont: Math.max(10, Math.round(width * 0.016)),
+    tailLength: Math.round(height * 0.04),
+    tailWidth: Math.round(width * 0.04),
+  };
+}
+
+const widest = (fitted: FittedText) =>
+  Math.max(
+    0,
+    ...fitted.paragraphs.flat().map((l) => measureText(l, fitted.fontSize)),
+  );
+
+const lineCount = (fitted: FittedText) => fitted.paragraphs.flat().length;
+
+// An ink outline `border` pixels wide around a filled box.
+function outlined(box: Box, fill: string, border: number): FilledBox[] {
+  return [
+    { ...box, color: INK },
+    {
+      x: box.x + border,
+      y: box.y + border,
+      width: box.width - 2 * border,
+      height: box.height - 2 * border,
+      color: fill,
+    },
+  ];
+}
+
+// Lines centred in a box, one drawtext each so drawtext can measure them.
+function centredLines(
+  fitted: FittedText,
+  box: Box,
+  top: number,
+  weight: FontWeight,
+  color: string,
+): LetterBlock[] {
+  return fitted.paragraphs.flat().map((line, i) => ({
+    text: line,
+    x: `${box.x}+(${box.width}-text_w)/2`,
+    y: top + i * fitted.lineHeight,
+    fontSize: fitted.fontSize,
+    lineHeight: fitted.lineHeight,
+    weight,
+    color,
+  }));
+}
+
+/**
+ * A stepped triangle below or above a balloon, pointing into the panel.
+ * Steps overlap the balloon's border so the tail reads as part of it.
+ */
+function tail(
+  balloon: Box,
+  side: 'left' | 'right',
+  direction: 'up' | 'down',
+  m: ReturnType<typeof metrics>,
+): Box[] {
+  const steps = 6;
+  const stepHeight = Math.ceil(m.tailLength / steps);
+  const baseX =
+    side === 'left'
+      ? balloon.x + Math.round(balloon.width * 0.3)
+      : balloon.x + Math.round(balloon.width * 0.7) - m.tailWidth;
+  return Array.from({ length: steps }, (_, k) => {
+    const width = Math.max(2, Math.round(m.tailWidth * (1 - k / steps)));
+    // Lean towards the middle of the page
+    const x = side === 'left' ? baseX + (m.tailWidth - width) : baseX;
+    const y =
+      direction === 'down'
+        ? balloon.y + balloon.height - m.border + k * stepHeight
+        : balloon.y + m.border - (k + 1) * stepHeight;
+    return { x, y, width, height: stepHeight };
+  });
+}
+
+/**
+ * Lays out a page's narration caption box and up to two speech balloons.
+ * The caption hugs its text along one edge; balloons sit in the opposite
+ * corners with tails pointing into the art.
+ */
+export function pageLettering(size: PageSize, page: PageText): Lettering {
+  const m = metrics(size);
+  const ink: FilledBox[] = [];
+  const fill: FilledBox[] = [];
+  const text: LetterBlock[] = [];
+  let truncated = false;
+
+  const caption = fitText([page.caption], {
+    maxWidth: size.width - 2 * m.margin - 2 * m.pad,
+    maxHeight: Math.round(size.height * 0.2) - 2 * m.pad,
+    maxFontSize: m.maxFont,
+    minFontSize: m.minFont,
+  });
+  truncated ||= caption.truncated;
+  const captionBox: Box = {
+    x: m.margin,
+    y: 0,
+    width: Math.ceil(widest(caption)) + 2 * m.pad,
+    height: lineCount(caption) * caption.lineHeight + 2 * m.pad,
+  };
+  captionBox.y =
+    page.captionPosition === 'top'
+      ? m.margin
+      : size.height - m.margin - captionBox.height;
+  const [captionInk, captionFill] = outlined(
+    captionBox,
+    CAPTION_FILL,
+    m.border,
+  );
+  ink.push(captionInk);
+  fill.push(captionFill);
+  text.push({
+    text: caption.paragraphs.flat().join('\n'),
+    x: captionBox.x + m.pad,
+    y: captionBox.y + m.pad,
+    fontSize: caption.fontSize,
+    lineHeight: caption.lineHeight,
+    weight: 'regular',
+    color: INK,
+  });
+
+  const atTop = page.captionPosition === 'bottom';
+  page.dialogue.slice(0, 2).forEach((line, i) => {
+    const fitted = fitText([line.text], {
+      maxWidth: Math.round(size.width * 0.44) - 2 * m.pad,
+      maxHeight: Math.round(size.height * 0.16) - 2 * m.pad,
+      maxFontSize: m.maxFont,
+      minFontSize: m.minFont,
+    });
+    truncated ||= fitted.truncated;
+    const width = Math.ceil(widest(fitted)) + 2 * m.pad;
+    const height = lineCount(fitted) * fitted.lineHeight + 2 * m.pad;
+    const side = i === 0 ? 'left' : 'right';
+    const balloon: Box = {
+      x: side === 'left' ? m.margin : size.width - m.margin - width,
+      y: atTop ? m.margin : size.height - m.margin - height,
+      width,
+      height,
+    };
+    const [balloonInk, balloonFill] = outlined(balloon, BALLOON_FILL, m.border);
+    const steps = tail(balloon, side, atTop ? 'down' : 'up', m);
+    ink.push(
+      balloonInk,
+      ...steps.map((s) => ({
+        x: s.x - m.border,
+        y: s.y,
+        width: s.width + 2 * m.border,
+        height: s.height,
+        color: INK,
+      })),
+    );
+    fill.push(
+      balloonFill,
+      ...steps.map((s) => ({ ...s, color: BALLOON_FILL })),
+    );
+    text.push(...centredLines(fitted, balloon, balloon.y + m.pad, 'bold', INK));
+  });
+
+  // All ink before any fill, so fills cover the seams between balloon and tail
+  return { boxes: [...ink, ...fill], text, truncated };
+}
+
+/** Title and subtitle lettered on a dark band across the bottom of the cover art. */
+export function coverLettering(
+  size: PageSize,
+  title: string,
+  subtitle: string,
+): Lettering {
+  const m = metrics(size);
+  const band: FilledBox = {
+    x: 0,
+    y: Math.round(size.height * 0.7),
+    width: size.width,
+    height: size.height - Math.round(size.height * 0.7),
+    color: 'black@0.6',
+  };
+  const maxWidth = size.width - 2 * m.margin;
+  const heading = fitText([title], {
+    maxWidth,
+    maxHeight: Math.round(size.height * 0.16),
+    maxFontSize: Math.round(size.width * 0.075),
+    minFontSize: m.maxFont,
+    lineSpacing: 1.15,
+  });
+  const sub = fitText([subtitle], {
+    maxWidth,
+    maxHeight: Math.round(size.height * 0.06),
+    maxFontSize: m.maxFont,
+    minFontSize: m.minFont,
+  });
+  const headingTop = band.y + m.margin;
+  const subTop = headingTop + lineCount(heading) * heading.lineHeight + m.pad;
+  return {
+    boxes: [band],
+    text: [
+      {
+        text: heading.paragraphs.flat().join('\n'),
+        x: m.margin,
+        y: headingTop,
+        fontSize: heading.fontSize,
+        lineHeight: heading.lineHeight,
+        weight: 'bold',
+        color: 'white',
+      },
+      {
+        text: sub.paragraphs.flat().join('\n'),
+        x: m.margin,
+        y: subTop,
+        fontSize: sub.fontSize,
+        lineHeight: sub.lineHeight,
+        weight: 'regular',
+        color: CAPTION_FILL,
+      },
+    ],
+    truncated: heading.truncated || sub.truncated,
+  };
+}
+
+export interface ContentsEntry {
+  // Page number as printed in the table of contents.
+  number: number;
+  title: string;
+}
+
+/**
+ * A table of contents page on plain paper: the comic's title, then one row
+ * per entry. `rows` are the clickable areas for PDF links, in entry order.
+ */
+export function contentsLettering(
+  size: PageSize,
+  title: string,
+  entries: ContentsEntry[],
+): Lettering & { background: string; rows: Box[] } {
+  const m = metrics(size);
+  const maxWidth = size.width - 2 * m.margin;
+  const heading = fitText([title], {
+    maxWidth,
+    maxHeight: Math.round(size.height * 0.12),
+    maxFontSize: Math.round(size.width * 0.06),
+    minFontSize: m.maxFont,
+    lineSpacing: 1.15,
+  });
+  const rule: FilledBox = {
+    x: m.margin,
+    y: m.margin * 2 + lineCount(heading) * heading.lineHeight,
+    width: maxWidth,
+    height: m.border,
+    color: INK,
+  };
+
+  const top = rule.y + m.margin;
+  const rowHeight = Math.min(
+    Math.round(size.height * 0.08),
+    Math.floor((size.height - top - m.margin) / Math.max(1, entries.length)),
+  );
+  const fontSize = Math.max(
+    m.minFont,
+    Math.min(m.maxFont, Math.round(rowHeight * 0.5)),
+  );
+  const numberColumn = Math.ceil(measureText('000', fontSize)) + m.pad;
+  const rows: Box[] = [];
+  const text: LetterBlock[] = [
+    {
+      text: heading.paragraphs.flat().join('\n'),
+      x: m.margin,
+      y: m.margin * 2,
+      fontSize: heading.fontSize,
+      lineHeight: heading.lineHeight,
+      weight: 'bold',
+      color: INK,
+    },
+  ];
+  let truncated = heading.truncated;
+
+  entries.forEach((entry, i) => {
+    const y = top + i * rowHeight;
+    const line = fitText([entry.title], {
+      maxWidth: maxWidth - numberColumn,
+      maxHeight: fontSize,
+      maxFontSize: fontSize,
+      minFontSize: fontSize,
+      lineSpacing: 1,
+    });
+    truncated ||= line.truncated;
+    const textTop = y + Math.round((rowHeight - fontSize) / 2);
+    text.push(
+      {
+        text: String(entry.number),
+        x: m.margin,
+        y: textTop,
+        fontSize,
+        lineHeight: fontSize,
+        weight: 'bold',
+        color: INK,
+      },
+      {
+        text: line.paragraphs.flat()[0] ?? '',
+        x: m.margin + numberColumn,
+        y: textTop,
+        fontSize,
+        lineHeight: fontSize,
+        weight: 'regular',
+        color: INK,
+      },
+    );
+    rows.push({ x: m.margin, y, width: maxWidth, height: rowHeight });
+  });
+
+  return { background: PAPER, boxes: [rule], text, rows, truncated };
+}
+
+/**
+ * The drawbox/drawtext chain that paints `lettering` onto a page, for
+ * `-vf`. Each text block is written out through `textFile` so drawtext
+ * reads it verbatim, with a font that covers its script.
+ */
+export function letteringFilter(
+  lettering: Lettering,
+  font: (text: string, weight: FontWeight) => string | undefined,
+  textFile: (text: string) => string,
+) {
+  const boxes = lettering.boxes.map(
+    (b) =>
+      `drawbox=x=${b.x}:y=${b.y}:w=${b.width}:h=${b.height}:color=${b.color}:t=fill`,
+  );
+  const text = lettering.text
+    .filter((block) => block.text.trim())
+    .map((block) =>
+      drawtextFilter({
+        textFile: textFile(block.text),
+        fontFile: font(block.text, block.weight),
+        x: block.x,
+        y: block.y,
+        fontSize: block.fontSize,
+        color: block.color,
+        lineSpacing: block.lineHeight - block.fontSize,
+      }),
+    );
+  return [...boxes, ...text].join(',') || 'null';
+}
@@ -0,0 +1,42 @@
+import { imagePdf } from './comic-pdf';
+
+// Not a decodable image; the writer embeds JPEG bytes without looking at them.
+const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xd9]);
+
+describe('imagePdf', () => {
+  const pdf = imagePdf({
+    title: 'Óptica',
+    language: 'es',
+    pages: [
+      { jpeg, width: 300, height: 450 },
+      {
+        jpeg,
+        width: 300,
+        height: 450,
+        links: [{ area: { x: 0, y: 0, width: 300, height: 45 }, page: 0 }],
+      },
+    ],
+    outline: [{ title: 'Cover', page: 0 }],
+  });
+  const text = pdf.toString('latin1');
+
+  it('sizes pages from the image and links back to earlier pages', () => {
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/MediaBox [0 0 144 216]');
+    expect(text).toContain('/Subtype /Link /Rect [0 194.4 144 216]');
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/Outlines');
+  });
+
+  it('writes non-ASCII text as UTF-16 and a correct cross-reference table', () => {
+    expect(text).toContain('/Title <FEFF00D300700074006900630061>');
+    const xref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)];
+    for (const [i, [, offset]] of offsets.entries()) {
+      expect(text.slice(Number(offset)).startsWith(`${i + 1} 0 obj`)).toBe(
+        true,
+      );
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import { Box } from './comic-lettering';
+
+export interface PdfPage {
+  // Baseline JPEG in RGB, as ffmpeg writes it.
+  jpeg: Buffer;
+  width: number; // pixels
+  height: number;
+  // Clickable areas (in image pixels) that jump to another page, by index.
+  links?: { area: Box; page: number }[];
+}
+
+export interface PdfDocument {
+  title: string;
+  author?: string;
+  // BCP-47 code for the document language, e.g. `es`.
+  language?: string;
+  pages: PdfPage[];
+  // Bookmarks shown in the reader's sidebar, by page index.
+  outline?: { title: string; page: number }[];
+}
+
+// Pages are sized as if printed at this resolution.
+const DPI = 150;
+const toPoints = (px: number) => Number(((px * 72) / DPI).toFixed(2));
+
+// A PDF text string: plain ASCII as a literal, anything else as UTF-16BE hex.
+function pdfString(value: string) {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `(${value.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+  }
+  const utf16 = Buffer.from(`\ufeff${value}`, 'utf16le').swap16();
+  return `<${utf16.toString('hex').toUpperCase()}>`;
+}
+
+/**
+ * Writes a PDF whose pages are full-bleed JPEG images (embedded as-is with
+ * DCTDecode), with document info, an outline and link annotations.
+ */
+export function imagePdf(doc: PdfDocument): Buffer {
+  if (doc.pages.length === 0) throw new Error('A PDF needs at least one page');
+
+  const chunks: Buffer[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Buffer) => {
+    const chunk = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+  // Object numbers are fixed up front so objects can refer to later ones.
+  let next = 1;
+  const reserve = () => next++;
+  const object = (id: number, body: string | Buffer[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === 'string') write(body);
+    else body.forEach(write);
+    write('\nendobj\n');
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const infoId = reserve();
+  const pageIds = doc.pages.map(() => ({
+    page: reserve(),
+    image: reserve(),
+    content: reserve(),
+  }));
+  const outline = doc.outline ?? [];
+  const outlineId = outline.length > 0 ? reserve() : undefined;
+  const itemIds = outline.map(() => reserve());
+  const dest = (page: number) => `[${pageIds[page].page} 0 R /Fit]`;
+
+  // Binary comment marks the file as binary for transfer tools.
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  object(
+    catalogId,
+    `<< /Type /Catalog /Pages ${pagesId} 0 R` +
+      (outlineId ? ` /Outlines ${outlineId} 0 R /PageMode /UseOutlines` : '') +
+      (doc.language ? ` /Lang ${pdfString(doc.language)}` : '') +
+      ' >>',
+  );
+  object(
+    pagesId,
+    `<< /Type /Pages /Kids [${pageIds.map((p) => `${p.page} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+  );
+  object(
+    infoId,
+    `<< /Title ${pdfString(doc.title)}` +
+      (doc.author ? ` /Author ${pdfString(doc.author)}` : '') +
+      ' /Producer (Seeker) >>',
+  );
+
+  doc.pages.forEach((page, i) => {
+    const ids = pageIds[i];
+    const w = toPoints(page.width);
+    const h = toPoints(page.height);
+    const annots = (page.links ?? [])
+      .filter((link) => pageIds[link.page])
+      .map(({ area, page: target }) => {
+        const x1 = toPoints(area.x);
+        const y1 = toPoints(page.height - area.y - area.height);
+        const x2 = toPoints(area.x + area.width);
+        const y2 = toPoints(page.height - area.y);
+        return `<< /Type /Annot /Subtype /Link /Rect [${x1} ${y1} ${x2} ${y2}] /Border [0 0 0] /Dest ${dest(target)} >>`;
+      });
+    object(
+      ids.page,
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${w} ${h}]` +
+        ` /Resources << /XObject << /Im0 ${ids.image} 0 R >> >>` +
+        ` /Contents ${ids.content} 0 R` +
+        (annots.length ? ` /Annots [${annots.join(' ')}]` : '') +
+        ' >>',
+    );
+    object(ids.image, [
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height}` +
+          ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+        'latin1',
+      ),
+      page.jpeg,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+    const draw = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    object(
+      ids.content,
+      `<< /Length ${draw.length} >>\nstream\n${draw}\nendstream`,
+    );
+  });
+
+  if (outlineId) {
+    object(
+      outlineId,
+      `<< /Type /Outlines /First ${itemIds[0]} 0 R /Last ${itemIds[itemIds.length - 1]} 0 R /Count ${itemIds.length} >>`,
+    );
+    outline.forEach((item, i) => {
+      object(
+        itemIds[i],
+        `<< /Title ${pdfString(item.title)} /Parent ${outlineId} 0 R` +
+          (i > 0 ? ` /Prev ${itemIds[i - 1]} 0 R` : '') +
+          (i < itemIds.length - 1 ? ` /Next ${itemIds[i + 1]} 0 R` : '') +
+          ` /Dest ${dest(Math.min(item.page, pageIds.length - 1))} >>`,
+      );
+    });
+  }
+
+  const xref = length;
+  write(`xref\n0 ${next}\n0000000000 65535 f \n`);
+  for (let id = 1; id < next; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${next} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`,
+  );
+  return Buffer.concat(chunks);
+}
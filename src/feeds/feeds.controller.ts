@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Header,
+  Param,
+  ParseUUIDPipe,
+  Query,
+} from '@nestjs/common';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal, Public } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { FeedsService } from './feeds.service';
+
+const RSS = 'application/rss+xml; charset=utf-8';
+
+@Controller('feeds')
+export class FeedsController {
+  constructor(
+    private readonly feeds: FeedsService,
+    private readonly access: AccessService,
+  ) {}
+
+  // For the course's teachers and students; podcast apps, which can't send credentials, take the private feed
+  @Get('courses/:courseId/podcast.xml')
+  @Header('Content-Type', RSS)
+  async courseFeed(
+    @CurrentPrincipal() principal: Principal,
+    @Param('courseId', ParseUUIDPipe) courseId: string,
+  ) {
+    await this.access.checkCourseReader(principal, courseId);
+    return this.feeds.courseFeed(courseId);
+  }
+
+  // The private feed URL to hand to a student's podcast app; for the student or their teachers
+  @Get('courses/:courseId/students/:studentId')
+  async studentFeedUrl(
+    @CurrentPrincipal() principal: Principal,
+    @Param('courseId', ParseUUIDPipe) courseId: string,
+    @Param('studentId', ParseUUIDPipe) studentId: string,
+  ) {
+    await this.access.checkStudent(principal, courseId, studentId);
+    return { url: this.feeds.studentFeedUrl(courseId, studentId) };
+  }
+
+  // Authorized by the HMAC token in the URL instead
+  @Public()
+  @Get('courses/:courseId/students/:studentId/podcast.xml')
+  @Header('Content-Type', RSS)
+  studentFeed(
+    @Param('courseId', ParseUUIDPipe) courseId: string,
+    @Param('studentId', ParseUUIDPipe) studentId: string,
+    @Query('token') token = '',
+  ) {
+    return this.feeds.studentFeed(courseId, studentId, token);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { FeedsController } from './feeds.controller';
+import { FeedsService } from './feeds.service';
+
+@Module({
+  imports: [AuthModule, RepositoriesModule],
+  controllers: [FeedsController],
+  providers: [FeedsService],
+})
+export class FeedsModule {}
@@ -0,0 +1,109 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  emptyLesson,
+  InMemoryCourseRepository,
+  InMemoryLessonRepository,
+} from '../repositories/in-memory-repositories';
+import { FeedsService } from './feeds.service';
+
+describe('FeedsService', () => {
+  let courses: InMemoryCourseRepository;
+  let feeds: FeedsService;
+
+  beforeEach(() => {
+    courses = new InMemoryCourseRepository();
+    courses.courses.set('course-1', {
+      id: 'course-1',
+      title: 'Cells & Life',
+      slideTheme: null,
+      ownerId: null,
+      teacherIds: [],
+      modules: [
+        {
+          id: 'm1',
+          title: 'Basics',
+          orderIndex: 0,
+          lessonPlans: [
+            { id: 'l1', title: 'What is a cell?', orderIndex: 0, status: null },
+            { id: 'l2', title: 'Membranes', orderIndex: 1, status: null },
+          ],
+        },
+      ],
+    });
+
+    const lessons = new InMemoryLessonRepository();
+    lessons.lessons.set('l1', {
+      ...emptyLesson('l1'),
+      podcastStatus: 'ready',
+      podcastUrl: 'https://cdn.test/l1.mp3',
+      podcastDuration: 605,
+      podcastSize: 9680000,
+      podcastPublishedAt: '2026-03-01T10:00:00.000Z',
+      podcastChapters: [{ title: 'Intro', start: 0, end: 60 }],
+    });
+    lessons.lessons.set('l2', {
+      ...emptyLesson('l2'),
+      podcastStatus: 'processing',
+    });
+
+    courses.enrollments.set('course-1', ['s1']);
+
+    feeds = new FeedsService(
+      courses,
+      lessons,
+      new ConfigService({
+        PUBLIC_BASE_URL: 'https://api.test/',
+        FEED_TOKEN_SECRET: 'secret',
+      }),
+    );
+  });
+
+  it('lists ready episodes with enclosure, duration and publish date', async () => {
+    const xml = await feeds.courseFeed('course-1');
+
+    expect(xml).toContain('<title>Cells &amp; Life</title>');
+    expect(xml).toContain(
+      '<atom:link href="https://api.test/feeds/courses/course-1/podcast.xml"',
+    );
+    expect(xml).toContain(
+      '<enclosure url="https://cdn.test/l1.mp3" length="9680000" type="audio/mpeg"/>',
+    );
+    expect(xml).toContain('<itunes:duration>00:10:05</itunes:duration>');
+    expect(xml).toContain('<pubDate>Sun, 01 Mar 2026 10:00:00 GMT</pubDate>');
+    expect(xml).toContain('00:00:00 Intro');
+    expect(xml).not.toContain('Membranes');
+    expect(xml).not.toContain('itunes:block');
+  });
+
+  it('serves private student feeds only with a valid token', async () => {
+    const url = new URL(feeds.studentFeedUrl('course-1', 's1'));
+    const token = url.searchParams.get('token')!;
+
+    const xml = await feeds.studentFeed('course-1', 's1', token);
+    expect(xml).toContain('<itunes:block>Yes</itunes:block>');
+
+    await expect(
+      feeds.studentFeed('course-1', 's2', token),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    await expect(
+      feeds.studentFeed('course-1', 's1', 'forged'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('stops a private feed once its student is unenrolled', async () => {
+    const url = new URL(feeds.studentFeedUrl('course-1', 's1'));
+    const token = url.searchParams.get('token')!;
+    courses.enrollments.set('course-1', []);
+
+    await expect(
+      feeds.studentFeed('course-1', 's1', token),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('rejects unknown courses', async () => {
+    await expect(feeds.courseFeed('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PodcastChapter } from '../repositories/entities';
+import {
+  CourseRepository,
+  LessonRepository,
+} from '../repositories/repositories';
+import { FeedEpisode, formatDuration, podcastRss } from './podcast-feed';
+
+function showNotes(summary: string, chapters: PodcastChapter[] | null) {
+  if (!chapters?.length) return summary;
+  const marks = chapters.map((c) => `${formatDuration(c.start)} ${c.title}`);
+  return `${summary}\n\nChapters:\n${marks.join('\n')}`;
+}
+
+/**
+ * Builds podcast RSS feeds from a course's ready episodes. Each enrolled
+ * student can also get a private copy of a course feed, addressed by an HMAC
+ * token so it works in podcast apps that cannot send credentials.
+ */
+@Injectable()
+export class FeedsService {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly courses: CourseRepository,
+    private readonly lessons: LessonRepository,
+    private readonly config: ConfigService,
+  ) {
+    this.baseUrl = (
+      config.get<string>('PUBLIC_BASE_URL') ?? 'http://localhost:3001'
+    ).replace(/\/+$/, '');
+  }
+
+  courseFeedUrl(courseId: string) {
+    return `${this.baseUrl}/feeds/courses/${encodeURIComponent(courseId)}/podcast.xml`;
+  }
+
+  studentFeedUrl(courseId: string, studentId: string) {
+    const token = this.token(courseId, studentId);
+    return `${this.baseUrl}/feeds/courses/${encodeURIComponent(courseId)}/students/${encodeURIComponent(studentId)}/podcast.xml?token=${token}`;
+  }
+
+  courseFeed(courseId: string) {
+    return this.render(courseId, this.courseFeedUrl(courseId), false);
+  }
+
+  async studentFeed(courseId: string, studentId: string, token: string) {
+    if (!this.verify(courseId, studentId, token)) {
+      throw new NotFoundException('Unknown feed');
+    }
+    // Checked on every fetch, so unenrolling a student stops their feed
+    if (!(await this.courses.hasStudent(courseId, studentId))) {
+      throw new NotFoundException('Unknown feed');
+    }
+    return this.render(
+      courseId,
+      this.studentFeedUrl(courseId, studentId),
+      true,
+    );
+  }
+
+  private async render(courseId: string, feedUrl: string, isPrivate: boolean) {
+    const course = await this.courses.findById(courseId);
+    if (!course) throw new NotFoundException(`Course ${courseId} not found`);
+
+    // Lesson plans and lessons share ids; modules become seasons
+    const plans = course.modules.flatMap((module, m) =>
+      module.lessonPlans.map((plan) => ({ plan, module, season: m + 1 })),
+    );
+    const lessons = new Map(
+      (await this.lessons.findByIds(plans.map(({ plan }) => plan.id))).map(
+        (lesson) => [lesson.id, lesson],
+      ),
+    );
+
+    const episodes: FeedEpisode[] = [];
+    plans.forEach(({ plan, module, season }, index) => {
+      const lesson = lessons.get(plan.id);
+      if (lesson?.podcastStatus !== 'ready' || !lesson.podcastUrl) return;
+      // Episodes produced before publish dates were recorded sort as the oldest
+      const publishedAt = new Date(lesson.podcastPublishedAt ?? 0);
+      episodes.push({
+        // A regenerated episode gets a new guid so apps download it again
+        guid: `${lesson.id}:${publishedAt.getTime()}`,
+        title: plan.title,
+        description: showNotes(
+          lesson.podcastShowNotes?.summary ?? `${module.title}: ${plan.title}`,
+          lesson.podcastChapters,
+        ),
+        url: lesson.podcastUrl,
+        size: lesson.podcastSize ?? 0,
+        duration: lesson.podcastDuration,
+        publishedAt,
+        season,
+        episode: index + 1,
+      });
+    });
+
+    const author = this.config.get<string>('PODCAST_SHOW_NAME') ?? 'Seeker';
+    return podcastRss(
+      {
+        title: course.title,
+        description: `Audio lessons from ${course.title}.`,
+        link: this.config.get<string>('FEED_SITE_URL') ?? this.baseUrl,
+        feedUrl,
+        language: this.config.get<string>('FEED_LANGUAGE') ?? 'en',
+        author,
+        imageUrl: this.config.get<string>('PODCAST_COVER_URL'),
+        private: isPrivate,
+      },
+      episodes,
+    );
+  }
+
+  private secret() {
+    const secret = this.config.get<string>('FEED_TOKEN_SECRET');
+    if (!secret) {
+      throw new NotFoundException('Private podcast feeds are not enabled');
+    }
+    return secret;
+  }
+
+  private token(courseId: string, studentId: string) {
+    return createHmac('sha256', this.secret())
+      .update(`${courseId}:${studentId}`)
+      .digest('base64url');
+  }
+
+  private verify(courseId: string, studentId: string, token: string) {
+    const expected = Buffer.from(this.token(courseId, studentId));
+    const actual = Buffer.from(token);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+}
@@ -0,0 +1,115 @@
+export interface FeedChannel {
+  title: string;
+  description: string;
+  // Site the feed belongs to, and the feed's own URL (atom:link rel="self").
+  link: string;
+  feedUrl: string;
+  language: string;
+  author: string;
+  imageUrl?: string;
+  // Private feeds ask directories not to list them.
+  private?: boolean;
+}
+
+export interface FeedEpisode {
+  guid: string;
+  title: string;
+  description: string;
+  url: string;
+  // Enclosure length in bytes; 0 when unknown, as RSS allows.
+  size: number;
+  duration: number | null; // seconds
+  publishedAt: Date;
+  episode?: number;
+  season?: number;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(
+    /[<>&'"]/g,
+    (c) =>
+      ({
+        '<': '&lt;',
+        '>': '&gt;',
+        '&': '&amp;',
+        "'": '&apos;',
+        '"': '&quot;',
+      })[c]!,
+  );
+
+// Strips characters XML 1.0 cannot carry at all, then escapes markup.
+const text = (value: string) =>
+  // eslint-disable-next-line no-control-regex
+  escapeXml(value.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, ''));
+
+// itunes:duration as HH:MM:SS.
+export function formatDuration(seconds: number) {
+  const total = Math.max(0, Math.round(seconds));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+function item(episode: FeedEpisode) {
+  const lines = [
+    `<title>${text(episode.title)}</title>`,
+    `<description>${text(episode.description)}</description>`,
+    `<enclosure url="${text(episode.url)}" length="${episode.size}" type="audio/mpeg"/>`,
+    `<guid isPermaLink="false">${text(episode.guid)}</guid>`,
+    `<pubDate>${episode.publishedAt.toUTCString()}</pubDate>`,
+    `<itunes:title>${text(episode.title)}</itunes:title>`,
+    `<itunes:summary>${text(episode.description)}</itunes:summary>`,
+    `<itunes:explicit>false</itunes:explicit>`,
+    `<itunes:episodeType>full</itunes:episodeType>`,
+  ];
+  if (episode.duration !== null) {
+    lines.push(
+      `<itunes:duration>${formatDuration(episode.duration)}</itunes:duration>`,
+    );
+  }
+  if (episode.season !== undefined) {
+    lines.push(`<itunes:season>${episode.season}</itunes:season>`);
+  }
+  if (episode.episode !== undefined) {
+    lines.push(`<itunes:episode>${episode.episode}</itunes:episode>`);
+  }
+  return `    <item>\n${lines.map((l) => `      ${l}`).join('\n')}\n    </item>`;
+}
+
+/** An RSS 2.0 document with the iTunes podcast namespace, newest episode first. */
+export function podcastRss(channel: FeedChannel, episodes: FeedEpisode[]) {
+  const newest = [...episodes].sort(
+    (a, b) => b.publishedAt.getTime() - a.publishedAt.getTime(),
+  );
+  const head = [
+    `<title>${text(channel.title)}</title>`,
+    `<link>${text(channel.link)}</link>`,
+    `<description>${text(channel.description)}</description>`,
+    `<language>${text(channel.language)}</language>`,
+    `<atom:link href="${text(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<itunes:author>${text(channel.author)}</itunes:author>`,
+    `<itunes:summary>${text(channel.description)}</itunes:summary>`,
+    `<itunes:type>episodic</itunes:type>`,
+    `<itunes:explicit>false</itunes:explicit>`,
+    `<itunes:category text="Education"/>`,
+  ];
+  if (channel.imageUrl) {
+    head.push(`<itunes:image href="${text(channel.imageUrl)}"/>`);
+  }
+  if (channel.private) head.push(`<itunes:block>Yes</itunes:block>`);
+  if (newest.length > 0) {
+    head.push(
+      `<lastBuildDate>${newest[0].publishedAt.toUTCString()}</lastBuildDate>`,
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    ...head.map((l) => `    ${l}`),
+    ...newest.map(item),
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
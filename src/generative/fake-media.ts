@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { PCM_SAMPLE_RATE } from './generative-provider';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** Stable bytes derived from a seed string, for picking colors and tones. */
+export function seedBytes(seed: string) {
+  return createHash('sha256').update(seed).digest();
+}
+
+/** A valid RGB PNG: a vertical gradient between two seed-derived colors. */
+export function placeholderPng(seed: string, width = 512, height = 512) {
+  const bytes = seedBytes(seed);
+  const from = [bytes[0], bytes[1], bytes[2]];
+  const to = [bytes[3], bytes[4], bytes[5]];
+
+  const rows: Buffer[] = [];
+  for (let y = 0; y < height; y++) {
+    const t = height > 1 ? y / (height - 1) : 0;
+    const pixel = from.map((c, i) => Math.round(c + (to[i] - c) * t));
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x++) row.set(pixel, 1 + x * 3);
+    rows.push(row);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/** Mono s16le PCM sine tone at PCM_SAMPLE_RATE. */
+export function sinePcm(seconds: number, frequency: number) {
+  const samples = Math.max(1, Math.round(seconds * PCM_SAMPLE_RATE));
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / PCM_SAMPLE_RATE);
+    pcm.writeInt16LE(Math.round(value * 0.3 * 32767), i * 2);
+  }
+  return pcm;
+}
@@ -0,0 +1,47 @@
+import { FakeGenerativeProvider } from './fake.provider';
+import { PCM_SAMPLE_RATE } from './generative-provider';
+import {
+  skillTreeLayoutSchema,
+  slideManifestSchema,
+} from '../slides/slides.schemas';
+
+describe('FakeGenerativeProvider', () => {
+  const provider = new FakeGenerativeProvider();
+
+  it('returns fixture JSON for known pipeline tasks', async () => {
+    const manifest = await provider.generateStructured(
+      'anything',
+      slideManifestSchema,
+      { task: 'slides.manifest' },
+    );
+    expect(manifest[0].title).toBe('Slide 1');
+  });
+
+  it('lays out the lesson IDs it finds in a skill-tree prompt', async () => {
+    const a = '11111111-1111-4111-8111-111111111111';
+    const b = '22222222-2222-4222-8222-222222222222';
+    const layout = await provider.generateStructured(
+      `List: ${JSON.stringify([{ id: a }, { id: b }])}`,
+      skillTreeLayoutSchema,
+      { task: 'skillTree.layout' },
+    );
+    expect(layout).toEqual([
+      { lesson_id: a, x: 50, y: 0, dependencies: [] },
+      { lesson_id: b, x: 50, y: 100, dependencies: [a] },
+    ]);
+  });
+
+  it('produces deterministic PNG images', async () => {
+    const first = await provider.generateImage('a cat');
+    const second = await provider.generateImage('a cat');
+    expect(first.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(first.equals(second)).toBe(true);
+    expect(first.equals(await provider.generateImage('a dog'))).toBe(false);
+  });
+
+  it('sizes speech PCM to the narration length', async () => {
+    const pcm = await provider.synthesizeSpeech('x'.repeat(30), 'Kore');
+    // 30 chars at 15 chars/s = 2 seconds of 16-bit mono samples
+    expect(pcm.length).toBe(2 * PCM_SAMPLE_RATE * 2);
+  });
+});
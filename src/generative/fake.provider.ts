@@ -0,0 +1,137 @@
+import ffmpeg from 'fluent-ffmpeg';
+import {
+  GenerativeProvider,
+  ImageOptions,
+  SpeakerVoice,
+  TextOptions,
+  VideoRequest,
+} from './generative-provider';
+import { placeholderPng, seedBytes, sinePcm } from './fake-media';
+
+// Roughly how fast the fake "narrator" speaks, to size the generated audio.
+const CHARS_PER_SECOND = 15;
+const UUID_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+type Fixture = (prompt: string) => unknown;
+
+// Canned responses shaped like what each pipeline asks the model for.
+const FIXTURES: Record<string, Fixture> = {
+  'slides.manifest': () =>
+    [1, 2, 3].map((n) => ({
+      title: `Slide ${n}`,
+      bullets: [`Key point ${n}.1`, `Key point ${n}.2`],
+      image_prompt: `Placeholder illustration ${n}`,
+      narration: `This is the narration for slide ${n}.`,
+    })),
+  'podcast.script': () =>
+    [
+      'Alex: Welcome back! What are we learning today?',
+      'Sam: Today we walk through the key ideas of this lesson.',
+      'Alex: Great, let us get started.',
+    ].join('\n'),
+  'comic.storyboard': () => ({
+    thematic_era: 'Placeholder era',
+    style_guide: 'Flat placeholder colors',
+    visual_anchors: 'A single recurring guide character',
+    pages: [1, 2, 3, 4, 5].map((page) => ({
+      page,
+      title: `Page ${page}`,
+      panel_desc: `Panel description for page ${page}`,
+      caption: `Caption for page ${page}`,
+      dialogue: [{ speaker: 'Guide', text: `Line for page ${page}` }],
+      caption_position: page % 2 ? 'top' : 'bottom',
+    })),
+  }),
+  'cinematic.identity': () => ({
+    protagonist_description: 'A placeholder protagonist',
+    location_description: 'A placeholder location',
+    art_style: 'Flat placeholder colors',
+  }),
+  'cinematic.script': () =>
+    [1, 2, 3, 4].map((scene) => ({
+      scene,
+      action_prompt: `Action for scene ${scene}`,
+      dialogue_sfx: `Dialogue for scene ${scene}`,
+    })),
+  // Chain the lesson IDs found in the prompt top to bottom.
+  'skillTree.layout': (prompt) => {
+    const ids = [...new Set(prompt.match(UUID_PATTERN) ?? [])];
+    return ids.map((id, i) => ({
+      lesson_id: id,
+      x: 50,
+      y: ids.length > 1 ? Math.round((i * 100) / (ids.length - 1)) : 0,
+      dependencies: i > 0 ? [ids[i - 1]] : [],
+    }));
+  },
+};
+
+/**
+ * Deterministic, offline stand-in for a real model: fixture JSON per task,
+ * gradient PNGs, sine-wave PCM sized to the text, and ffmpeg test-pattern clips.
+ */
+export class FakeGenerativeProvider extends GenerativeProvider {
+  generateText(prompt: string, options: TextOptions = {}) {
+    const fixture = options.task ? FIXTURES[options.task] : undefined;
+    if (!fixture) {
+      return Promise.resolve(
+        `Fake response for: ${prompt.trim().slice(0, 80)}`,
+      );
+    }
+    const value = fixture(prompt);
+    return Promise.resolve(
+      typeof value === 'string' ? value : JSON.stringify(value),
+    );
+  }
+
+  generateImage(prompt: string, options: ImageOptions = {}) {
+    const references = (options.referenceImages ?? []).length;
+    return Promise.resolve(placeholderPng(`${prompt}#${references}`));
+  }
+
+  synthesizeSpeech(text: string, voice: string) {
+    return Promise.resolve(
+      sinePcm(this.durationFor(text), this.toneFor(voice)),
+    );
+  }
+
+  synthesizeDialogue(text: string, speakers: SpeakerVoice[]) {
+    const voices = speakers.map((s) => s.voice).join('+');
+    return Promise.resolve(
+      sinePcm(this.durationFor(text), this.toneFor(voices)),
+    );
+  }
+
+  generateVideo(request: VideoRequest, outputPath: string) {
+    request.signal?.throwIfAborted();
+    const seconds = request.durationSeconds;
+    const tone = this.toneFor(request.prompt);
+
+    return new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(`testsrc=duration=${seconds}:size=1280x720:rate=24`)
+        .inputOptions(['-f lavfi'])
+        .input(`sine=frequency=${tone}:duration=${seconds}`)
+        .inputOptions(['-f lavfi'])
+        .outputOptions([
+          '-c:v libx264',
+          '-preset ultrafast',
+          '-pix_fmt yuv420p',
+          '-c:a aac',
+          '-shortest',
+        ])
+        .on('end', () => resolve())
+        .on('error', reject)
+        .save(outputPath);
+    });
+  }
+
+  private durationFor(text: string) {
+    return Math.min(30, Math.max(1, text.length / CHARS_PER_SECOND));
+  }
+
+  // 220-620 Hz so different voices are audibly distinct.
+  private toneFor(seed: string) {
+    return 220 + (seedBytes(seed).readUInt16BE(0) % 400);
+  }
+}
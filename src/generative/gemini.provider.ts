@@ -0,0 +1,180 @@
+import { ConfigService } from '@nestjs/config';
+import type { GoogleGenAI, VideoGenerationReferenceType } from '@google/genai';
+import {
+  GenerativeProvider,
+  ImageOptions,
+  SpeakerVoice,
+  SpeechOptions,
+  TextOptions,
+  VideoRequest,
+} from './generative-provider';
+
+const DEFAULT_MODELS = {
+  text: 'gemini-3-pro-preview',
+  fastText: 'gemini-2.0-flash',
+  image: 'gemini-3-pro-image-preview',
+  tts: 'gemini-2.5-flash-preview-tts',
+  video: 'veo-3.1-generate-preview',
+};
+
+const VIDEO_POLL_INTERVAL_MS = 10000;
+
+export class GeminiProvider extends GenerativeProvider {
+  private client?: Promise<GoogleGenAI>;
+  private videoClient?: Promise<GoogleGenAI>;
+  private readonly models: typeof DEFAULT_MODELS;
+
+  constructor(private readonly config: ConfigService) {
+    super();
+    this.models = {
+      text: config.get('GEMINI_TEXT_MODEL') ?? DEFAULT_MODELS.text,
+      fastText: config.get('GEMINI_FAST_TEXT_MODEL') ?? DEFAULT_MODELS.fastText,
+      image: config.get('GEMINI_IMAGE_MODEL') ?? DEFAULT_MODELS.image,
+      tts: config.get('GEMINI_TTS_MODEL') ?? DEFAULT_MODELS.tts,
+      video: config.get('GEMINI_VIDEO_MODEL') ?? DEFAULT_MODELS.video,
+    };
+  }
+
+  async generateText(prompt: string, options: TextOptions = {}) {
+    const ai = await this.getClient();
+    const res = await ai.models.generateContent({
+      model: options.tier === 'fast' ? this.models.fastText : this.models.text,
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    });
+    const text = res.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (text === undefined) {
+      throw new Error(`Model returned no text${this.describe(options.task)}`);
+    }
+    return text;
+  }
+
+  async generateImage(prompt: string, options: ImageOptions = {}) {
+    const ai = await this.getClient();
+    const references = (options.referenceImages ?? []).map((image) => ({
+      inlineData: { mimeType: 'image/png', data: image.toString('base64') },
+    }));
+    const res = await ai.models.generateContent({
+      model: this.models.image,
+      contents: [{ role: 'user', parts: [...references, { text: prompt }] }],
+      config: { responseModalities: ['IMAGE'] },
+    });
+    const data = res.candidates?.[0]?.content?.parts?.find((p) => p.inlineData)
+      ?.inlineData?.data;
+    if (!data) {
+      throw new Error(`Model returned no image${this.describe(options.task)}`);
+    }
+    return Buffer.from(data, 'base64');
+  }
+
+  async synthesizeSpeech(
+    text: string,
+    voice: string,
+    options: SpeechOptions = {},
+  ) {
+    const ai = await this.getClient();
+    const res = await ai.models.generateContent({
+      model: this.models.tts,
+      contents: [{ role: 'user', parts: [{ text }] }],
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          languageCode: options.languageCode,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+      },
+    });
+    return this.audioFrom(res);
+  }
+
+  async synthesizeDialogue(
+    text: string,
+    speakers: SpeakerVoice[],
+    options: SpeechOptions = {},
+  ) {
+    const ai = await this.getClient();
+    const res = await ai.models.generateContent({
+      model: this.models.tts,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          languageCode: options.languageCode,
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(({ speaker, voice }) => ({
+              speaker,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+            })),
+          },
+        },
+      },
+    });
+    return this.audioFrom(res);
+  }
+
+  async generateVideo(request: VideoRequest, outputPath: string) {
+    const ai = await this.getVideoClient();
+    let operation = await ai.models.generateVideos({
+      model: this.models.video,
+      prompt: request.prompt,
+      config: {
+        resolution: '720p',
+        aspectRatio: '16:9',
+        durationSeconds: request.durationSeconds,
+        personGeneration: 'allow_adult',
+        referenceImages: (request.referenceImages ?? []).map((image) => ({
+          image: {
+            imageBytes: image.toString('base64'),
+            mimeType: 'image/png',
+          },
+          // Sent lowercase, as Veo 3.1 preview has always received it
+          referenceType: 'asset' as VideoGenerationReferenceType,
+        })),
+      },
+    });
+
+    while (!operation.done) {
+      request.signal?.throwIfAborted();
+      process.stdout.write('.');
+      await new Promise((r) => setTimeout(r, VIDEO_POLL_INTERVAL_MS));
+      operation = await ai.operations.getVideosOperation({ operation });
+    }
+
+    const video = operation.response?.generatedVideos?.[0]?.video;
+    if (!video) throw new Error('No video generated');
+    await ai.files.download({ file: video, downloadPath: outputPath });
+  }
+
+  private audioFrom(res: {
+    candidates?: {
+      content?: { parts?: { inlineData?: { data?: string } }[] };
+    }[];
+  }) {
+    const data = res.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!data) throw new Error('Model returned no audio');
+    return Buffer.from(data, 'base64');
+  }
+
+  private describe(task?: string) {
+    return task ? ` for ${task}` : '';
+  }
+
+  private getClient() {
+    this.client ??= import('@google/genai').then(
+      ({ GoogleGenAI }) =>
+        new GoogleGenAI({ apiKey: this.config.getOrThrow('GEMINI_API_KEY') }),
+    );
+    return this.client;
+  }
+
+  // Veo is only exposed on v1alpha.
+  private getVideoClient() {
+    this.videoClient ??= import('@google/genai').then(
+      ({ GoogleGenAI }) =>
+        new GoogleGenAI({
+          apiKey: this.config.getOrThrow('GEMINI_API_KEY'),
+          apiVersion: 'v1alpha',
+        }),
+    );
+    return this.videoClient;
+  }
+}
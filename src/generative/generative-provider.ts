@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import {
+  parseStructured,
+  repairPrompt,
+  StructuredOutputError,
+} from './structured-output';
+
+const DEFAULT_STRUCTURED_ATTEMPTS = 3;
+
+// Gemini TTS (and the fake provider) return raw signed 16-bit little-endian PCM in this format.
+export const PCM_SAMPLE_RATE = 24000;
+export const PCM_CHANNELS = 1;
+
+// `pro` is for structured/creative work, `fast` for cheap drafting.
+export type TextTier = 'pro' | 'fast';
+
+export interface TextOptions {
+  tier?: TextTier;
+  // Names the call site (e.g. `slides.manifest`); used for logging and by the fake provider.
+  task?: string;
+}
+
+export interface StructuredOptions extends TextOptions {
+  // Total model calls, including repair re-prompts, before giving up.
+  maxAttempts?: number;
+}
+
+export interface ImageOptions {
+  task?: string;
+  // PNG images the model should treat as visual references (e.g. a character sheet).
+  referenceImages?: Buffer[];
+}
+
+export interface SpeechOptions {
+  // BCP-47 locale of the text (e.g. `es-US`); the backend's default when omitted.
+  languageCode?: string;
+}
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+}
+
+export interface VideoRequest {
+  prompt: string;
+  durationSeconds: number;
+  referenceImages?: Buffer[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything the pipelines need from a generative backend. Inject this
+ * instead of talking to a vendor SDK so pipelines can run against the
+ * offline fake in tests and local development.
+ */
+export abstract class GenerativeProvider {
+  abstract generateText(prompt: string, options?: TextOptions): Promise<string>;
+
+  abstract generateImage(
+    prompt: string,
+    options?: ImageOptions,
+  ): Promise<Buffer>;
+
+  // Single-voice narration as raw PCM (see PCM_SAMPLE_RATE).
+  abstract synthesizeSpeech(
+    text: string,
+    voice: string,
+    options?: SpeechOptions,
+  ): Promise<Buffer>;
+
+  // Multi-speaker dialogue as raw PCM; `text` uses `Speaker: line` turns.
+  abstract synthesizeDialogue(
+    text: string,
+    speakers: SpeakerVoice[],
+    options?: SpeechOptions,
+  ): Promise<Buffer>;
+
+  // Renders an MP4 clip to `outputPath`.
+  abstract generateVideo(
+    request: VideoRequest,
+    outputPath: string,
+  ): Promise<void>;
+
+  /**
+   * Text generation for prompts that ask for JSON. The response is validated
+   * against `schema`; on failure the model is re-prompted with its previous
+   * answer and the field-level errors, up to `maxAttempts` calls in total.
+   */
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: StructuredOptions = {},
+  ): Promise<T> {
+    const task = options.task ?? 'structured';
+    const maxAttempts = options.maxAttempts ?? DEFAULT_STRUCTURED_ATTEMPTS;
+    let request = prompt;
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const text = await this.generateText(request, options);
+      const result = parseStructured(text, schema);
+      if (result.success) return result.data;
+
+      issues = result.issues;
+      console.warn(
+        `⚠️  Invalid ${task} output (attempt ${attempt}/${maxAttempts}): ${issues.join('; ')}`,
+      );
+      request = repairPrompt(prompt, text, issues);
+    }
+
+    throw new StructuredOutputError(task, issues);
+  }
+}
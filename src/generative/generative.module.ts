@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FakeGenerativeProvider } from './fake.provider';
+import { GeminiProvider } from './gemini.provider';
+import { GenerativeProvider } from './generative-provider';
+
+@Module({
+  providers: [
+    {
+      // GENERATIVE_PROVIDER=fake runs every pipeline offline with placeholder media.
+      provide: GenerativeProvider,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get('GENERATIVE_PROVIDER') === 'fake'
+          ? new FakeGenerativeProvider()
+          : new GeminiProvider(config),
+    },
+  ],
+  exports: [GenerativeProvider],
+})
+export class GenerativeModule {}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { FakeGenerativeProvider } from './fake.provider';
+import { StructuredOutputError } from './structured-output';
+
+const schema = z.array(z.object({ title: z.string(), count: z.number() }));
+
+// Replays canned responses and records the prompts it was sent.
+class ScriptedProvider extends FakeGenerativeProvider {
+  readonly prompts: string[] = [];
+
+  constructor(private readonly responses: string[]) {
+    super();
+  }
+
+  generateText(prompt: string) {
+    this.prompts.push(prompt);
+    return Promise.resolve(this.responses.shift() ?? '');
+  }
+}
+
+describe('GenerativeProvider.generateStructured', () => {
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accepts fenced JSON that matches the schema', async () => {
+    const provider = new ScriptedProvider([
+      '```json\n[{"title": "A", "count": 1}]\n```',
+    ]);
+    await expect(provider.generateStructured('p', schema)).resolves.toEqual([
+      { title: 'A', count: 1 },
+    ]);
+    expect(provider.prompts).toHaveLength(1);
+  });
+
+  it('re-prompts with the validation errors and uses the repaired answer', async () => {
+    const provider = new ScriptedProvider([
+      '[{"title": "A", "count": "one"}]',
+      '[{"title": "A", "count": 1}]',
+    ]);
+    await expect(provider.generateStructured('p', schema)).resolves.toEqual([
+      { title: 'A', count: 1 },
+    ]);
+    expect(provider.prompts[1]).toContain('[0].count');
+    expect(provider.prompts[1]).toContain('"count": "one"');
+  });
+
+  it('gives up after maxAttempts with a StructuredOutputError', async () => {
+    const provider = new ScriptedProvider(['not json', '{}']);
+    const result = provider.generateStructured('p', schema, {
+      task: 'demo',
+      maxAttempts: 2,
+    });
+    await expect(result).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(provider.prompts).toHaveLength(2);
+  });
+});
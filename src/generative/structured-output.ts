@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/** Thrown when the model still returns invalid output after every repair attempt. */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly task: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid ${task} output from model: ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type StructuredResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+function formatPath(path: PropertyKey[]) {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((key, i) =>
+      typeof key === 'number'
+        ? `[${key}]`
+        : `${i > 0 ? '.' : ''}${String(key)}`,
+    )
+    .join('');
+}
+
+/** Strips markdown fences, parses JSON and validates it, reporting field-level issues. */
+export function parseStructured<T>(
+  text: string,
+  schema: z.ZodType<T>,
+): StructuredResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.replace(/```json|```/g, '').trim());
+  } catch (e) {
+    return {
+      success: false,
+      issues: [`response is not valid JSON (${(e as Error).message})`],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map(
+      (issue) => `${formatPath(issue.path)}: ${issue.message}`,
+    ),
+  };
+}
+
+/** The follow-up prompt that shows the model its last answer and what was wrong with it. */
+export function repairPrompt(
+  originalPrompt: string,
+  previousOutput: string,
+  issues: string[],
+) {
+  return `${originalPrompt}
+
+Your previous response was rejected because it did not match the required JSON structure.
+
+PREVIOUS RESPONSE:
+${previousOutput.slice(0, 4000)}
+
+VALIDATION ERRORS:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return the corrected JSON ONLY, with no markdown and no explanation.`;
+}
@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JobType } from './job.types';
+
+/**
+ * Generated assets for one lesson + pipeline, stored as `<step>/<name>` files
+ * so a re-run of the same job can skip every step that already finished.
+ */
+export class Checkpoint {
+  constructor(readonly dir: string) {}
+
+  has(step: string, name: string) {
+    return fs.existsSync(this.path(step, name));
+  }
+
+  path(step: string, name: string) {
+    return path.join(this.dir, step, name);
+  }
+
+  readFile(step: string, name: string): Buffer | undefined {
+    const file = this.path(step, name);
+    return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+  }
+
+  writeFile(step: string, name: string, data: Buffer | string) {
+    const file = this.path(step, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated asset behind.
+    fs.writeFileSync(`${file}.tmp`, data);
+    fs.renameSync(`${file}.tmp`, file);
+    return file;
+  }
+
+  readJson<T>(step: string): T | undefined {
+    const raw = this.readFile(step, 'data.json');
+    return raw ? (JSON.parse(raw.toString('utf8')) as T) : undefined;
+  }
+
+  writeJson(step: string, value: unknown) {
+    this.writeFile(step, 'data.json', JSON.stringify(value, null, 2));
+  }
+
+  clear() {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+}
+
+@Injectable()
+export class CheckpointService {
+  private readonly root: string;
+
+  constructor(config: ConfigService) {
+    this.root =
+      config.get('CHECKPOINT_DIR') ??
+      path.resolve(process.cwd(), 'data', 'checkpoints');
+  }
+
+  // `scope` separates runs of one pipeline that can coexist, e.g. one translation per language.
+  open(lessonId: string, pipeline: JobType, scope?: string) {
+    return new Checkpoint(
+      path.join(this.root, lessonId, pipeline, ...(scope ? [scope] : [])),
+    );
+  }
+
+  // Redraws of one part live outside the pipeline's own directory, so a full run and a redraw never clear each other's steps.
+  openRedraw(lessonId: string, pipeline: JobType, part: string) {
+    return new Checkpoint(
+      path.join(this.root, lessonId, 'regenerate', pipeline, part),
+    );
+  }
+}
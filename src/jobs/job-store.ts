@@ -0,0 +1,18 @@
+import { Job, JobFilter } from './job.types';
+
+/**
+ * Persistence for job records. Implementations must return jobs from `find`
+ * ordered by creation time (oldest first) so the queue stays FIFO.
+ */
+export abstract class JobStore {
+  abstract save(job: Job): Promise<void>;
+  abstract findById(id: string): Promise<Job | undefined>;
+  abstract find(filter: JobFilter): Promise<Job[]>;
+}
+
+export function matchesFilter(job: Job, filter: JobFilter) {
+  if (filter.type && job.type !== filter.type) return false;
+  if (filter.lessonId && job.lessonId !== filter.lessonId) return false;
+  if (filter.states && !filter.states.includes(job.state)) return false;
+  return true;
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+
+export type JobType =
+  | 'slides'
+  | 'podcast'
+  | 'comic'
+  | 'cinematic'
+  | 'translation';
+
+export type JobState =
+  | 'queued'
+  | 'running'
+  // Parked after scripting until someone approves the draft
+  | 'awaiting_review'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export const JOB_TYPES: JobType[] = [
+  'slides',
+  'podcast',
+  'comic',
+  'cinematic',
+  'translation',
+];
+
+// States a job can still move out of. Used for dedupe and restart recovery.
+export const ACTIVE_JOB_STATES: JobState[] = [
+  'queued',
+  'running',
+  'awaiting_review',
+];
+
+// A file or URL a pipeline step produced, surfaced so the UI can preview it.
+export interface JobAsset {
+  kind: 'image' | 'audio' | 'video' | 'document';
+  name: string;
+  url?: string;
+}
+
+export interface JobProgress {
+  stage: string;
+  step: number | null;
+  total: number | null;
+  percent: number;
+  message: string | null;
+  asset: JobAsset | null;
+  at: string;
+}
+
+export type JobProgressUpdate = Pick<JobProgress, 'stage' | 'percent'> &
+  Partial<Pick<JobProgress, 'step' | 'total' | 'message' | 'asset'>>;
+
+export interface EnqueueOptions {
+  // Payload fields that also have to match for a job to count as a duplicate (e.g. `language`).
+  dedupeOn?: string[];
+  // Refuse (409) rather than dedupe while any job of the type is active for the lesson.
+  exclusive?: boolean;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  lessonId: string;
+  state: JobState;
+  // Checked against the handler's payloadSchema before each run.
+  payload: Record<string, unknown>;
+  error: string | null;
+  progress: JobProgress | null;
+  // Incremented each time the job starts; anything above 1 is a resumed run.
+  attempts: number;
+  // The script a review-mode job stopped on, as edited so far.
+  draft: unknown;
+  approvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface JobFilter {
+  type?: JobType;
+  lessonId?: string;
+  states?: JobState[];
+}
+
+export type JobEvent =
+  | { kind: 'state'; jobId: string; job: Job }
+  | { kind: 'progress'; jobId: string; progress: JobProgress };
+
+// Handed to every pipeline run so it can report progress, reuse checkpoints and stop between expensive steps.
+export interface JobContext {
+  job: Job;
+  signal: AbortSignal;
+  // True when re-running a job, so checkpointed steps should be reused.
+  resume: boolean;
+  progress: (update: JobProgressUpdate) => void;
+  /**
+   * Hands a freshly written script over for review. Resolves to the script
+   * to render: `draft` itself unless the job asked for review, the approved
+   * (possibly edited) draft once approved, or undefined when the job has
+   * just been parked and the pipeline should stop.
+   */
+  review: <T>(draft: T) => Promise<T | undefined>;
+}
+
+export type JobHandler<P = Job['payload']> = (
+  job: Job & { payload: P },
+  ctx: JobContext,
+) => Promise<void>;
+
+export interface HandlerOptions<P = Job['payload']> {
+  // Validates the payload before the handler runs; a mismatch fails the job.
+  payloadSchema?: z.ZodType<P>;
+  // Validates drafts edited through the review endpoints.
+  draftSchema?: z.ZodType;
+}
+
+// The payload of a job that redraws one part (slide, page or scene) of a finished asset.
+export const redrawJobSchema = z.object({
+  regenerate: z.number().int().nonnegative(),
+  // Replaces that part's own prompt when given
+  prompt: z.string().optional(),
+});
+
+// Review mode stops a pipeline after scripting until the draft is approved at /jobs/:id/approve.
+export const reviewableJobSchema = z.object({
+  regenerate: z.undefined().optional(),
+  review: z.boolean().optional(),
+});
@@ -0,0 +1,63 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessService } from '../auth/access.service';
+import { Principal } from '../auth/principal';
+import {
+  InMemoryCourseRepository,
+  InMemorySkillTreeRepository,
+} from '../repositories/in-memory-repositories';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { LocalJobStore } from './local-job-store';
+
+const user = (id: string): Principal => ({ kind: 'user', id });
+
+describe('JobsController', () => {
+  let dir: string;
+  let jobs: JobsService;
+  let controller: JobsController;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-controller-'));
+    jobs = new JobsService(new LocalJobStore(dir), new ConfigService({}));
+    const courses = new InMemoryCourseRepository();
+    courses.courses.set('course-1', {
+      id: 'course-1',
+      title: 'Optics',
+      slideTheme: null,
+      ownerId: 'owner',
+      teacherIds: [],
+      modules: [
+        {
+          id: 'm1',
+          title: 'Light',
+          orderIndex: 0,
+          lessonPlans: [
+            { id: 'lesson-1', title: 'Lenses', orderIndex: 0, status: null },
+          ],
+        },
+      ],
+    });
+    controller = new JobsController(
+      jobs,
+      new AccessService(courses, new InMemorySkillTreeRepository()),
+    );
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("answers 404 for other courses' jobs, the same as for missing ones", async () => {
+    // Not bootstrapped, so the job stays queued
+    const job = await jobs.enqueue('slides', 'lesson-1', {});
+
+    await expect(controller.getJob(user('owner'), job.id)).resolves.toEqual(
+      job,
+    );
+    const hidden = controller.getJob(user('stranger'), job.id);
+    await expect(hidden).rejects.toBeInstanceOf(NotFoundException);
+    await expect(hidden).rejects.toThrow(`Job ${job.id} not found`);
+  });
+});
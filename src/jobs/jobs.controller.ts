@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  MessageEvent,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Sse,
+} from '@nestjs/common';
+import { map, Observable } from 'rxjs';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal, QueryToken } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { JobsService } from './jobs.service';
+
+// Every route needs access to the job's lesson, the same as starting it did.
+@Controller()
+export class JobsController {
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly access: AccessService,
+  ) {}
+
+  // Someone else's job looks missing, so job ids can't be probed for existence
+  private async authorize(principal: Principal, id: string) {
+    const job = await this.jobsService.get(id);
+    try {
+      await this.access.checkLesson(principal, job.lessonId);
+    } catch (e) {
+      if (e instanceof ForbiddenException) {
+        throw new NotFoundException(`Job ${id} not found`);
+      }
+      throw e;
+    }
+    return job;
+  }
+
+  @Get('jobs/:id')
+  getJob(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.authorize(principal, id);
+  }
+
+  // Server-Sent Events: `state` carries the job record, `progress` the latest stage update.
+  @QueryToken()
+  @Sse('jobs/:id/events')
+  async streamJobEvents(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<Observable<MessageEvent>> {
+    await this.authorize(principal, id);
+    return this.jobsService.watch(id).pipe(
+      map((event) => ({
+        type: event.kind,
+        data: event.kind === 'state' ? event.job : event.progress,
+      })),
+    );
+  }
+
+  @Post('jobs/:id/resume')
+  async resumeJob(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.authorize(principal, id);
+    return this.jobsService.resume(id);
+  }
+
+  // Review mode: the script a job stopped on, editable until it is approved
+  @Get('jobs/:id/draft')
+  async getDraft(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.authorize(principal, id);
+    return this.jobsService.draft(id);
+  }
+
+  @Put('jobs/:id/draft')
+  async updateDraft(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() draft: unknown,
+  ) {
+    await this.authorize(principal, id);
+    return this.jobsService.updateDraft(id, draft);
+  }
+
+  @Post('jobs/:id/approve')
+  async approveJob(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.authorize(principal, id);
+    return this.jobsService.approve(id);
+  }
+
+  @Post('jobs/:id/cancel')
+  async cancelJob(
+    @CurrentPrincipal() principal: Principal,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.authorize(principal, id);
+    return this.jobsService.cancel(id);
+  }
+
+  @Get('lessons/:lessonId/jobs')
+  async listLessonJobs(
+    @CurrentPrincipal() principal: Principal,
+    @Param('lessonId', ParseUUIDPipe) lessonId: string,
+  ) {
+    await this.access.checkLesson(principal, lessonId);
+    return this.jobsService.listForLesson(lessonId);
+  }
+}
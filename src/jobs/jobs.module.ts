@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import { AuthModule } from '../auth/auth.module';
+import { CheckpointService } from './checkpoint.service';
+import { JobStore } from './job-store';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { LocalJobStore } from './local-job-store';
+import { SupabaseJobStore } from './supabase-job-store';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [JobsController],
+  providers: [
+    JobsService,
+    CheckpointService,
+    {
+      // JOB_STORE=supabase keeps jobs in the `generation_jobs` table; the
+      // default writes JSON files to JOBS_DIR so nothing external is needed.
+      provide: JobStore,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        if (config.get('JOB_STORE') === 'supabase') {
+          return new SupabaseJobStore(
+            createClient(
+              config.getOrThrow<string>('SUPABASE_URL'),
+              config.getOrThrow<string>('SUPABASE_SERVICE_ROLE_KEY'),
+            ),
+          );
+        }
+        return new LocalJobStore(
+          config.get('JOBS_DIR') ?? path.resolve(process.cwd(), 'data', 'jobs'),
+        );
+      },
+    },
+  ],
+  exports: [JobsService, CheckpointService],
+})
+export class JobsModule {}
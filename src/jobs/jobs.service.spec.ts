@@ -0,0 +1,385 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lastValueFrom, toArray } from 'rxjs';
+import { z } from 'zod';
+import { Job, JobFilter } from './job.types';
+import { JobsService } from './jobs.service';
+import { LocalJobStore } from './local-job-store';
+
+function waitFor(check: () => Promise<boolean>) {
+  return new Promise<void>((resolve, reject) => {
+    const started = Date.now();
+    const tick = async () => {
+      if (await check()) return resolve();
+      if (Date.now() - started > 2000) return reject(new Error('timed out'));
+      setTimeout(() => void tick(), 5);
+    };
+    void tick();
+  });
+}
+
+// Tracks saves still in flight, since handlers that never finish leave their last write landing after the test
+class SettlingJobStore extends LocalJobStore {
+  private readonly writes = new Set<Promise<void>>();
+
+  save(job: Job) {
+    const write = super.save(job);
+    const done = () => void this.writes.delete(write);
+    this.writes.add(write);
+    write.then(done, done);
+    return write;
+  }
+
+  async settled() {
+    while (this.writes.size) await Promise.allSettled([...this.writes]);
+  }
+}
+
+describe('JobsService', () => {
+  let dir: string;
+  let store: SettlingJobStore;
+
+  const createService = (env: Record<string, string> = {}) =>
+    new JobsService(store, new ConfigService(env));
+
+  const stateOf = async (service: JobsService, id: string) =>
+    (await service.get(id)).state;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    store = new SettlingJobStore(dir);
+  });
+
+  // The store updates memory before the file, so a final write may still be landing
+  afterEach(async () => {
+    await store.settled();
+    await fs.promises.rm(dir, { recursive: true, force: true, maxRetries: 5 });
+  });
+
+  it('runs a queued job and records success', async () => {
+    const service = createService();
+    const seen: Job[] = [];
+    service.registerHandler('slides', (job) => {
+      seen.push(job);
+      return Promise.resolve();
+    });
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('slides', 'lesson-1', { title: 'T' });
+    await waitFor(async () => (await stateOf(service, job.id)) === 'succeeded');
+
+    expect(seen[0].payload).toEqual({ title: 'T' });
+    const finished = await service.get(job.id);
+    expect(finished.startedAt).not.toBeNull();
+    expect(finished.finishedAt).not.toBeNull();
+  });
+
+  it('records the error message of a failed job', async () => {
+    const service = createService();
+    service.registerHandler('comic', () => Promise.reject(new Error('boom')));
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('comic', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, job.id)) === 'failed');
+
+    expect((await service.get(job.id)).error).toBe('boom');
+  });
+
+  it('returns the active job instead of queueing a duplicate', async () => {
+    const service = createService();
+    service.registerHandler('podcast', () => new Promise(() => undefined));
+    await service.onApplicationBootstrap();
+
+    const first = await service.enqueue('podcast', 'lesson-1', {});
+    const second = await service.enqueue('podcast', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, first.id)) === 'running');
+
+    expect(second.id).toBe(first.id);
+    expect(await service.listForLesson('lesson-1')).toHaveLength(1);
+  });
+
+  it('only treats jobs as duplicates when the dedupe fields match', async () => {
+    const service = createService();
+    service.registerHandler('translation', () => new Promise(() => undefined));
+    await service.onApplicationBootstrap();
+
+    const translate = (language: string) =>
+      service.enqueue(
+        'translation',
+        'lesson-1',
+        { language },
+        { dedupeOn: ['language'] },
+      );
+    const es = await translate('es');
+    const fr = await translate('fr');
+    const esAgain = await translate('es');
+    await waitFor(async () => (await stateOf(service, es.id)) === 'running');
+
+    expect(fr.id).not.toBe(es.id);
+    expect(esAgain.id).toBe(es.id);
+  });
+
+  it('queues a full generate behind an active single-page redraw', async () => {
+    const service = createService();
+    service.registerHandler('comic', () => new Promise(() => undefined));
+    await service.onApplicationBootstrap();
+
+    const redraw = await service.enqueue(
+      'comic',
+      'lesson-1',
+      { regenerate: 2 },
+      { exclusive: true },
+    );
+    await waitFor(
+      async () => (await stateOf(service, redraw.id)) === 'running',
+    );
+    const generate = () =>
+      service.enqueue(
+        'comic',
+        'lesson-1',
+        { language: 'en' },
+        { dedupeOn: ['regenerate', 'language'] },
+      );
+    const full = await generate();
+
+    expect(full.id).not.toBe(redraw.id);
+    expect(full.state).toBe('queued');
+    expect((await generate()).id).toBe(full.id);
+    expect(await service.listForLesson('lesson-1')).toHaveLength(2);
+  });
+
+  it('refuses exclusive jobs while another of the type is active', async () => {
+    const service = createService();
+    service.registerHandler('comic', () => new Promise(() => undefined));
+    await service.onApplicationBootstrap();
+
+    const full = await service.enqueue('comic', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, full.id)) === 'running');
+    const redraw = (lessonId: string) =>
+      service.enqueue(
+        'comic',
+        lessonId,
+        { regenerate: 2 },
+        { exclusive: true },
+      );
+
+    await expect(redraw('lesson-1')).rejects.toThrow(ConflictException);
+    await expect(redraw('lesson-2')).resolves.toBeDefined();
+  });
+
+  it('respects the per-type concurrency limit', async () => {
+    const service = createService({ JOB_CONCURRENCY_SLIDES: '1' });
+    const release: Array<() => void> = [];
+    service.registerHandler(
+      'slides',
+      () => new Promise<void>((resolve) => release.push(resolve)),
+    );
+    await service.onApplicationBootstrap();
+
+    const a = await service.enqueue('slides', 'lesson-a', {});
+    const b = await service.enqueue('slides', 'lesson-b', {});
+    // The state is saved as running a moment before the handler is called
+    await waitFor(() => Promise.resolve(release.length === 1));
+    expect(await stateOf(service, a.id)).toBe('running');
+    expect(await stateOf(service, b.id)).toBe('queued');
+
+    release[0]();
+    await waitFor(() => Promise.resolve(release.length === 2));
+    release[1]();
+    await waitFor(async () => (await stateOf(service, b.id)) === 'succeeded');
+  });
+
+  it('frees the slot of a job whose start could not be saved', async () => {
+    const service = createService({ JOB_CONCURRENCY_SLIDES: '1' });
+    service.registerHandler('slides', () => Promise.resolve());
+    const first = await service.enqueue('slides', 'lesson-a', {});
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const save = store.save.bind(store) as LocalJobStore['save'];
+    jest
+      .spyOn(store, 'save')
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockImplementation(save);
+
+    await service.onApplicationBootstrap();
+    await waitFor(() => Promise.resolve(error.mock.calls.length > 0));
+    expect(error).toHaveBeenCalledWith(
+      '❌ Failed to start queued slides jobs:',
+      expect.any(Error),
+    );
+
+    const second = await service.enqueue('slides', 'lesson-b', {});
+    await waitFor(
+      async () => (await stateOf(service, second.id)) === 'succeeded',
+    );
+    expect(await stateOf(service, first.id)).toBe('succeeded');
+  });
+
+  it('cancels running jobs through the abort signal', async () => {
+    const service = createService();
+    service.registerHandler(
+      'cinematic',
+      (_job, { signal }) =>
+        new Promise((_resolve, reject) =>
+          signal.addEventListener('abort', () => reject(new Error('aborted'))),
+        ),
+    );
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('cinematic', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, job.id)) === 'running');
+    await service.cancel(job.id);
+    await waitFor(async () => (await stateOf(service, job.id)) === 'cancelled');
+  });
+
+  it('does not start a job cancelled while the queue was being read', async () => {
+    const service = createService();
+    const handler = jest.fn(() => Promise.resolve());
+    service.registerHandler('slides', handler);
+    const job = await service.enqueue('slides', 'lesson-1', {});
+
+    const find = store.find.bind(store) as LocalJobStore['find'];
+    const read = jest
+      .spyOn(store, 'find')
+      .mockImplementation(async (filter: JobFilter) => {
+        const jobs = await find(filter);
+        if (filter.states?.includes('queued')) await service.cancel(job.id);
+        return jobs;
+      });
+    await service.onApplicationBootstrap();
+    await waitFor(() => Promise.resolve(read.mock.calls.length > 1));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await stateOf(service, job.id)).toBe('cancelled');
+  });
+
+  it('persists progress and streams it until the job finishes', async () => {
+    const service = createService();
+    let release!: () => void;
+    service.registerHandler('slides', async (_job, { progress }) => {
+      await new Promise<void>((resolve) => (release = resolve));
+      progress({ stage: 'slide', step: 1, total: 2, percent: 49.6 });
+    });
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('slides', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, job.id)) === 'running');
+    const events = lastValueFrom(service.watch(job.id).pipe(toArray()));
+    release();
+
+    const kinds = (await events).map((event) =>
+      event.kind === 'state' ? event.job.state : event.progress.stage,
+    );
+    expect(kinds).toEqual(['running', 'slide', 'succeeded']);
+    expect((await service.get(job.id)).progress).toMatchObject({
+      stage: 'slide',
+      step: 1,
+      total: 2,
+      percent: 50,
+    });
+  });
+
+  it('resumes a failed job as a new attempt', async () => {
+    const service = createService();
+    const resumed: boolean[] = [];
+    service.registerHandler('slides', (_job, { resume }) => {
+      resumed.push(resume);
+      return resumed.length === 1
+        ? Promise.reject(new Error('slide 6 failed'))
+        : Promise.resolve();
+    });
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('slides', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, job.id)) === 'failed');
+    await service.resume(job.id);
+    await waitFor(async () => (await stateOf(service, job.id)) === 'succeeded');
+
+    expect(resumed).toEqual([false, true]);
+    expect((await service.get(job.id)).attempts).toBe(2);
+    await expect(service.resume(job.id)).rejects.toThrow(/only failed/);
+  });
+
+  it('parks review-mode jobs on their draft until approved', async () => {
+    const service = createService();
+    const rendered: string[][] = [];
+    service.registerHandler(
+      'slides',
+      async (_job, { review }) => {
+        const script = await review(['intro', 'typo']);
+        if (script) rendered.push(script);
+      },
+      { draftSchema: z.array(z.string()) },
+    );
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('slides', 'lesson-1', { review: true });
+    await waitFor(
+      async () => (await stateOf(service, job.id)) === 'awaiting_review',
+    );
+    expect(await service.draft(job.id)).toEqual(['intro', 'typo']);
+    expect(rendered).toEqual([]);
+
+    await expect(service.updateDraft(job.id, [1])).rejects.toThrow(
+      BadRequestException,
+    );
+    await service.updateDraft(job.id, ['intro', 'fixed']);
+    await service.approve(job.id);
+    await waitFor(async () => (await stateOf(service, job.id)) === 'succeeded');
+
+    expect(rendered).toEqual([['intro', 'fixed']]);
+    await expect(service.approve(job.id)).rejects.toThrow(ConflictException);
+  });
+
+  it('renders straight away when review is not requested', async () => {
+    const service = createService();
+    const rendered: string[][] = [];
+    service.registerHandler('comic', async (_job, { review }) => {
+      rendered.push((await review(['page']))!);
+    });
+    await service.onApplicationBootstrap();
+
+    const job = await service.enqueue('comic', 'lesson-1', {});
+    await waitFor(async () => (await stateOf(service, job.id)) === 'succeeded');
+
+    expect(rendered).toEqual([['page']]);
+    await expect(service.draft(job.id)).rejects.toThrow(NotFoundException);
+  });
+
+  it('re-queues jobs left running by a previous process', async () => {
+    const now = new Date().toISOString();
+    await store.save({
+      id: 'stale',
+      type: 'slides',
+      lessonId: 'lesson-1',
+      state: 'running',
+      payload: {},
+      error: null,
+      progress: null,
+      attempts: 1,
+      draft: null,
+      approvedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      finishedAt: null,
+    });
+
+    // A fresh store reads the directory back, as after a restart
+    store = new SettlingJobStore(dir);
+    const service = createService();
+    service.registerHandler('slides', () => Promise.resolve());
+    await service.onApplicationBootstrap();
+
+    await waitFor(
+      async () => (await stateOf(service, 'stale')) === 'succeeded',
+    );
+  });
+});
@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import {
+  concat,
+  defer,
+  filter,
+  finalize,
+  from,
+  Observable,
+  of,
+  ReplaySubject,
+  Subject,
+  switchMap,
+  takeWhile,
+} from 'rxjs';
+import { JobStore } from './job-store';
+import {
+  ACTIVE_JOB_STATES,
+  EnqueueOptions,
+  HandlerOptions,
+  Job,
+  JobEvent,
+  JobHandler,
+  JobProgressUpdate,
+  JobState,
+  JobType,
+} from './job.types';
+
+const DEFAULT_CONCURRENCY: Record<JobType, number> = {
+  slides: 2,
+  podcast: 2,
+  comic: 1,
+  cinematic: 1,
+  translation: 1,
+};
+
+@Injectable()
+export class JobsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly handlers = new Map<JobType, JobHandler>();
+  private readonly options = new Map<JobType, HandlerOptions>();
+  private readonly active = new Map<
+    string,
+    { type: JobType; controller: AbortController }
+  >();
+  private readonly pumping = new Set<JobType>();
+  private readonly repump = new Set<JobType>();
+  private readonly events = new Subject<JobEvent>();
+  private bootstrapped = false;
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly config: ConfigService,
+  ) {}
+
+  registerHandler<P>(
+    type: JobType,
+    handler: JobHandler<P>,
+    options: HandlerOptions<P> = {},
+  ) {
+    // `run` only hands the handler a payload its payloadSchema accepted
+    this.handlers.set(type, handler as JobHandler);
+    this.options.set(type, options as HandlerOptions);
+  }
+
+  async onApplicationBootstrap() {
+    // Anything still marked running was interrupted by a restart; put it back in line.
+    const interrupted = await this.store.find({ states: ['running'] });
+    for (const job of interrupted) {
+      console.warn(
+        `♻️  [${job.lessonId}] Re-queueing interrupted ${job.type} job ${job.id}`,
+      );
+      await this.update(job, { state: 'queued', startedAt: null });
+    }
+
+    this.bootstrapped = true;
+    for (const type of this.handlers.keys()) void this.pump(type);
+  }
+
+  onModuleDestroy() {
+    this.bootstrapped = false;
+  }
+
+  /**
+   * Queues a job, or returns the one already queued/running for the same
+   * lesson and pipeline so repeated clicks don't start duplicate runs.
+   * Exclusive jobs instead refuse to queue behind an active one.
+   */
+  async enqueue(
+    type: JobType,
+    lessonId: string,
+    payload: Record<string, any>,
+    options: EnqueueOptions = {},
+  ) {
+    const active = await this.store.find({
+      type,
+      lessonId,
+      states: ACTIVE_JOB_STATES,
+    });
+    if (options.exclusive && active.length > 0) {
+      throw new ConflictException(
+        `Job ${active[0].id} is already ${active[0].state} for this lesson`,
+      );
+    }
+    const existing = active.find((job) =>
+      (options.dedupeOn ?? []).every(
+        (field) => job.payload[field] === payload[field],
+      ),
+    );
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      lessonId,
+      state: 'queued',
+      payload,
+      error: null,
+      progress: null,
+      attempts: 0,
+      draft: null,
+      approvedAt: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+      finishedAt: null,
+    };
+    await this.store.save(job);
+    void this.pump(type);
+    return job;
+  }
+
+  async get(id: string) {
+    const job = await this.store.findById(id);
+    if (!job) throw new NotFoundException(`Job ${id} not found`);
+    return job;
+  }
+
+  /**
+   * Streams the job's current snapshot followed by live state and progress
+   * events, completing once the job reaches a terminal state.
+   */
+  watch(id: string): Observable<JobEvent> {
+    const isActive = (event: JobEvent) =>
+      event.kind !== 'state' || ACTIVE_JOB_STATES.includes(event.job.state);
+
+    return defer(() => {
+      // Listen before reading the snapshot so nothing emitted in between is lost.
+      const buffered = new ReplaySubject<JobEvent>(50);
+      const listener = this.events
+        .pipe(filter((event) => event.jobId === id))
+        .subscribe(buffered);
+
+      return from(this.get(id)).pipe(
+        switchMap((job) =>
+          concat(of<JobEvent>({ kind: 'state', jobId: id, job }), buffered),
+        ),
+        takeWhile(isActive, true),
+        finalize(() => listener.unsubscribe()),
+      );
+    });
+  }
+
+  listForLesson(lessonId: string) {
+    return this.store.find({ lessonId });
+  }
+
+  /**
+   * Puts a failed or cancelled job back in the queue. The pipeline sees
+   * `ctx.resume` and picks up from its checkpoints instead of starting over.
+   */
+  async resume(id: string) {
+    const job = await this.get(id);
+    if (job.state !== 'failed' && job.state !== 'cancelled') {
+      throw new ConflictException(
+        `Job ${id} is ${job.state}; only failed or cancelled jobs can be resumed`,
+      );
+    }
+
+    const [active] = await this.store.find({
+      type: job.type,
+      lessonId: job.lessonId,
+      states: ACTIVE_JOB_STATES,
+    });
+    if (active) {
+      throw new ConflictException(
+        `Job ${active.id} is already ${active.state} for this lesson`,
+      );
+    }
+
+    const queued = await this.update(job, {
+      state: 'queued',
+      error: null,
+      progress: null,
+      startedAt: null,
+      finishedAt: null,
+    });
+    void this.pump(job.type);
+    return queued;
+  }
+
+  // The draft a review-mode job is waiting on.
+  async draft(id: string) {
+    const job = await this.get(id);
+    if (job.draft === null || job.draft === undefined) {
+      throw new NotFoundException(`Job ${id} has no draft to review`);
+    }
+    return job.draft;
+  }
+
+  async updateDraft(id: string, draft: unknown) {
+    const job = await this.awaitingReview(id);
+    const schema = this.options.get(job.type)?.draftSchema;
+    const result = schema ? schema.safeParse(draft) : undefined;
+    if (result && !result.success) {
+      throw new BadRequestException(
+        `Invalid draft: ${result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`,
+      );
+    }
+    const saved = await this.update(job, {
+      draft: result ? result.data : draft,
+    });
+    return saved.draft;
+  }
+
+  /** Queues a reviewed job again; the pipeline renders the approved draft. */
+  async approve(id: string) {
+    const job = await this.awaitingReview(id);
+    const queued = await this.update(job, {
+      state: 'queued',
+      approvedAt: new Date().toISOString(),
+      progress: null,
+      startedAt: null,
+    });
+    void this.pump(job.type);
+    return queued;
+  }
+
+  private async awaitingReview(id: string) {
+    const job = await this.get(id);
+    if (job.state !== 'awaiting_review') {
+      throw new ConflictException(
+        `Job ${id} is ${job.state}; only jobs awaiting review can be edited or approved`,
+      );
+    }
+    return job;
+  }
+
+  async cancel(id: string) {
+    const job = await this.get(id);
+
+    if (job.state === 'queued' || job.state === 'awaiting_review') {
+      // A queued job may be starting right now; its run sees the abort and stops
+      this.active.get(id)?.controller.abort();
+      return this.update(job, {
+        state: 'cancelled',
+        finishedAt: new Date().toISOString(),
+      });
+    }
+
+    // Running jobs stop at their next checkpoint; the run loop records the final state.
+    this.active.get(id)?.controller.abort();
+    return job;
+  }
+
+  private limitFor(type: JobType) {
+    const configured = Number(
+      this.config.get(`JOB_CONCURRENCY_${type.toUpperCase()}`),
+    );
+    return configured > 0 ? configured : DEFAULT_CONCURRENCY[type];
+  }
+
+  private activeCount(type: JobType) {
+    let count = 0;
+    for (const entry of this.active.values()) if (entry.type === type) count++;
+    return count;
+  }
+
+  private async pump(type: JobType) {
+    if (!this.bootstrapped) return;
+    if (this.pumping.has(type)) {
+      this.repump.add(type);
+      return;
+    }
+
+    this.pumping.add(type);
+    try {
+      do {
+        this.repump.delete(type);
+        const slots = this.limitFor(type) - this.activeCount(type);
+        if (slots <= 0) break;
+
+        const queued = await this.store.find({ type, states: ['queued'] });
+        for (const job of queued.slice(0, slots)) await this.start(job);
+      } while (this.repump.has(type));
+    } catch (e) {
+      // Every caller fires and forgets; the next enqueue or finished job pumps again
+      console.error(`❌ Failed to start queued ${type} jobs:`, e);
+    } finally {
+      this.pumping.delete(type);
+    }
+  }
+
+  private async start(queued: Job) {
+    // The queue snapshot may be stale: a cancel can land between the find and here
+    const job = await this.store.findById(queued.id);
+    if (job?.state !== 'queued') return;
+    const controller = new AbortController();
+    this.active.set(job.id, { type: job.type, controller });
+
+    let running: Job;
+    try {
+      running = await this.update(job, {
+        state: 'running',
+        startedAt: new Date().toISOString(),
+        attempts: job.attempts + 1,
+        error: null,
+      });
+    } catch (e) {
+      // Never started, so it mustn't keep holding one of the type's slots
+      this.active.delete(job.id);
+      throw e;
+    }
+    void this.run(running, controller);
+  }
+
+  private async run(job: Job, controller: AbortController) {
+    let state: JobState = 'succeeded';
+    let error: string | null = null;
+    let current = job;
+    let held = false;
+
+    // Progress writes are chained so they land in order and the final
+    // state update never races an in-flight progress save.
+    let progressWrites = Promise.resolve();
+    const progress = (update: JobProgressUpdate) => {
+      const entry = {
+        step: null,
+        total: null,
+        message: null,
+        asset: null,
+        ...update,
+        percent: Math.round(Math.min(100, Math.max(0, update.percent))),
+        at: new Date().toISOString(),
+      };
+      this.events.next({ kind: 'progress', jobId: job.id, progress: entry });
+      progressWrites = progressWrites
+        .then(async () => {
+          current = await this.update(current, { progress: entry }, false);
+        })
+        .catch((e) =>
+          console.error(`⚠️  Failed to save progress for job ${job.id}:`, e),
+        );
+    };
+
+    const review = async <T>(draft: T) => {
+      if (job.payload.review !== true) return draft;
+      if (current.approvedAt) return (current.draft ?? draft) as T;
+      // Saved in line with progress so a late progress write can't drop it
+      const saved = progressWrites.then(async () => {
+        current = await this.update(current, { draft }, false);
+      });
+      progressWrites = saved.catch(() => undefined);
+      await saved;
+      held = true;
+      return undefined;
+    };
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler)
+        throw new Error(`No handler registered for ${job.type} jobs`);
+      if (controller.signal.aborted) throw new Error('Cancelled');
+      const schema = this.options.get(job.type)?.payloadSchema;
+      const payload = schema ? schema.safeParse(job.payload) : undefined;
+      if (payload && !payload.success) {
+        throw new Error(
+          `Invalid ${job.type} job payload: ${payload.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`,
+        );
+      }
+      await handler(payload ? { ...job, payload: payload.data } : job, {
+        job,
+        signal: controller.signal,
+        resume: job.attempts > 1,
+        progress,
+        review,
+      });
+      if (held) state = 'awaiting_review';
+      if (controller.signal.aborted) state = 'cancelled';
+    } catch (e) {
+      state = controller.signal.aborted ? 'cancelled' : 'failed';
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    try {
+      await progressWrites;
+      await this.update(current, {
+        state,
+        error,
+        finishedAt: held && !error ? null : new Date().toISOString(),
+      });
+    } catch (e) {
+      console.error(`❌ Failed to record outcome of job ${job.id}:`, e);
+    } finally {
+      this.active.delete(job.id);
+      void this.pump(job.type);
+    }
+  }
+
+  private async update(job: Job, changes: Partial<Job>, announce = true) {
+    const next: Job = {
+      ...job,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.save(next);
+    if (announce)
+      this.events.next({ kind: 'state', jobId: next.id, job: next });
+    return next;
+  }
+}
@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Job } from './job.types';
+import { LocalJobStore } from './local-job-store';
+
+const job = (id: string): Job => ({
+  id,
+  type: 'slides',
+  lessonId: 'lesson-1',
+  state: 'queued',
+  payload: {},
+  error: null,
+  progress: null,
+  attempts: 0,
+  draft: null,
+  approvedAt: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  startedAt: null,
+  finishedAt: null,
+});
+
+describe('LocalJobStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-store-'));
+  });
+
+  afterEach(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+  it('leaves only complete job files behind', async () => {
+    await new LocalJobStore(dir).save(job('a'));
+
+    expect(fs.readdirSync(dir)).toEqual(['a.json']);
+    expect(await new LocalJobStore(dir).findById('a')).toEqual(job('a'));
+  });
+
+  it('skips unreadable job files instead of failing to load', async () => {
+    await new LocalJobStore(dir).save(job('a'));
+    fs.writeFileSync(path.join(dir, 'b.json'), '{"id": "b", "ty');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const jobs = await new LocalJobStore(dir).find({});
+
+    expect(jobs.map((j) => j.id)).toEqual(['a']);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('b.json'),
+      expect.any(SyntaxError),
+    );
+    warn.mockRestore();
+  });
+});
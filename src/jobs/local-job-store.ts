@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JobStore, matchesFilter } from './job-store';
+import { Job, JobFilter } from './job.types';
+
+/**
+ * Keeps one JSON file per job under `dir`. The whole directory is read once
+ * on first access and then served from memory; every save is written through.
+ */
+export class LocalJobStore extends JobStore {
+  private jobs?: Map<string, Job>;
+
+  constructor(private readonly dir: string) {
+    super();
+  }
+
+  async save(job: Job) {
+    const jobs = await this.load();
+    jobs.set(job.id, { ...job });
+    // Write then rename so a crash mid-write never leaves a truncated job file
+    const file = path.join(this.dir, `${job.id}.json`);
+    // A unique temp name keeps overlapping saves of one job from renaming each other's file
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(job, null, 2));
+    await fs.promises.rename(tmp, file);
+  }
+
+  async findById(id: string) {
+    const job = (await this.load()).get(id);
+    return job && { ...job };
+  }
+
+  async find(filter: JobFilter) {
+    const jobs = [...(await this.load()).values()];
+    return jobs
+      .filter((job) => matchesFilter(job, filter))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((job) => ({ ...job }));
+  }
+
+  private async load() {
+    if (this.jobs) return this.jobs;
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const jobs = new Map<string, Job>();
+    for (const file of await fs.promises.readdir(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const raw = await fs.promises.readFile(path.join(this.dir, file), 'utf8');
+      try {
+        const job = JSON.parse(raw) as Job;
+        jobs.set(job.id, job);
+      } catch (e) {
+        // One unreadable file shouldn't keep the queue from starting
+        console.warn(`⚠️  Skipping unreadable job file ${file}:`, e);
+      }
+    }
+    this.jobs = jobs;
+    return jobs;
+  }
+}
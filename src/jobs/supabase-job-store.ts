@@ -0,0 +1,95 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { JobStore } from './job-store';
+import { Job, JobFilter } from './job.types';
+
+const TABLE = 'generation_jobs';
+
+interface JobRow {
+  id: string;
+  type: Job['type'];
+  lesson_id: string;
+  state: Job['state'];
+  payload: Record<string, any>;
+  error: string | null;
+  progress: Job['progress'];
+  attempts: number;
+  draft: unknown;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+function toRow(job: Job): JobRow {
+  return {
+    id: job.id,
+    type: job.type,
+    lesson_id: job.lessonId,
+    state: job.state,
+    payload: job.payload,
+    error: job.error,
+    progress: job.progress,
+    attempts: job.attempts,
+    draft: job.draft,
+    approved_at: job.approvedAt,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+    started_at: job.startedAt,
+    finished_at: job.finishedAt,
+  };
+}
+
+function fromRow(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    lessonId: row.lesson_id,
+    state: row.state,
+    payload: row.payload ?? {},
+    error: row.error,
+    progress: row.progress ?? null,
+    attempts: row.attempts ?? 0,
+    draft: row.draft ?? null,
+    approvedAt: row.approved_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export class SupabaseJobStore extends JobStore {
+  constructor(private readonly supabase: SupabaseClient<any, any>) {
+    super();
+  }
+
+  async save(job: Job) {
+    const { error } = await this.supabase.from(TABLE).upsert(toRow(job));
+    if (error)
+      throw new Error(`Failed to save job ${job.id}: ${error.message}`);
+  }
+
+  async findById(id: string) {
+    const { data, error } = await this.supabase
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle<JobRow>();
+    if (error) throw new Error(`Failed to load job ${id}: ${error.message}`);
+    return data ? fromRow(data) : undefined;
+  }
+
+  async find(filter: JobFilter) {
+    let query = this.supabase.from(TABLE).select('*');
+    if (filter.type) query = query.eq('type', filter.type);
+    if (filter.lessonId) query = query.eq('lesson_id', filter.lessonId);
+    if (filter.states) query = query.in('state', filter.states);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .returns<JobRow[]>();
+    if (error) throw new Error(`Failed to list jobs: ${error.message}`);
+    return data.map(fromRow);
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  findLanguage,
+  languageFor,
+  languageInstruction,
+  LANGUAGES,
+} from './languages';
+
+describe('languages', () => {
+  it('matches codes case-insensitively and falls back from regional tags', () => {
+    expect(findLanguage('ES')?.speechLocale).toBe('es-US');
+    expect(findLanguage('pt_PT')?.code).toBe('pt');
+    expect(findLanguage(' fr-CA ')?.name).toBe('French');
+    expect(findLanguage('xx')).toBeUndefined();
+  });
+
+  it('defaults payloads without a language to English', () => {
+    expect(languageFor(undefined).code).toBe('en');
+    expect(() => languageFor('klingon')).toThrow(/Unsupported language/);
+  });
+
+  it('has unique codes and a voice for every role', () => {
+    const codes = LANGUAGES.map((l) => l.code);
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const language of LANGUAGES) {
+      expect(language.voices.narrator).toBeTruthy();
+      expect(language.voices.hosts).toHaveLength(2);
+    }
+  });
+
+  it('leaves English prompts untouched and keeps model-facing fields in English', () => {
+    expect(languageInstruction(languageFor('en'), ['image_prompt'])).toBe('');
+
+    const instruction = languageInstruction(languageFor('ja'), [
+      'image_prompt',
+    ]);
+    expect(instruction).toContain('in Japanese');
+    expect(instruction).toContain('Keep JSON keys, "image_prompt" in English');
+  });
+});
@@ -0,0 +1,81 @@
+export interface Language {
+  // ISO 639-1 code accepted by the API (e.g. `es`).
+  code: string;
+  // English name, used when instructing the model.
+  name: string;
+  // BCP-47 locale passed to text-to-speech (e.g. `es-US`).
+  speechLocale: string;
+  voices: {
+    narrator: string;
+    // Voices for the two podcast hosts, in speaking order.
+    hosts: [string, string];
+  };
+}
+
+const lang = (
+  code: string,
+  name: string,
+  speechLocale: string,
+  narrator: string,
+  hosts: [string, string],
+): Language => ({ code, name, speechLocale, voices: { narrator, hosts } });
+
+// Locales Gemini TTS supports. Voices are multilingual; these are picked to suit each locale.
+export const LANGUAGES: Language[] = [
+  lang('en', 'English', 'en-US', 'Kore', ['Puck', 'Charon']),
+  lang('es', 'Spanish', 'es-US', 'Aoede', ['Puck', 'Orus']),
+  lang('fr', 'French', 'fr-FR', 'Leda', ['Fenrir', 'Charon']),
+  lang('de', 'German', 'de-DE', 'Kore', ['Puck', 'Iapetus']),
+  lang('it', 'Italian', 'it-IT', 'Aoede', ['Fenrir', 'Charon']),
+  lang('pt', 'Portuguese', 'pt-BR', 'Leda', ['Puck', 'Orus']),
+  lang('nl', 'Dutch', 'nl-NL', 'Kore', ['Puck', 'Charon']),
+  lang('pl', 'Polish', 'pl-PL', 'Kore', ['Puck', 'Charon']),
+  lang('ru', 'Russian', 'ru-RU', 'Kore', ['Fenrir', 'Charon']),
+  lang('uk', 'Ukrainian', 'uk-UA', 'Kore', ['Fenrir', 'Charon']),
+  lang('tr', 'Turkish', 'tr-TR', 'Aoede', ['Puck', 'Charon']),
+  lang('ar', 'Arabic', 'ar-EG', 'Leda', ['Puck', 'Orus']),
+  lang('hi', 'Hindi', 'hi-IN', 'Kore', ['Puck', 'Charon']),
+  lang('bn', 'Bengali', 'bn-BD', 'Kore', ['Puck', 'Charon']),
+  lang('ta', 'Tamil', 'ta-IN', 'Kore', ['Puck', 'Charon']),
+  lang('ja', 'Japanese', 'ja-JP', 'Leda', ['Puck', 'Charon']),
+  lang('ko', 'Korean', 'ko-KR', 'Leda', ['Puck', 'Charon']),
+  lang('zh', 'Mandarin Chinese', 'cmn-CN', 'Kore', ['Puck', 'Charon']),
+  lang('id', 'Indonesian', 'id-ID', 'Kore', ['Puck', 'Charon']),
+  lang('vi', 'Vietnamese', 'vi-VN', 'Kore', ['Puck', 'Charon']),
+  lang('th', 'Thai', 'th-TH', 'Kore', ['Puck', 'Charon']),
+  lang('sw', 'Swahili', 'sw-KE', 'Kore', ['Puck', 'Charon']),
+];
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/**
+ * Looks a language up by code, case-insensitively. Regional tags fall back
+ * to their base language, so `es-MX` and `pt_PT` resolve to `es` and `pt`.
+ */
+export function findLanguage(code: string) {
+  const normalized = code.trim().toLowerCase().replace(/_/g, '-');
+  const base = normalized.split('-')[0];
+  return LANGUAGES.find((l) => l.code === normalized || l.code === base);
+}
+
+// For job payloads, which were validated on enqueue; jobs queued before localization have no language.
+export function languageFor(code?: string | null) {
+  const language = findLanguage(code ?? DEFAULT_LANGUAGE);
+  if (!language) throw new Error(`Unsupported language "${code}"`);
+  return language;
+}
+
+/**
+ * The prompt suffix that asks for learner-facing text in `language`.
+ * `englishFields` name output fields that feed other models (image prompts,
+ * visual descriptions) and must stay in English. Empty for English.
+ */
+export function languageInstruction(
+  language: Language,
+  englishFields: string[] = [],
+) {
+  if (language.code === 'en') return '';
+  const keep = ['JSON keys', ...englishFields.map((f) => `"${f}"`)];
+  return `
+LANGUAGE: Write every learner-facing word (titles, bullets, narration, dialogue, captions) in ${language.name}, natural and fluent rather than a literal translation. Keep ${keep.join(', ')} in English.`;
+}
@@ -0,0 +1,14 @@
+import { BadRequestException } from '@nestjs/common';
+import { DEFAULT_LANGUAGE, findLanguage, LANGUAGES } from './languages';
+
+// Validates the optional `language` of a generation request and returns the code to put in the job payload.
+export function requestLanguage(code?: string) {
+  if (code === undefined || code === '') return DEFAULT_LANGUAGE;
+  const language = findLanguage(code);
+  if (!language) {
+    throw new BadRequestException(
+      `Unsupported language "${code}". Supported: ${LANGUAGES.map((l) => l.code).join(', ')}`,
+    );
+  }
+  return language.code;
+}
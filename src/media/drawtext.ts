@@ -0,0 +1,31 @@
+import { escapeFilterValue } from './ffmpeg-escape';
+
+export interface DrawText {
+  // Text is read from a file so no character ever has to be escaped or dropped.
+  textFile: string;
+  // Falls back to fontconfig's default sans when no font file was found.
+  fontFile?: string;
+  // Pixels or a drawtext expression such as `(w-text_w)/2`.
+  x: number | string;
+  y: number | string;
+  fontSize: number;
+  color: string;
+  // Extra pixels between lines of a multi-line text file.
+  lineSpacing?: number;
+}
+
+export function drawtextFilter(spec: DrawText) {
+  const options = [
+    spec.fontFile
+      ? `fontfile=${escapeFilterValue(spec.fontFile)}`
+      : 'font=Sans',
+    `textfile=${escapeFilterValue(spec.textFile)}`,
+    'expansion=none',
+    `x=${escapeFilterValue(String(spec.x))}`,
+    `y=${escapeFilterValue(String(spec.y))}`,
+    `fontsize=${spec.fontSize}`,
+    `fontcolor=${escapeFilterValue(spec.color)}`,
+    `line_spacing=${spec.lineSpacing ?? 0}`,
+  ];
+  return `drawtext=${options.join(':')}`;
+}
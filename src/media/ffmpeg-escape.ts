@@ -0,0 +1,15 @@
+// FFmpeg parses filter graphs twice: once for the graph (`[]`, `,`, `;`) and
+// once for each filter's `key=value` options (`:`). A value has to survive both.
+
+function escapeOptionValue(value: string) {
+  return value.replace(/[\\':]/g, '\\$&');
+}
+
+function escapeGraphValue(value: string) {
+  return value.replace(/[\\'[\],;]/g, '\\$&');
+}
+
+/** Escapes a filter option value (file paths, colours, text) for use inside a filter graph. */
+export function escapeFilterValue(value: string) {
+  return escapeGraphValue(escapeOptionValue(value));
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type Script =
+  | 'latin'
+  | 'arabic'
+  | 'hebrew'
+  | 'devanagari'
+  | 'bengali'
+  | 'tamil'
+  | 'thai'
+  | 'cjk'
+  | 'hangul';
+
+export type FontWeight = 'regular' | 'bold';
+
+// Scripts that Latin fonts (Noto Sans, DejaVu, Arial) don't cover, in detection order.
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['arabic', /\p{Script=Arabic}/gu],
+  ['hebrew', /\p{Script=Hebrew}/gu],
+  ['devanagari', /\p{Script=Devanagari}/gu],
+  ['bengali', /\p{Script=Bengali}/gu],
+  ['tamil', /\p{Script=Tamil}/gu],
+  ['thai', /\p{Script=Thai}/gu],
+  ['hangul', /\p{Script=Hangul}/gu],
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+];
+
+/** The script that needs the most specialised font; Latin (incl. Greek and Cyrillic) otherwise. */
+export function detectScript(text: string): Script {
+  let best: Script = 'latin';
+  let bestCount = 0;
+  for (const [script, pattern] of SCRIPT_PATTERNS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Candidate font files per script, most preferred first. Noto covers every script we support.
+const FONT_FILES: Record<Script, Record<FontWeight, string[]>> = {
+  latin: {
+    bold: [
+      'NotoSans-Bold.ttf',
+      'DejaVuSans-Bold.ttf',
+      'LiberationSans-Bold.ttf',
+      'Arial Bold.ttf',
+    ],
+    regular: [
+      'NotoSans-Regular.ttf',
+      'DejaVuSans.ttf',
+      'LiberationSans-Regular.ttf',
+      'Arial.ttf',
+    ],
+  },
+  arabic: {
+    bold: ['NotoSansArabic-Bold.ttf', 'NotoNaskhArabic-Bold.ttf'],
+    regular: ['NotoSansArabic-Regular.ttf', 'NotoNaskhArabic-Regular.ttf'],
+  },
+  hebrew: {
+    bold: ['NotoSansHebrew-Bold.ttf'],
+    regular: ['NotoSansHebrew-Regular.ttf'],
+  },
+  devanagari: {
+    bold: ['NotoSansDevanagari-Bold.ttf'],
+    regular: ['NotoSansDevanagari-Regular.ttf'],
+  },
+  bengali: {
+    bold: ['NotoSansBengali-Bold.ttf'],
+    regular: ['NotoSansBengali-Regular.ttf'],
+  },
+  tamil: {
+    bold: ['NotoSansTamil-Bold.ttf'],
+    regular: ['NotoSansTamil-Regular.ttf'],
+  },
+  thai: {
+    bold: ['NotoSansThai-Bold.ttf'],
+    regular: ['NotoSansThai-Regular.ttf'],
+  },
+  hangul: {
+    bold: ['NotoSansKR-Bold.otf', 'NotoSansCJK-Bold.ttc'],
+    regular: ['NotoSansKR-Regular.otf', 'NotoSansCJK-Regular.ttc'],
+  },
+  cjk: {
+    bold: ['NotoSansCJK-Bold.ttc', 'wqy-zenhei.ttc', 'PingFang.ttc'],
+    regular: ['NotoSansCJK-Regular.ttc', 'wqy-zenhei.ttc', 'PingFang.ttc'],
+  },
+};
+
+const SYSTEM_FONT_DIRS = [
+  '/usr/share/fonts/truetype/noto',
+  '/usr/share/fonts/opentype/noto',
+  '/usr/share/fonts/noto',
+  '/usr/share/fonts/noto-cjk',
+  '/usr/share/fonts/truetype/dejavu',
+  '/usr/share/fonts/truetype/liberation',
+  '/usr/share/fonts/truetype/wqy',
+  '/System/Library/Fonts/Supplemental',
+  '/System/Library/Fonts',
+  '/Library/Fonts',
+];
+
+/**
+ * Finds an installed font that covers a piece of text. Extra directories
+ * (e.g. from FONT_DIRS) are searched before the system ones, so deployments
+ * can ship their own Noto files.
+ */
+export class FontResolver {
+  private readonly cache = new Map<string, string | undefined>();
+  private readonly dirs: string[];
+
+  constructor(extraDirs: string[] = []) {
+    this.dirs = [...extraDirs, ...SYSTEM_FONT_DIRS];
+  }
+
+  resolve(text: string, weight: FontWeight = 'regular') {
+    const script = detectScript(text);
+    return (
+      this.find(script, weight) ??
+      this.find(script, 'regular') ??
+      this.find('latin', weight) ??
+      this.find('latin', 'regular')
+    );
+  }
+
+  private find(script: Script, weight: FontWeight) {
+    const key = `${script}:${weight}`;
+    if (!this.cache.has(key)) {
+      const file = FONT_FILES[script][weight]
+        .flatMap((name) => this.dirs.map((dir) => path.join(dir, name)))
+        .find((candidate) => fs.existsSync(candidate));
+      if (!file) console.warn(`⚠️  No ${weight} font installed for ${script}`);
+      this.cache.set(key, file);
+    }
+    return this.cache.get(key);
+  }
+}
@@ -0,0 +1,31 @@
+import ffmpeg from 'fluent-ffmpeg';
+
+/** Duration of a media file in seconds, as reported by ffprobe. */
+export function probeDuration(file: string) {
+  return new Promise<number>((resolve, reject) => {
+    ffmpeg.ffprobe(file, (err, data) => {
+      if (err)
+        return reject(err instanceof Error ? err : new Error(String(err)));
+      const duration = Number(data.format.duration);
+      if (!Number.isFinite(duration)) {
+        return reject(new Error(`ffprobe reported no duration for ${file}`));
+      }
+      resolve(duration);
+    });
+  });
+}
+
+/** Pixel size of an image (or a video's first stream), as reported by ffprobe. */
+export function probeImageSize(file: string) {
+  return new Promise<{ width: number; height: number }>((resolve, reject) => {
+    ffmpeg.ffprobe(file, (err, data) => {
+      if (err)
+        return reject(err instanceof Error ? err : new Error(String(err)));
+      const stream = data.streams.find((s) => s.width && s.height);
+      if (!stream?.width || !stream.height) {
+        return reject(new Error(`ffprobe reported no dimensions for ${file}`));
+      }
+      resolve({ width: stream.width, height: stream.height });
+    });
+  });
+}
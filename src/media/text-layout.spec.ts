@@ -0,0 +1,63 @@
+import { escapeFilterValue } from './ffmpeg-escape';
+import { detectScript } from './fonts';
+import { fitText, measureText, wrapText } from './text-layout';
+
+describe('text layout', () => {
+  it('wraps words to the available width without losing characters', () => {
+    const text = 'Snell’s law: n₁·sin(θ₁) = n₂·sin(θ₂), for every interface!';
+    const lines = wrapText(text, 36, 400);
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines)
+      expect(measureText(line, 36)).toBeLessThanOrEqual(400);
+    expect(lines.join(' ')).toBe(text);
+  });
+
+  it('breaks CJK text between characters', () => {
+    const lines = wrapText('光は直進する性質を持っています', 40, 200);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe('光は直進する性質を持っています');
+  });
+
+  it('shrinks the font until every paragraph fits', () => {
+    const bullets = ['A fairly long bullet point about refraction', 'Short'];
+    const fitted = fitText(bullets, {
+      maxWidth: 500,
+      maxHeight: 150,
+      maxFontSize: 60,
+      minFontSize: 20,
+    });
+
+    expect(fitted.truncated).toBe(false);
+    expect(fitted.fontSize).toBeLessThan(60);
+    expect(fitted.paragraphs.flat().join(' ')).toBe(bullets.join(' '));
+  });
+
+  it('truncates with an ellipsis when even the minimum size overflows', () => {
+    const fitted = fitText(['word '.repeat(200)], {
+      maxWidth: 300,
+      maxHeight: 100,
+      maxFontSize: 30,
+      minFontSize: 20,
+    });
+
+    expect(fitted.truncated).toBe(true);
+    expect(fitted.paragraphs[0].length * fitted.lineHeight).toBeLessThanOrEqual(
+      100,
+    );
+    expect(fitted.paragraphs[0].at(-1)?.endsWith('…')).toBe(true);
+  });
+
+  it('detects the script that needs a dedicated font', () => {
+    expect(detectScript('Ça va, Ελλάδα, Привет')).toBe('latin');
+    expect(detectScript('Lesson 1: الضوء')).toBe('arabic');
+    expect(detectScript('प्रकाश')).toBe('devanagari');
+    expect(detectScript('光の反射')).toBe('cjk');
+  });
+
+  it('escapes filter values for both filter-graph parsing levels', () => {
+    expect(escapeFilterValue("/tmp/it's: [a],b;c")).toBe(
+      "/tmp/it\\\\\\'s\\\\: \\[a\\]\\,b\\;c",
+    );
+  });
+});
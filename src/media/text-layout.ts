@@ -0,0 +1,155 @@
+// Advance widths in em for a generic sans-serif. Without a shaping library we can't read real
+// font metrics, so these err slightly wide: text may wrap a little early but never overflows.
+const NARROW = new Set("iIjl.,:;|!'`·");
+const WIDE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303f\uff00-\uffef]/u;
+const COMBINING = /\p{M}/u;
+
+function charWidth(ch: string) {
+  if (COMBINING.test(ch)) return 0;
+  if (WIDE.test(ch)) return 1;
+  if (ch === ' ') return 0.3;
+  if (NARROW.has(ch)) return 0.3;
+  if (/[mwMW@%]/.test(ch)) return 0.9;
+  if (/[A-Z0-9]/.test(ch)) return 0.68;
+  return 0.58;
+}
+
+/** Estimated rendered width of `text` in pixels at `fontSize`. */
+export function measureText(text: string, fontSize: number) {
+  let em = 0;
+  for (const ch of text) em += charWidth(ch);
+  return em * fontSize;
+}
+
+// Words, single CJK characters (which may break anywhere) and runs of whitespace.
+const TOKENS =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+|\s+/gu;
+
+function breakLongToken(token: string, fontSize: number, maxWidth: number) {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const ch of token) {
+    if (piece && measureText(piece + ch, fontSize) > maxWidth) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += ch;
+  }
+  if (piece) pieces.push(piece);
+  return pieces;
+}
+
+/** Greedy word wrap; words longer than a whole line are broken between characters. */
+export function wrapText(text: string, fontSize: number, maxWidth: number) {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of text.replace(/\s+/g, ' ').trim().match(TOKENS) ?? []) {
+    if (token.trim() === '') {
+      if (line) line += ' ';
+      continue;
+    }
+    if (measureText(line + token, fontSize) <= maxWidth) {
+      line += token;
+      continue;
+    }
+    if (line.trim()) lines.push(line.trimEnd());
+    line = '';
+    const pieces =
+      measureText(token, fontSize) > maxWidth
+        ? breakLongToken(token, fontSize, maxWidth)
+        : [token];
+    lines.push(...pieces.slice(0, -1));
+    line = pieces[pieces.length - 1];
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+export interface FitOptions {
+  maxWidth: number;
+  maxHeight: number;
+  maxFontSize: number;
+  minFontSize: number;
+  // Line height as a multiple of the font size.
+  lineSpacing?: number;
+  // Vertical gap between paragraphs as a multiple of the font size.
+  paragraphSpacing?: number;
+}
+
+export interface FittedText {
+  fontSize: number;
+  lineHeight: number;
+  paragraphGap: number;
+  // Wrapped lines for each input paragraph.
+  paragraphs: string[][];
+  // True when even the minimum font size overflowed and lines had to be dropped.
+  truncated: boolean;
+}
+
+function ellipsize(line: string, fontSize: number, maxWidth: number) {
+  let text = line;
+  while (text && measureText(`${text}…`, fontSize) > maxWidth) {
+    text = Array.from(text).slice(0, -1).join('');
+  }
+  return `${text.trimEnd()}…`;
+}
+
+/**
+ * Picks the largest font size at which every paragraph wraps into the box,
+ * stepping down to `minFontSize`. If it still doesn't fit, trailing lines
+ * are dropped and the last visible line ends with an ellipsis.
+ */
+export function fitText(paragraphs: string[], options: FitOptions): FittedText {
+  const lineSpacing = options.lineSpacing ?? 1.25;
+  const paragraphSpacing = options.paragraphSpacing ?? 0;
+  const layout = (fontSize: number) => {
+    const wrapped = paragraphs.map((p) =>
+      wrapText(p, fontSize, options.maxWidth),
+    );
+    const lineHeight = Math.round(fontSize * lineSpacing);
+    const paragraphGap = Math.round(fontSize * paragraphSpacing);
+    const lineCount = wrapped.reduce((n, lines) => n + lines.length, 0);
+    const height =
+      lineCount * lineHeight + Math.max(0, wrapped.length - 1) * paragraphGap;
+    return { fontSize, lineHeight, paragraphGap, paragraphs: wrapped, height };
+  };
+
+  for (let size = options.maxFontSize; size > options.minFontSize; size -= 2) {
+    const fitted = layout(size);
+    if (fitted.height <= options.maxHeight)
+      return { ...fitted, truncated: false };
+  }
+
+  const fitted = layout(options.minFontSize);
+  if (fitted.height <= options.maxHeight)
+    return { ...fitted, truncated: false };
+
+  // Keep whole lines while they fit, then mark the cut.
+  let used = 0;
+  const kept: string[][] = [];
+  outer: for (const lines of fitted.paragraphs) {
+    const gap = kept.length > 0 ? fitted.paragraphGap : 0;
+    const visible: string[] = [];
+    for (const line of lines) {
+      const extra = (visible.length === 0 ? gap : 0) + fitted.lineHeight;
+      if (used + extra > options.maxHeight) {
+        if (visible.length > 0) kept.push(visible);
+        break outer;
+      }
+      used += extra;
+      visible.push(line);
+    }
+    kept.push(visible);
+  }
+  const last = kept[kept.length - 1];
+  if (last?.length) {
+    last[last.length - 1] = ellipsize(
+      last[last.length - 1],
+      fitted.fontSize,
+      options.maxWidth,
+    );
+  }
+  return { ...fitted, paragraphs: kept, truncated: true };
+}
@@ -0,0 +1,126 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  BUILT_IN_HOSTS,
+  DEFAULT_PODCAST_FORMAT,
+  HostPersona,
+  hostPersonaSchema,
+  isPodcastFormat,
+  MAX_SPEAKERS,
+  PODCAST_FORMATS,
+} from './podcast-hosts';
+
+// A configured persona by name, or a one-off persona defined in the request.
+export type HostChoice = string | HostPersona;
+
+const describe = (error: z.ZodError) =>
+  error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
+
+/**
+ * Built-in host personas plus any from the JSON array in PODCAST_HOSTS_FILE
+ * (a persona with a built-in name replaces it), and the episode formats they
+ * can be cast into.
+ */
+@Injectable()
+export class PodcastHostsService {
+  private readonly personas = new Map<string, HostPersona>();
+
+  constructor(config: ConfigService) {
+    for (const persona of BUILT_IN_HOSTS) this.add(persona);
+
+    const file = config.get<string>('PODCAST_HOSTS_FILE');
+    if (file) this.loadFile(path.resolve(file));
+  }
+
+  list() {
+    return [...this.personas.values()];
+  }
+
+  formats() {
+    return Object.entries(PODCAST_FORMATS).map(([name, format]) => ({
+      name,
+      hosts: format.hosts,
+      minSpeakers: format.speakers[0],
+      maxSpeakers: format.speakers[1],
+      description: format.brief,
+    }));
+  }
+
+  /** Validates a request's format and hosts, filling in the format's default cast. */
+  cast(format?: string, hosts?: HostChoice[]) {
+    const name = format ?? DEFAULT_PODCAST_FORMAT;
+    if (!isPodcastFormat(name)) {
+      throw new BadRequestException(
+        `Unknown podcast format "${name}". Supported: ${Object.keys(PODCAST_FORMATS).join(', ')}`,
+      );
+    }
+    if (hosts !== undefined && !Array.isArray(hosts)) {
+      throw new BadRequestException('hosts must be an array');
+    }
+
+    const choices: readonly HostChoice[] = hosts?.length
+      ? hosts
+      : PODCAST_FORMATS[name].hosts;
+    const cast = choices.map((choice) => this.persona(choice));
+    const [min, max] = PODCAST_FORMATS[name].speakers;
+    if (cast.length < min || cast.length > Math.min(max, MAX_SPEAKERS)) {
+      throw new BadRequestException(
+        min === max
+          ? `The ${name} format needs exactly ${min} host${min === 1 ? '' : 's'}`
+          : `The ${name} format needs ${min} to ${max} hosts`,
+      );
+    }
+    const names = new Set(cast.map((h) => h.name.toLowerCase()));
+    if (names.size !== cast.length) {
+      throw new BadRequestException('Host names must be unique');
+    }
+    return { format: name, hosts: cast };
+  }
+
+  private persona(choice: HostChoice) {
+    if (typeof choice === 'string') {
+      const persona = this.personas.get(choice.toLowerCase());
+      if (!persona) {
+        throw new BadRequestException(
+          `Unknown podcast host "${choice}". Available: ${this.list()
+            .map((h) => h.name)
+            .join(', ')}`,
+        );
+      }
+      return persona;
+    }
+    const result = hostPersonaSchema.safeParse(choice);
+    if (!result.success) {
+      throw new BadRequestException(
+        `Invalid podcast host: ${describe(result.error)}`,
+      );
+    }
+    return result.data;
+  }
+
+  private add(persona: HostPersona) {
+    this.personas.set(persona.name.toLowerCase(), persona);
+  }
+
+  private loadFile(file: string) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      throw new Error(
+        `Invalid podcast hosts file ${file}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+    const result = z.array(hostPersonaSchema).safeParse(raw);
+    if (!result.success) {
+      throw new Error(
+        `Invalid podcast hosts file ${file}: ${describe(result.error)}`,
+      );
+    }
+    result.data.forEach((persona) => this.add(persona));
+    console.log(`🎙️ Loaded ${result.data.length} podcast hosts from ${file}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { languageFor } from '../localization/languages';
+import { assignVoices, castPrompt } from './podcast-hosts';
+import { PodcastHostsService } from './podcast-hosts.service';
+
+describe('podcast hosts', () => {
+  const service = new PodcastHostsService(new ConfigService());
+
+  it("casts the format's default hosts when none are requested", () => {
+    expect(service.cast().format).toBe('conversation');
+    expect(service.cast().hosts.map((h) => h.name)).toEqual(['Alex', 'Sam']);
+    expect(service.cast('lecture').hosts.map((h) => h.name)).toEqual(['Sam']);
+  });
+
+  it('mixes configured names with one-off personas', () => {
+    const { hosts } = service.cast('debate', [
+      'jordan',
+      { name: 'Dr. Okafor', personality: 'measured', voice: 'Orus' },
+      'Riley',
+    ]);
+    expect(hosts.map((h) => h.name)).toEqual(['Jordan', 'Dr. Okafor', 'Riley']);
+  });
+
+  it.each([
+    ['unknown format', 'panel', undefined],
+    ['unknown host', 'conversation', ['Alex', 'Nobody']],
+    ['too many for the format', 'lecture', ['Alex', 'Sam']],
+    [
+      'more than four speakers',
+      'quiz',
+      ['Alex', 'Sam', 'Jordan', 'Riley', { name: 'Kim', personality: 'shy' }],
+    ],
+    ['duplicate names', 'interview', ['Alex', 'alex']],
+    [
+      'a colon in a name',
+      'interview',
+      ['Alex', { name: 'Q: A', personality: 'x' }],
+    ],
+  ])('rejects %s', (_case, format, hosts) => {
+    expect(() => service.cast(format, hosts)).toThrow(BadRequestException);
+  });
+
+  it('loads personas from PODCAST_HOSTS_FILE, replacing built-ins by name', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hosts-'));
+    const file = path.join(dir, 'hosts.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify([
+        { name: 'Sam', personality: 'dry humour', voice: 'Iapetus' },
+        { name: 'Nia', personality: 'storyteller' },
+      ]),
+    );
+    try {
+      const configured = new PodcastHostsService(
+        new ConfigService({ PODCAST_HOSTS_FILE: file }),
+      );
+      expect(configured.cast('lecture').hosts).toEqual([
+        { name: 'Sam', personality: 'dry humour', voice: 'Iapetus' },
+      ]);
+      expect(configured.cast('quiz', ['Nia']).hosts[0].name).toBe('Nia');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('names the hosts file when it is missing or not JSON', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hosts-'));
+    const broken = path.join(dir, 'hosts.json');
+    fs.writeFileSync(broken, '[{ "name": ');
+    const load = (file: string) => () =>
+      new PodcastHostsService(new ConfigService({ PODCAST_HOSTS_FILE: file }));
+    try {
+      expect(load(broken)).toThrow(`Invalid podcast hosts file ${broken}: `);
+      const missing = path.join(dir, 'missing.json');
+      expect(load(missing)).toThrow(`Invalid podcast hosts file ${missing}: `);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('gives every host a distinct voice, keeping chosen ones', () => {
+    const english = languageFor('en');
+    const hosts = assignVoices(
+      [
+        { name: 'A', personality: 'a' },
+        { name: 'B', personality: 'b', voice: 'Puck' },
+        { name: 'C', personality: 'c' },
+        { name: 'D', personality: 'd' },
+      ],
+      english,
+    );
+    const voices = hosts.map((h) => h.voice);
+    expect(voices[1]).toBe('Puck');
+    expect(new Set(voices).size).toBe(4);
+    expect(
+      assignVoices([{ name: 'A', personality: 'a' }], english)[0].voice,
+    ).toBe(english.voices.narrator);
+  });
+
+  it('describes the cast and its speaker labels to the script writer', () => {
+    const prompt = castPrompt('lecture', [
+      { name: 'Sam', personality: 'calm' },
+    ]);
+    expect(prompt).toContain('The narrator is Sam (calm).');
+    expect(prompt).toContain('Sam: [text]');
+    expect(prompt).toContain('as a monologue');
+  });
+});
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { Language } from '../localization/languages';
+
+// Names become `Name:` speaker labels in the script, so no colons or line breaks.
+export const hostPersonaSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(40)
+    .regex(/^[\p{L}\p{N} .'-]+$/u, "letters, digits, spaces and .'- only"),
+  personality: z.string().trim().min(1).max(300),
+  // Gemini prebuilt voice; picked per language when omitted.
+  voice: z.string().trim().min(1).optional(),
+});
+
+export type HostPersona = z.infer<typeof hostPersonaSchema>;
+
+// A persona with the voice it will be synthesized with.
+export type PodcastHost = HostPersona & { voice: string };
+
+export const BUILT_IN_HOSTS: HostPersona[] = [
+  { name: 'Alex', personality: 'enthusiastic, curious; sounds youthful' },
+  { name: 'Sam', personality: 'expert, calm; sounds mature and authoritative' },
+  { name: 'Jordan', personality: 'sceptical, witty; plays devil’s advocate' },
+  {
+    name: 'Riley',
+    personality: 'warm, practical; connects ideas to everyday life',
+  },
+];
+
+export const MAX_SPEAKERS = 4;
+
+export const PODCAST_FORMATS = {
+  conversation: {
+    hosts: ['Alex', 'Sam'],
+    speakers: [2, 4],
+    brief:
+      'A friendly conversation in which the hosts explore the topic together, asking and answering each other’s questions.',
+  },
+  interview: {
+    hosts: ['Alex', 'Sam'],
+    speakers: [2, 4],
+    brief:
+      'The first host interviews the others as guest experts: open questions, clear answers and follow-ups that dig deeper.',
+  },
+  debate: {
+    hosts: ['Sam', 'Jordan'],
+    speakers: [2, 4],
+    brief:
+      'The hosts take opposing positions on the open questions of the topic, argue with evidence, concede good points, and end on what the evidence supports.',
+  },
+  lecture: {
+    hosts: ['Sam'],
+    speakers: [1, 1],
+    brief:
+      'A single narrator delivers a clear, engaging lecture, with examples and a recap.',
+  },
+  quiz: {
+    hosts: ['Alex', 'Sam'],
+    speakers: [1, 4],
+    brief:
+      'A Q&A quiz: the first host asks questions about the lesson; the others answer (or, when the host is alone, the listener is given a moment to think), then the host explains the correct answer.',
+  },
+} as const satisfies Record<
+  string,
+  {
+    // Built-in personas cast when the request names none
+    hosts: readonly string[];
+    // Inclusive range of speakers the format works with
+    speakers: readonly [number, number];
+    brief: string;
+  }
+>;
+
+export type PodcastFormat = keyof typeof PODCAST_FORMATS;
+export const DEFAULT_PODCAST_FORMAT: PodcastFormat = 'conversation';
+
+export const isPodcastFormat = (value: string): value is PodcastFormat =>
+  Object.hasOwn(PODCAST_FORMATS, value);
+
+// Used once the language's own host voices are taken, so every speaker sounds different.
+const VOICE_POOL = [
+  'Puck',
+  'Charon',
+  'Kore',
+  'Fenrir',
+  'Leda',
+  'Orus',
+  'Aoede',
+  'Zephyr',
+];
+
+/** Gives every host a distinct voice, preferring the persona's own, then the language's host voices. */
+export function assignVoices(
+  hosts: HostPersona[],
+  language: Language,
+): PodcastHost[] {
+  const taken = new Set(hosts.flatMap((h) => (h.voice ? [h.voice] : [])));
+  const own =
+    hosts.length === 1
+      ? [language.voices.narrator, ...language.voices.hosts]
+      : [...language.voices.hosts, language.voices.narrator];
+  const candidates = [...own, ...VOICE_POOL];
+  return hosts.map((host) => {
+    if (host.voice) return { ...host, voice: host.voice };
+    const voice = candidates.find((v) => !taken.has(v)) ?? candidates[0];
+    taken.add(voice);
+    return { ...host, voice };
+  });
+}
+
+// Script-writing instructions that describe the cast and the format.
+export function castPrompt(format: PodcastFormat, hosts: HostPersona[]) {
+  const cast = hosts.map((h) => `${h.name} (${h.personality})`).join(', ');
+  const labels = hosts.map((h) => `"${h.name}:"`).join(', ');
+  const example = hosts.map((h) => `${h.name}: [text]`).join('\n');
+  return `Format: ${PODCAST_FORMATS[format].brief}
+${hosts.length === 1 ? `The narrator is ${cast}.` : `The hosts are ${cast}.`}
+Format the output strictly as ${hosts.length === 1 ? 'a monologue' : 'a dialogue'}, one turn per line, like this:
+${example}
+Use only the ${labels} speaker label${hosts.length === 1 ? '' : 's'}, exactly as written.`;
+}
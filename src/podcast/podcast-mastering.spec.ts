@@ -0,0 +1,73 @@
+import { PCM_SAMPLE_RATE } from '../generative/generative-provider';
+import { ffmetadata, joinSpeech, masteringFilter } from './podcast-mastering';
+
+const pcm = (seconds: number) => Buffer.alloc(seconds * PCM_SAMPLE_RATE * 2);
+const loudness = { integrated: -16, truePeak: -1.5, range: 11 };
+
+describe('podcast mastering', () => {
+  it('joins chunks with pauses and reports each segment span', () => {
+    const speech = joinSpeech([[pcm(2), pcm(3)], [pcm(4)]], {
+      chunk: 0.5,
+      segment: 1,
+    });
+
+    expect(speech.spans).toEqual([
+      { start: 0, end: 5.5 },
+      { start: 6.5, end: 10.5 },
+    ]);
+    expect(speech.chunkSpans[0][1]).toEqual({ start: 2.5, end: 5.5 });
+    expect(speech.duration).toBe(10.5);
+    expect(speech.pcm.length).toBe(10.5 * PCM_SAMPLE_RATE * 2);
+  });
+
+  it('only normalizes loudness when there is no music', () => {
+    const master = masteringFilter({
+      speechSeconds: 300,
+      loudness,
+      introLead: 4,
+      outroTail: 6,
+    });
+
+    expect(master.filter).toMatch(
+      /^\[0:a\].*loudnorm=I=-16:TP=-1.5:LRA=11\[out\]$/,
+    );
+    expect(master).toMatchObject({ speechOffset: 0, duration: 300 });
+  });
+
+  it('delays speech after the intro and ducks both beds under it', () => {
+    const master = masteringFilter({
+      speechSeconds: 300,
+      loudness,
+      intro: { input: '1:a', seconds: 15 },
+      outro: { input: '2:a', seconds: 15 },
+      introLead: 4,
+      outroTail: 6,
+    });
+
+    expect(master).toMatchObject({ speechOffset: 4, duration: 310 });
+    expect(master.filter).toContain('adelay=4000:all=1');
+    // The outro bed starts 15s before the end of the episode
+    expect(master.filter).toContain('adelay=295000:all=1[outro]');
+    expect(master.filter).toContain('[bed][key]sidechaincompress');
+    expect(master.filter).toMatch(/loudnorm=[^;]*\[out\]$/);
+  });
+
+  it('writes escaped tags and millisecond chapters', () => {
+    const doc = ffmetadata({ title: 'Cells; the #1 topic' }, [
+      { title: 'Intro', start: 0, end: 61.25 },
+    ]);
+
+    expect(doc).toBe(
+      [
+        ';FFMETADATA1',
+        'title=Cells\\; the \\#1 topic',
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        'START=0',
+        'END=61250',
+        'title=Intro',
+        '',
+      ].join('\n'),
+    );
+  });
+});
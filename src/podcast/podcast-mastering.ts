@@ -0,0 +1,181 @@
+import {
+  PCM_CHANNELS,
+  PCM_SAMPLE_RATE,
+} from '../generative/generative-provider';
+
+const PCM_BYTES_PER_SECOND = PCM_SAMPLE_RATE * PCM_CHANNELS * 2;
+
+export interface Chapter {
+  title: string;
+  start: number; // seconds
+  end: number;
+}
+
+export interface SpeechGaps {
+  // Silence between TTS chunks of one segment, and between segments.
+  chunk: number;
+  segment: number;
+}
+
+function silence(seconds: number) {
+  const bytes = Math.round(seconds * PCM_SAMPLE_RATE) * PCM_CHANNELS * 2;
+  return Buffer.alloc(bytes);
+}
+
+export const pcmSeconds = (pcm: Buffer) => pcm.length / PCM_BYTES_PER_SECOND;
+
+export interface Span {
+  start: number; // seconds
+  end: number;
+}
+
+/**
+ * Joins per-segment TTS chunks into one PCM track with short pauses, and
+ * reports where each segment (for chapters) and chunk (for transcript
+ * timing) starts and ends.
+ */
+export function joinSpeech(segments: Buffer[][], gaps: SpeechGaps) {
+  const parts: Buffer[] = [];
+  const spans: Span[] = [];
+  const chunkSpans: Span[][] = [];
+  let position = 0;
+
+  segments.forEach((chunks, s) => {
+    if (s > 0) {
+      parts.push(silence(gaps.segment));
+      position += gaps.segment;
+    }
+    const start = position;
+    const timed: Span[] = [];
+    chunks.forEach((chunk, c) => {
+      if (c > 0) {
+        parts.push(silence(gaps.chunk));
+        position += gaps.chunk;
+      }
+      parts.push(chunk);
+      timed.push({ start: position, end: position + pcmSeconds(chunk) });
+      position += pcmSeconds(chunk);
+    });
+    spans.push({ start, end: position });
+    chunkSpans.push(timed);
+  });
+
+  return { pcm: Buffer.concat(parts), spans, chunkSpans, duration: position };
+}
+
+export interface LoudnessTarget {
+  // Integrated loudness (LUFS), true peak (dBTP) and loudness range (LU) for ffmpeg's EBU R128 `loudnorm`.
+  integrated: number;
+  truePeak: number;
+  range: number;
+}
+
+export interface MusicBed {
+  // Filter graph input, e.g. `1:a`.
+  input: string;
+  // How long the bed plays, capped to the music file's length by the caller.
+  seconds: number;
+}
+
+export interface MasteringOptions {
+  speechSeconds: number;
+  loudness: LoudnessTarget;
+  intro?: MusicBed;
+  outro?: MusicBed;
+  // Music heard on its own before the first line and after the last one.
+  introLead: number;
+  outroTail: number;
+}
+
+const FORMAT =
+  'aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo';
+
+const fmt = (n: number) => Number(n.toFixed(3)).toString();
+
+function bedFilter(bed: MusicBed, startAt: number, label: string) {
+  const fade = Math.min(3, bed.seconds / 3);
+  const delay = Math.round(startAt * 1000);
+  return (
+    `[${bed.input}]${FORMAT},atrim=0:${fmt(bed.seconds)},asetpts=PTS-STARTPTS,` +
+    `afade=t=in:d=${fmt(Math.min(0.5, fade))},afade=t=out:st=${fmt(bed.seconds - fade)}:d=${fmt(fade)}` +
+    (delay > 0 ? `,adelay=${delay}:all=1` : '') +
+    `[${label}]`
+  );
+}
+
+/**
+ * Filter graph (speech on input `0:a`, output `[out]`) that lays optional
+ * intro/outro music beds under the speech, ducks them with a sidechain
+ * compressor whenever someone talks, and loudness-normalizes the mix.
+ * `speechOffset` is where the speech starts in the master, for chapter times.
+ */
+export function masteringFilter(options: MasteringOptions) {
+  const { loudness, intro, outro, speechSeconds } = options;
+  const loudnorm = `loudnorm=I=${loudness.integrated}:TP=${loudness.truePeak}:LRA=${loudness.range}`;
+  const speechOffset = intro ? options.introLead : 0;
+  const speechEnd = speechOffset + speechSeconds;
+  const duration = speechEnd + (outro ? options.outroTail : 0);
+
+  if (!intro && !outro) {
+    return {
+      filter: `[0:a]${FORMAT},${loudnorm}[out]`,
+      speechOffset,
+      duration,
+    };
+  }
+
+  const steps = [
+    `[0:a]${FORMAT}` +
+      (speechOffset > 0
+        ? `,adelay=${Math.round(speechOffset * 1000)}:all=1`
+        : '') +
+      `,apad=whole_dur=${fmt(duration)},asplit=2[voice][key]`,
+  ];
+  const beds: string[] = [];
+  if (intro) {
+    steps.push(bedFilter(intro, 0, 'intro'));
+    beds.push('[intro]');
+  }
+  if (outro) {
+    // The outro ends with the episode, swelling in under the closing lines
+    const start = Math.max(speechOffset, duration - outro.seconds);
+    steps.push(
+      bedFilter({ ...outro, seconds: duration - start }, start, 'outro'),
+    );
+    beds.push('[outro]');
+  }
+  steps.push(
+    beds.length > 1
+      ? `${beds.join('')}amix=inputs=2:duration=longest:normalize=0[bed]`
+      : `${beds[0]}anull[bed]`,
+    `[bed][key]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=500[ducked]`,
+    `[voice][ducked]amix=inputs=2:duration=first:normalize=0,${loudnorm}[out]`,
+  );
+
+  return { filter: steps.join(';'), speechOffset, duration };
+}
+
+const escapeMetadata = (value: string) =>
+  value.replace(/[\\=;#\n]/g, (c) => (c === '\n' ? '\\\n' : `\\${c}`));
+
+/**
+ * An FFMETADATA1 document with global tags and chapters. Fed to ffmpeg
+ * alongside the audio, the MP3 muxer writes the tags as ID3v2 frames and the
+ * chapters as CHAP frames.
+ */
+export function ffmetadata(tags: Record<string, string>, chapters: Chapter[]) {
+  const lines = [';FFMETADATA1'];
+  for (const [key, value] of Object.entries(tags)) {
+    lines.push(`${key}=${escapeMetadata(value)}`);
+  }
+  for (const chapter of chapters) {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escapeMetadata(chapter.title)}`,
+    );
+  }
+  return lines.join('\n') + '\n';
+}
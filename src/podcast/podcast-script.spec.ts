@@ -0,0 +1,67 @@
+import {
+  chunkTurns,
+  formatTurns,
+  parseTurns,
+  speechChunks,
+} from './podcast-script';
+
+describe('podcast script', () => {
+  const speakers = ['Alex', 'Sam'];
+
+  it('parses speaker turns, ignoring preamble and markdown around names', () => {
+    const transcript = [
+      '# Episode 4',
+      '**Alex:** Welcome back!',
+      'Today is a big one.',
+      '',
+      'sam: Thanks, Alex.',
+      '- **Sam**: Let us begin.',
+    ].join('\n');
+
+    expect(parseTurns(transcript, speakers)).toEqual([
+      { speaker: 'Alex', text: 'Welcome back! Today is a big one.' },
+      { speaker: 'Sam', text: 'Thanks, Alex.' },
+      { speaker: 'Sam', text: 'Let us begin.' },
+    ]);
+  });
+
+  it('packs turns into chunks that fit the character budget', () => {
+    const turns = Array.from({ length: 10 }, (_, i) => ({
+      speaker: i % 2 ? 'Sam' : 'Alex',
+      text: `Line number ${i} of the conversation.`,
+    }));
+
+    const chunks = chunkTurns(turns, 120);
+
+    expect(chunks.flat()).toEqual(turns);
+    for (const chunk of chunks) {
+      expect(formatTurns(chunk).length).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it('splits a turn that is longer than a whole chunk at sentence ends', () => {
+    const text = Array.from({ length: 6 }, (_, i) => `Sentence ${i}.`).join(
+      ' ',
+    );
+    const chunks = chunkTurns([{ speaker: 'Sam', text }], 40);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flat().every((turn) => turn.speaker === 'Sam')).toBe(true);
+    expect(
+      chunks
+        .flat()
+        .map((turn) => turn.text)
+        .join(' '),
+    ).toBe(text);
+  });
+
+  it('gives every turn its own chunk when more than two people speak', () => {
+    const turns = ['Alex', 'Sam', 'Jordan', 'Alex'].map((speaker) => ({
+      speaker,
+      text: `${speaker} says hi.`,
+    }));
+
+    expect(speechChunks(turns, 2, 1000)).toHaveLength(1);
+    expect(speechChunks(turns, 3, 1000)).toEqual(turns.map((t) => [t]));
+  });
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+
+// Conversational pace used to turn an episode length into a word budget.
+export const WORDS_PER_MINUTE = 150;
+
+export const MIN_EPISODE_MINUTES = 5;
+export const MAX_EPISODE_MINUTES = 30;
+export const DEFAULT_EPISODE_MINUTES = 10;
+
+export interface Turn {
+  speaker: string;
+  text: string;
+}
+
+// One chapter of roughly three minutes, at least three per episode.
+export function segmentCount(minutes: number) {
+  return Math.max(3, Math.round(minutes / 3));
+}
+
+const text = z.string().trim().min(1);
+
+export const podcastOutlineSchema = (segments: number) =>
+  z.object({
+    episode_title: text,
+    segments: z
+      .array(
+        z.object({
+          title: text,
+          key_points: z.array(text).min(1),
+        }),
+      )
+      .length(segments),
+  });
+
+export type PodcastOutline = z.infer<ReturnType<typeof podcastOutlineSchema>>;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits a `Speaker: line` transcript into turns. Markdown emphasis around
+ * names is ignored, unlabelled lines continue the previous turn, and lines
+ * before the first recognised speaker (titles, notes) are dropped.
+ */
+export function parseTurns(transcript: string, speakers: string[]): Turn[] {
+  const names = speakers.map(escapeRegExp).join('|');
+  const label = new RegExp(`^[\\s*_#>-]*(${names})[\\s*_]*:[\\s*_]*(.*)$`, 'i');
+  const canonical = new Map(speakers.map((s) => [s.toLowerCase(), s]));
+
+  const turns: Turn[] = [];
+  for (const raw of transcript.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = label.exec(line);
+    if (match) {
+      const speaker = canonical.get(match[1].toLowerCase())!;
+      turns.push({ speaker, text: match[2].trim() });
+    } else if (turns.length > 0) {
+      const last = turns[turns.length - 1];
+      last.text = `${last.text} ${line}`.trim();
+    }
+  }
+  return turns.filter((turn) => turn.text.length > 0);
+}
+
+export function formatTurns(turns: Turn[]) {
+  return turns.map((turn) => `${turn.speaker}: ${turn.text}`).join('\n');
+}
+
+// Breaks an over-long turn at sentence ends (or, failing that, words) so every piece fits.
+function splitTurn(turn: Turn, maxChars: number): Turn[] {
+  const budget = Math.max(1, maxChars - turn.speaker.length - 2);
+  if (turn.text.length <= budget) return [turn];
+
+  const sentences = turn.text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) ?? [
+    turn.text,
+  ];
+  const pieces: string[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = '';
+  };
+  for (const sentence of sentences) {
+    if ((current + sentence).length <= budget) {
+      current += sentence;
+      continue;
+    }
+    flush();
+    if (sentence.length <= budget) {
+      current = sentence;
+      continue;
+    }
+    for (const word of sentence.split(/\s+/).filter(Boolean)) {
+      if (current && (current + ' ' + word).length > budget) flush();
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  flush();
+  return pieces.map((piece) => ({ speaker: turn.speaker, text: piece }));
+}
+
+/**
+ * Groups consecutive turns into chunks whose formatted transcript stays
+ * within `maxChars`, the most a single TTS request should carry.
+ */
+export function chunkTurns(turns: Turn[], maxChars: number): Turn[][] {
+  const chunks: Turn[][] = [];
+  let chunk: Turn[] = [];
+  let size = 0;
+
+  for (const turn of turns.flatMap((t) => splitTurn(t, maxChars))) {
+    const length = turn.speaker.length + 2 + turn.text.length + 1;
+    if (chunk.length > 0 && size + length > maxChars) {
+      chunks.push(chunk);
+      chunk = [];
+      size = 0;
+    }
+    chunk.push(turn);
+    size += length;
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
+
+/**
+ * TTS chunks for a cast of `speakers`. Multi-speaker synthesis takes exactly
+ * two voices, so a duo shares requests and a solo narrator groups its lines;
+ * with three or four speakers every turn gets its own single-voice request.
+ */
+export function speechChunks(
+  turns: Turn[],
+  speakers: number,
+  maxChars: number,
+): Turn[][] {
+  if (speakers <= 2) return chunkTurns(turns, maxChars);
+  return turns.flatMap((turn) => chunkTurns([turn], maxChars));
+}
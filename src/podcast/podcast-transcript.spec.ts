@@ -0,0 +1,39 @@
+import { timeTurns, transcriptText, transcriptVtt } from './podcast-transcript';
+
+describe('podcast transcript', () => {
+  const chunks = [
+    [
+      { speaker: 'Alex', text: 'Welcome!' },
+      { speaker: 'Sam', text: 'Thanks for having me here.' },
+    ],
+    [{ speaker: 'Alex', text: 'Let us dive in.' }],
+  ];
+  const spans = [
+    { start: 0, end: 10.2 },
+    { start: 10.55, end: 13 },
+  ];
+
+  it('shares each chunk between its turns by length, after the intro offset', () => {
+    const turns = timeTurns(chunks, spans, 4);
+
+    expect(turns.map((t) => [t.speaker, t.start])).toEqual([
+      ['Alex', 4],
+      ['Sam', 4 + (10.2 * 8) / 34],
+      ['Alex', 14.55],
+    ]);
+    expect(turns[1].end).toBe(14.2);
+    expect(turns[2].end).toBe(17);
+  });
+
+  it('renders plain text with timestamps and WebVTT with voice spans', () => {
+    const turns = timeTurns(chunks, spans, 4);
+
+    expect(transcriptText(turns)).toContain('[00:00:14] Alex: Let us dive in.');
+    const vtt = transcriptVtt([
+      { speaker: 'Sam', text: 'Use <b> & </b>.', start: 0, end: 3 },
+    ]);
+    expect(vtt).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:03.000\n<v Sam>Use &lt;b&gt; &amp; &lt;/b&gt;.\n',
+    );
+  });
+});
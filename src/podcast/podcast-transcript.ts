@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { narrationCues, toWebVtt } from '../captions/captions';
+import { PodcastTranscriptTurn } from '../repositories/entities';
+import { Span } from './podcast-mastering';
+import { Turn } from './podcast-script';
+
+export const TRANSCRIPT_FORMATS = ['json', 'txt', 'vtt'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+const text = z.string().trim().min(1);
+
+export const showNotesSchema = z.object({
+  summary: text,
+  key_terms: z
+    .array(z.object({ term: text, definition: text }))
+    .min(1)
+    .max(15),
+});
+
+/**
+ * Times each turn against the audio of the TTS chunk it was spoken in. The
+ * chunk's duration is shared out in proportion to each turn's length, which
+ * is close enough to seek to a turn without forced alignment.
+ */
+export function timeTurns(
+  chunks: Turn[][],
+  spans: Span[],
+  offset = 0,
+): PodcastTranscriptTurn[] {
+  return chunks.flatMap((turns, i) => {
+    const { start, end } = spans[i];
+    const total = turns.reduce((n, turn) => n + turn.text.length, 0);
+    let cursor = start;
+    return turns.map((turn, t) => {
+      const turnEnd =
+        t === turns.length - 1
+          ? end
+          : cursor + ((end - start) * turn.text.length) / total;
+      const timed = {
+        speaker: turn.speaker,
+        text: turn.text,
+        start: offset + cursor,
+        end: offset + turnEnd,
+      };
+      cursor = turnEnd;
+      return timed;
+    });
+  });
+}
+
+function clock(seconds: number) {
+  const total = Math.max(0, Math.floor(seconds));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+export function transcriptText(turns: PodcastTranscriptTurn[]) {
+  return (
+    turns
+      .map((turn) => `[${clock(turn.start)}] ${turn.speaker}: ${turn.text}`)
+      .join('\n\n') + '\n'
+  );
+}
+
+// Caption-sized cues, each tagged with its speaker as a WebVTT voice span.
+export function transcriptVtt(turns: PodcastTranscriptTurn[]) {
+  return toWebVtt(
+    turns.flatMap((turn) =>
+      narrationCues(turn.text, turn.start, turn.end).map((cue) => ({
+        ...cue,
+        speaker: turn.speaker,
+      })),
+    ),
+  );
+}
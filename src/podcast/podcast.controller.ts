@@ -0,0 +1,88 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { LessonRepository } from '../repositories/repositories';
+import {
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  transcriptText,
+  transcriptVtt,
+} from './podcast-transcript';
+
+@Controller('lessons/:lessonId/podcast')
+export class PodcastController {
+  constructor(
+    private readonly lessons: LessonRepository,
+    private readonly access: AccessService,
+  ) {}
+
+  // ?format=json (default), txt or vtt
+  @Get('transcript')
+  async transcript(
+    @CurrentPrincipal() principal: Principal,
+    @Param('lessonId', ParseUUIDPipe) lessonId: string,
+    @Query('format') format: string = 'json',
+  ) {
+    await this.access.checkLessonReader(principal, lessonId);
+    if (!TRANSCRIPT_FORMATS.includes(format as TranscriptFormat)) {
+      throw new BadRequestException(
+        `format must be one of ${TRANSCRIPT_FORMATS.join(', ')}`,
+      );
+    }
+    const lesson = await this.lessons.findById(lessonId);
+    const turns = lesson?.podcastTranscript;
+    if (!lesson || !turns) {
+      throw new NotFoundException(
+        `Lesson ${lessonId} has no podcast transcript`,
+      );
+    }
+
+    switch (format as TranscriptFormat) {
+      case 'txt':
+        return new StreamableFile(Buffer.from(transcriptText(turns)), {
+          type: 'text/plain; charset=utf-8',
+        });
+      case 'vtt':
+        return new StreamableFile(Buffer.from(transcriptVtt(turns)), {
+          type: 'text/vtt; charset=utf-8',
+        });
+      default:
+        return {
+          lessonId,
+          duration: lesson.podcastDuration,
+          chapters: lesson.podcastChapters ?? [],
+          turns,
+          showNotes: lesson.podcastShowNotes,
+        };
+    }
+  }
+
+  @Get('show-notes')
+  async showNotes(
+    @CurrentPrincipal() principal: Principal,
+    @Param('lessonId', ParseUUIDPipe) lessonId: string,
+  ) {
+    await this.access.checkLessonReader(principal, lessonId);
+    const lesson = await this.lessons.findById(lessonId);
+    if (!lesson?.podcastShowNotes) {
+      throw new NotFoundException(
+        `Lesson ${lessonId} has no podcast show notes`,
+      );
+    }
+    return {
+      lessonId,
+      ...lesson.podcastShowNotes,
+      chapters: lesson.podcastChapters ?? [],
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { PodcastController } from './podcast.controller';
+import { PodcastHostsService } from './podcast-hosts.service';
+
+@Module({
+  imports: [AuthModule, RepositoriesModule],
+  controllers: [PodcastController],
+  providers: [PodcastHostsService],
+  exports: [PodcastHostsService],
+})
+export class PodcastModule {}
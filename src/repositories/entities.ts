@@ -0,0 +1,205 @@
+// Per-lesson generated assets. Each one has a `<asset>_status` column on the lessons table.
+export const LESSON_ASSETS = [
+  'video',
+  'podcast',
+  'comic',
+  'animated_video',
+] as const;
+export type LessonAsset = (typeof LESSON_ASSETS)[number];
+
+export type AssetStatus =
+  | 'processing'
+  // The generated script is waiting for a teacher's approval (review mode)
+  | 'awaiting_review'
+  | 'ready'
+  | 'failed';
+
+// Chapter marks of a podcast episode, in seconds from the start.
+export interface PodcastChapter {
+  title: string;
+  start: number;
+  end: number;
+}
+
+// One speaker turn of a podcast, timed against the published audio.
+export interface PodcastTranscriptTurn {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface PodcastShowNotes {
+  summary: string;
+  keyTerms: { term: string; definition: string }[];
+}
+
+// A re-voiced and re-captioned copy of the slide video that reuses its images.
+export interface VideoTranslation {
+  status: AssetStatus;
+  videoUrl: string | null;
+  manifest: unknown;
+  captionsVttUrl: string | null;
+  captionsSrtUrl: string | null;
+}
+
+export interface Lesson {
+  id: string;
+  videoUrl: string | null;
+  videoStatus: AssetStatus | null;
+  videoManifest: unknown;
+  videoCaptionsVttUrl: string | null;
+  videoCaptionsSrtUrl: string | null;
+  videoLanguage: string | null;
+  videoTranslations: Record<string, VideoTranslation> | null;
+  podcastUrl: string | null;
+  podcastDuration: number | null;
+  podcastChapters: PodcastChapter[] | null;
+  podcastSize: number | null; // bytes
+  podcastPublishedAt: string | null;
+  podcastTranscript: PodcastTranscriptTurn[] | null;
+  podcastShowNotes: PodcastShowNotes | null;
+  podcastStatus: AssetStatus | null;
+  comicPages: string[] | null;
+  // Storyboard plus each page's stored art, so single pages can be redrawn
+  comicManifest: unknown;
+  comicPdfUrl: string | null;
+  comicCbzUrl: string | null;
+  comicStatus: AssetStatus | null;
+  animatedVideoUrl: string | null;
+  // Script plus each scene's stored clip, so single scenes can be re-shot
+  animatedVideoManifest: unknown;
+  animatedVideoStatus: AssetStatus | null;
+}
+
+export type LessonChanges = Partial<Omit<Lesson, 'id'>>;
+
+// The Lesson field that tracks each asset's status.
+export const ASSET_STATUS_FIELD = {
+  video: 'videoStatus',
+  podcast: 'podcastStatus',
+  comic: 'comicStatus',
+  animated_video: 'animatedVideoStatus',
+} as const satisfies Record<LessonAsset, keyof Lesson>;
+
+// The fields a pipeline fills in when its asset becomes ready.
+export interface AssetOutputs {
+  video: Pick<
+    LessonChanges,
+    | 'videoUrl'
+    | 'videoManifest'
+    | 'videoCaptionsVttUrl'
+    | 'videoCaptionsSrtUrl'
+    | 'videoLanguage'
+  >;
+  podcast: Pick<
+    LessonChanges,
+    | 'podcastUrl'
+    | 'podcastDuration'
+    | 'podcastChapters'
+    | 'podcastSize'
+    | 'podcastPublishedAt'
+    | 'podcastTranscript'
+    | 'podcastShowNotes'
+  >;
+  comic: Pick<
+    LessonChanges,
+    'comicPages' | 'comicManifest' | 'comicPdfUrl' | 'comicCbzUrl'
+  >;
+  animated_video: Pick<
+    LessonChanges,
+    'animatedVideoUrl' | 'animatedVideoManifest'
+  >;
+}
+
+export interface Student {
+  id: string;
+  interests: string[];
+}
+
+export interface LessonPlan {
+  id: string;
+  title: string;
+  orderIndex: number;
+  status: string | null;
+}
+
+export interface CourseModule {
+  id: string;
+  title: string;
+  orderIndex: number;
+  lessonPlans: LessonPlan[];
+}
+
+export interface Course {
+  id: string;
+  title: string;
+  slideTheme: string | null;
+  // Auth user IDs allowed to manage the course and generate its lessons' assets.
+  ownerId: string | null;
+  teacherIds: string[];
+  modules: CourseModule[];
+}
+
+export interface SkillTree {
+  id: string;
+  courseId: string;
+}
+
+// Whether a node unlocks once every required parent is completed, or any one of them.
+export type UnlockRule = 'all' | 'any';
+
+export interface SkillNode {
+  id: string;
+  treeId: string;
+  lessonPlanId: string;
+  label: string;
+  x: number;
+  y: number;
+  // Lesson plan IDs of the parent nodes.
+  dependencies: string[];
+  // The lesson plan's status when the tree was generated; student progress is in SkillProgress.
+  status: string;
+  unlockRule: UnlockRule;
+  // Optional nodes never hold back the nodes that depend on them.
+  optional: boolean;
+  // Set when the lesson left the course; kept so student progress survives a return.
+  retiredAt: string | null;
+}
+
+export type NewSkillNode = Omit<SkillNode, 'id'>;
+
+export type SkillNodeChanges = Partial<
+  Omit<SkillNode, 'id' | 'treeId' | 'lessonPlanId'>
+>;
+
+export type SkillNodeSettings = Pick<
+  SkillNodeChanges,
+  'unlockRule' | 'optional'
+>;
+
+// A student's progress on one node; nodes without a record are locked or available.
+export interface SkillProgress {
+  treeId: string;
+  nodeId: string;
+  studentId: string;
+  status: 'in_progress' | 'completed';
+  updatedAt: string;
+}
+
+export type NewSkillProgress = Omit<SkillProgress, 'updatedAt'>;
+
+// A reference image of a recurring character, shared by a course's comics and videos.
+export interface CharacterSheet {
+  id: string;
+  // Null when the lesson it was drawn for isn't part of a course.
+  courseId: string | null;
+  lessonId: string;
+  description: string;
+  artStyle: string;
+  imageKey: string;
+  imageUrl: string;
+  createdAt: string;
+}
+
+export type NewCharacterSheet = Omit<CharacterSheet, 'id' | 'createdAt'>;
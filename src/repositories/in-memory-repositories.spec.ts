@@ -0,0 +1,58 @@
+import {
+  emptyLesson,
+  InMemoryLessonRepository,
+} from './in-memory-repositories';
+
+describe('LessonRepository status conventions', () => {
+  let lessons: InMemoryLessonRepository;
+
+  beforeEach(() => {
+    lessons = new InMemoryLessonRepository();
+    lessons.lessons.set('lesson-1', emptyLesson('lesson-1'));
+  });
+
+  it('moves an asset through processing, ready and failed', async () => {
+    await lessons.markProcessing('lesson-1', 'animated_video');
+    expect((await lessons.findById('lesson-1'))?.animatedVideoStatus).toBe(
+      'processing',
+    );
+
+    await lessons.markReady('lesson-1', 'comic', {
+      comicPages: ['p1.jpg', 'p2.jpg'],
+    });
+    const lesson = await lessons.findById('lesson-1');
+    expect(lesson).toMatchObject({
+      comicStatus: 'ready',
+      comicPages: ['p1.jpg', 'p2.jpg'],
+      animatedVideoStatus: 'processing',
+    });
+
+    await lessons.markFailed('lesson-1', 'animated_video');
+    expect((await lessons.findById('lesson-1'))?.animatedVideoStatus).toBe(
+      'failed',
+    );
+  });
+
+  it('keeps each video translation separate', async () => {
+    await lessons.updateVideoTranslation('lesson-1', 'es', {
+      status: 'ready',
+      videoUrl: 'es.mp4',
+    });
+    await lessons.updateVideoTranslation('lesson-1', 'fr', {});
+    await lessons.updateVideoTranslation('lesson-1', 'fr', {
+      status: 'failed',
+    });
+
+    const lesson = await lessons.findById('lesson-1');
+    expect(lesson?.videoTranslations).toMatchObject({
+      es: { status: 'ready', videoUrl: 'es.mp4' },
+      fr: { status: 'failed', videoUrl: null },
+    });
+    expect(lesson?.videoStatus).toBeNull();
+  });
+
+  it('ignores updates to unknown lessons', async () => {
+    await lessons.markProcessing('missing', 'video');
+    expect(await lessons.findById('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import {
+  CharacterSheet,
+  Course,
+  Lesson,
+  LessonChanges,
+  NewCharacterSheet,
+  NewSkillNode,
+  NewSkillProgress,
+  SkillNode,
+  SkillNodeChanges,
+  SkillProgress,
+  SkillTree,
+  Student,
+} from './entities';
+import {
+  byOrderIndex,
+  CharacterSheetRepository,
+  CourseRepository,
+  LessonRepository,
+  SkillTreeRepository,
+  StudentRepository,
+} from './repositories';
+
+// Process-local repositories for unit tests and offline development. Seed them via the public maps.
+
+export function emptyLesson(id: string): Lesson {
+  return {
+    id,
+    videoUrl: null,
+    videoStatus: null,
+    videoManifest: null,
+    videoCaptionsVttUrl: null,
+    videoCaptionsSrtUrl: null,
+    videoLanguage: null,
+    videoTranslations: null,
+    podcastUrl: null,
+    podcastDuration: null,
+    podcastChapters: null,
+    podcastSize: null,
+    podcastPublishedAt: null,
+    podcastTranscript: null,
+    podcastShowNotes: null,
+    podcastStatus: null,
+    comicPages: null,
+    comicManifest: null,
+    comicPdfUrl: null,
+    comicCbzUrl: null,
+    comicStatus: null,
+    animatedVideoUrl: null,
+    animatedVideoManifest: null,
+    animatedVideoStatus: null,
+  };
+}
+
+export class InMemoryLessonRepository extends LessonRepository {
+  readonly lessons = new Map<string, Lesson>();
+
+  findById(id: string) {
+    const lesson = this.lessons.get(id);
+    return Promise.resolve(lesson && structuredClone(lesson));
+  }
+
+  findByIds(ids: string[]) {
+    const found = ids.flatMap((id) => {
+      const lesson = this.lessons.get(id);
+      return lesson ? [structuredClone(lesson)] : [];
+    });
+    return Promise.resolve(found);
+  }
+
+  update(id: string, changes: LessonChanges) {
+    // Like an UPDATE ... WHERE, unknown lessons are left alone.
+    const lesson = this.lessons.get(id);
+    if (lesson) {
+      const defined = Object.entries(changes).filter(
+        ([, v]) => v !== undefined,
+      );
+      Object.assign(lesson, structuredClone(Object.fromEntries(defined)));
+    }
+    return Promise.resolve();
+  }
+}
+
+export class InMemoryStudentRepository extends StudentRepository {
+  readonly students = new Map<string, Student>();
+
+  findById(id: string) {
+    const student = this.students.get(id);
+    return Promise.resolve(student && structuredClone(student));
+  }
+}
+
+export class InMemoryCourseRepository extends CourseRepository {
+  readonly courses = new Map<string, Course>();
+  // Student IDs enrolled in each course
+  readonly enrollments = new Map<string, string[]>();
+
+  findById(id: string) {
+    const stored = this.courses.get(id);
+    if (!stored) return Promise.resolve(undefined);
+
+    const course = structuredClone(stored);
+    course.modules.sort(byOrderIndex);
+    for (const m of course.modules) m.lessonPlans.sort(byOrderIndex);
+    return Promise.resolve(course);
+  }
+
+  findByLesson(lessonId: string) {
+    const course = [...this.courses.values()].find((c) =>
+      c.modules.some((m) => m.lessonPlans.some((l) => l.id === lessonId)),
+    );
+    return course ? this.findById(course.id) : Promise.resolve(undefined);
+  }
+
+  hasStudent(courseId: string, studentId: string) {
+    const students = this.enrollments.get(courseId) ?? [];
+    return Promise.resolve(students.includes(studentId));
+  }
+}
+
+export class InMemorySkillTreeRepository extends SkillTreeRepository {
+  readonly trees = new Map<string, SkillTree>();
+  readonly nodes = new Map<string, SkillNode>();
+  // Keyed by `${nodeId}:${studentId}`
+  readonly progress = new Map<string, SkillProgress>();
+
+  findById(id: string) {
+    const tree = this.trees.get(id);
+    return Promise.resolve(tree && { ...tree });
+  }
+
+  findByCourse(courseId: string) {
+    const tree = [...this.trees.values()].find((t) => t.courseId === courseId);
+    return Promise.resolve(tree && { ...tree });
+  }
+
+  create(courseId: string) {
+    const tree: SkillTree = { id: randomUUID(), courseId };
+    this.trees.set(tree.id, tree);
+    return Promise.resolve({ ...tree });
+  }
+
+  findNodes(treeId: string) {
+    const nodes = [...this.nodes.values()].filter((n) => n.treeId === treeId);
+    return Promise.resolve(structuredClone(nodes));
+  }
+
+  insertNodes(nodes: NewSkillNode[]) {
+    const inserted = nodes.map((node) => ({
+      ...structuredClone(node),
+      id: randomUUID(),
+    }));
+    for (const node of inserted) this.nodes.set(node.id, node);
+    return Promise.resolve(structuredClone(inserted));
+  }
+
+  updateNode(id: string, changes: SkillNodeChanges) {
+    const node = this.nodes.get(id);
+    if (node) {
+      const defined = Object.entries(changes).filter(
+        ([, v]) => v !== undefined,
+      );
+      Object.assign(node, structuredClone(Object.fromEntries(defined)));
+    }
+    return Promise.resolve();
+  }
+
+  findProgress(treeId: string, studentId: string) {
+    const found = [...this.progress.values()].filter(
+      (p) => p.treeId === treeId && p.studentId === studentId,
+    );
+    return Promise.resolve(structuredClone(found));
+  }
+
+  saveProgress(progress: NewSkillProgress) {
+    const saved: SkillProgress = {
+      ...progress,
+      updatedAt: new Date().toISOString(),
+    };
+    this.progress.set(`${progress.nodeId}:${progress.studentId}`, saved);
+    return Promise.resolve({ ...saved });
+  }
+}
+
+export class InMemoryCharacterSheetRepository extends CharacterSheetRepository {
+  readonly sheets = new Map<string, CharacterSheet>();
+
+  private newest(match: (sheet: CharacterSheet) => boolean) {
+    const found = [...this.sheets.values()]
+      .filter(match)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return Promise.resolve(structuredClone(found));
+  }
+
+  findByCourse(courseId: string) {
+    return this.newest((sheet) => sheet.courseId === courseId);
+  }
+
+  findByLesson(lessonId: string) {
+    return this.newest((sheet) => sheet.lessonId === lessonId);
+  }
+
+  create(sheet: NewCharacterSheet) {
+    const created: CharacterSheet = {
+      ...structuredClone(sheet),
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.sheets.set(created.id, created);
+    return Promise.resolve(structuredClone(created));
+  }
+}
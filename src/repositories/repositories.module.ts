@@ -0,0 +1,89 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  InMemoryCharacterSheetRepository,
+  InMemoryCourseRepository,
+  InMemoryLessonRepository,
+  InMemorySkillTreeRepository,
+  InMemoryStudentRepository,
+} from './in-memory-repositories';
+import {
+  CharacterSheetRepository,
+  CourseRepository,
+  LessonRepository,
+  SkillTreeRepository,
+  StudentRepository,
+} from './repositories';
+import {
+  SupabaseCharacterSheetRepository,
+  SupabaseCourseRepository,
+  SupabaseLessonRepository,
+  SupabaseSkillTreeRepository,
+  SupabaseStudentRepository,
+} from './supabase-repositories';
+
+const DATABASE_CLIENT = 'DATABASE_CLIENT';
+
+// REPOSITORY_DRIVER=memory keeps everything in process (tests, offline runs); the default is Supabase.
+function repository<T>(
+  token: abstract new (...args: any[]) => T,
+  supabase: new (client: SupabaseClient<any, any>) => T,
+  memory: new () => T,
+) {
+  return {
+    provide: token,
+    inject: [DATABASE_CLIENT],
+    useFactory: (client: SupabaseClient<any, any> | null) =>
+      client ? new supabase(client) : new memory(),
+  };
+}
+
+@Module({
+  providers: [
+    {
+      provide: DATABASE_CLIENT,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get('REPOSITORY_DRIVER') === 'memory'
+          ? null
+          : createClient(
+              config.getOrThrow<string>('SUPABASE_URL'),
+              config.getOrThrow<string>('SUPABASE_SERVICE_ROLE_KEY'),
+            ),
+    },
+    repository(
+      LessonRepository,
+      SupabaseLessonRepository,
+      InMemoryLessonRepository,
+    ),
+    repository(
+      StudentRepository,
+      SupabaseStudentRepository,
+      InMemoryStudentRepository,
+    ),
+    repository(
+      CourseRepository,
+      SupabaseCourseRepository,
+      InMemoryCourseRepository,
+    ),
+    repository(
+      SkillTreeRepository,
+      SupabaseSkillTreeRepository,
+      InMemorySkillTreeRepository,
+    ),
+    repository(
+      CharacterSheetRepository,
+      SupabaseCharacterSheetRepository,
+      InMemoryCharacterSheetRepository,
+    ),
+  ],
+  exports: [
+    LessonRepository,
+    StudentRepository,
+    CourseRepository,
+    SkillTreeRepository,
+    CharacterSheetRepository,
+  ],
+})
+export class RepositoriesModule {}
@@ -0,0 +1,115 @@
+import {
+  ASSET_STATUS_FIELD,
+  AssetOutputs,
+  AssetStatus,
+  CharacterSheet,
+  Course,
+  Lesson,
+  LessonAsset,
+  LessonChanges,
+  NewCharacterSheet,
+  NewSkillNode,
+  NewSkillProgress,
+  SkillNode,
+  SkillNodeChanges,
+  SkillProgress,
+  SkillTree,
+  Student,
+  VideoTranslation,
+} from './entities';
+
+export abstract class LessonRepository {
+  abstract findById(id: string): Promise<Lesson | undefined>;
+  // Lessons that exist among `ids`, in no particular order.
+  abstract findByIds(ids: string[]): Promise<Lesson[]>;
+  abstract update(id: string, changes: LessonChanges): Promise<void>;
+
+  setStatus(
+    id: string,
+    asset: LessonAsset,
+    status: AssetStatus,
+    changes: LessonChanges = {},
+  ) {
+    return this.update(id, { ...changes, [ASSET_STATUS_FIELD[asset]]: status });
+  }
+
+  markProcessing(id: string, asset: LessonAsset) {
+    return this.setStatus(id, asset, 'processing');
+  }
+
+  markReady<A extends LessonAsset>(
+    id: string,
+    asset: A,
+    outputs: AssetOutputs[A],
+  ) {
+    return this.setStatus(id, asset, 'ready', outputs);
+  }
+
+  markFailed(id: string, asset: LessonAsset) {
+    return this.setStatus(id, asset, 'failed');
+  }
+
+  // Merges into one language's entry of `videoTranslations`, leaving the others untouched.
+  async updateVideoTranslation(
+    id: string,
+    language: string,
+    changes: Partial<VideoTranslation>,
+  ) {
+    const lesson = await this.findById(id);
+    const translations = lesson?.videoTranslations ?? {};
+    const current: VideoTranslation = translations[language] ?? {
+      status: 'processing',
+      videoUrl: null,
+      manifest: null,
+      captionsVttUrl: null,
+      captionsSrtUrl: null,
+    };
+    await this.update(id, {
+      videoTranslations: {
+        ...translations,
+        [language]: { ...current, ...changes },
+      },
+    });
+  }
+}
+
+export abstract class StudentRepository {
+  abstract findById(id: string): Promise<Student | undefined>;
+}
+
+export abstract class CourseRepository {
+  // The course with its modules and lesson plans, each sorted by order_index.
+  abstract findById(id: string): Promise<Course | undefined>;
+  // The course whose modules hold the lesson plan with this ID.
+  abstract findByLesson(lessonId: string): Promise<Course | undefined>;
+  abstract hasStudent(courseId: string, studentId: string): Promise<boolean>;
+}
+
+export abstract class SkillTreeRepository {
+  abstract findById(id: string): Promise<SkillTree | undefined>;
+  abstract findByCourse(courseId: string): Promise<SkillTree | undefined>;
+  abstract create(courseId: string): Promise<SkillTree>;
+  abstract findNodes(treeId: string): Promise<SkillNode[]>;
+  abstract insertNodes(nodes: NewSkillNode[]): Promise<SkillNode[]>;
+  abstract updateNode(id: string, changes: SkillNodeChanges): Promise<void>;
+  abstract findProgress(
+    treeId: string,
+    studentId: string,
+  ): Promise<SkillProgress[]>;
+  // Inserts or replaces the student's record for the node.
+  abstract saveProgress(progress: NewSkillProgress): Promise<SkillProgress>;
+}
+
+export abstract class CharacterSheetRepository {
+  // Newest first.
+  abstract findByCourse(courseId: string): Promise<CharacterSheet[]>;
+  abstract findByLesson(lessonId: string): Promise<CharacterSheet[]>;
+  abstract create(sheet: NewCharacterSheet): Promise<CharacterSheet>;
+}
+
+export function byOrderIndex(
+  a: { orderIndex: number },
+  b: { orderIndex: number },
+) {
+  return a.orderIndex - b.orderIndex;
+}
@@ -0,0 +1,473 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CharacterSheet,
+  Course,
+  Lesson,
+  LessonChanges,
+  NewCharacterSheet,
+  NewSkillNode,
+  NewSkillProgress,
+  SkillNode,
+  SkillNodeChanges,
+  SkillProgress,
+  SkillTree,
+  Student,
+  UnlockRule,
+} from './entities';
+import {
+  byOrderIndex,
+  CharacterSheetRepository,
+  CourseRepository,
+  LessonRepository,
+  SkillTreeRepository,
+  StudentRepository,
+} from './repositories';
+
+// Column name for every Lesson field; the only place lesson column names are spelled out.
+const LESSON_COLUMNS = {
+  id: 'lesson_id',
+  videoUrl: 'video_url',
+  videoStatus: 'video_status',
+  videoManifest: 'video_manifest',
+  videoCaptionsVttUrl: 'video_captions_vtt_url',
+  videoCaptionsSrtUrl: 'video_captions_srt_url',
+  videoLanguage: 'video_language',
+  videoTranslations: 'video_translations',
+  podcastUrl: 'podcast_url',
+  podcastDuration: 'podcast_duration',
+  podcastChapters: 'podcast_chapters',
+  podcastSize: 'podcast_size',
+  podcastPublishedAt: 'podcast_published_at',
+  podcastTranscript: 'podcast_transcript',
+  podcastShowNotes: 'podcast_show_notes',
+  podcastStatus: 'podcast_status',
+  comicPages: 'comic_pages',
+  comicManifest: 'comic_manifest',
+  comicPdfUrl: 'comic_pdf_url',
+  comicCbzUrl: 'comic_cbz_url',
+  comicStatus: 'comic_status',
+  animatedVideoUrl: 'animated_video_url',
+  animatedVideoManifest: 'animated_video_manifest',
+  animatedVideoStatus: 'animated_video_status',
+} as const satisfies Record<keyof Lesson, string>;
+
+type LessonRow = Record<string, unknown>;
+
+function lessonFromRow(row: LessonRow): Lesson {
+  const lesson = {} as Record<keyof Lesson, unknown>;
+  for (const [field, column] of Object.entries(LESSON_COLUMNS)) {
+    lesson[field as keyof Lesson] = row[column] ?? null;
+  }
+  return lesson as Lesson;
+}
+
+function lessonToRow(changes: LessonChanges): LessonRow {
+  const row: LessonRow = {};
+  for (const [field, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      row[LESSON_COLUMNS[field as keyof LessonChanges]] = value;
+    }
+  }
+  return row;
+}
+
+export class SupabaseLessonRepository extends LessonRepository {
+  constructor(private readonly supabase: SupabaseClient<any, any>) {
+    super();
+  }
+
+  async findById(id: string) {
+    const { data, error } = await this.supabase
+      .from('lessons')
+      .select('*')
+      .eq(LESSON_COLUMNS.id, id)
+      .maybeSingle<LessonRow>();
+    if (error) throw new Error(`Failed to load lesson ${id}: ${error.message}`);
+    return data ? lessonFromRow(data) : undefined;
+  }
+
+  async findByIds(ids: string[]) {
+    if (ids.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('lessons')
+      .select('*')
+      .in(LESSON_COLUMNS.id, ids)
+      .returns<LessonRow[]>();
+    if (error) throw new Error(`Failed to load lessons: ${error.message}`);
+    return (data ?? []).map(lessonFromRow);
+  }
+
+  async update(id: string, changes: LessonChanges) {
+    const { error } = await this.supabase
+      .from('lessons')
+      .update(lessonToRow(changes))
+      .eq(LESSON_COLUMNS.id, id);
+    if (error)
+      throw new Error(`Failed to update lesson ${id}: ${error.message}`);
+  }
+}
+
+export class SupabaseStudentRepository extends StudentRepository {
+  constructor(private readonly supabase: SupabaseClient<any, any>) {
+    super();
+  }
+
+  async findById(id: string) {
+    const { data, error } = await this.supabase
+      .from('students')
+      .select('student_id, interest')
+      .eq('student_id', id)
+      .maybeSingle<{ student_id: string; interest: string[] | null }>();
+    if (error)
+      throw new Error(`Failed to load student ${id}: ${error.message}`);
+    if (!data) return undefined;
+    const student: Student = {
+      id: data.student_id,
+      interests: data.interest ?? [],
+    };
+    return student;
+  }
+}
+
+interface CourseRow {
+  id: string;
+  title: string;
+  slide_theme: string | null;
+  owner_id: string | null;
+  course_teachers: { teacher_id: string }[] | null;
+  modules: {
+    id: string;
+    title: string;
+    order_index: number;
+    lesson_plans: {
+      id: string;
+      title: string;
+      order_index: number;
+      status: string | null;
+    }[];
+  }[];
+}
+
+export class SupabaseCourseRepository extends CourseRepository {
+  constructor(private readonly supabase: SupabaseClient<any, any>) {
+    super();
+  }
+
+  async findById(id: string) {
+    const { data, error } = await this.supabase
+      .from('courses')
+      .select(
+        'id, title, slide_theme, owner_id, course_teachers(teacher_id), modules(id, title, order_index, lesson_plans(id, title, order_index, status))',
+      )
+      .eq('id', id)
+      .maybeSingle<CourseRow>();
+    if (error) throw new Error(`Failed to load course ${id}: ${error.message}`);
+    if (!data) return undefined;
+
+    const course: Course = {
+      id: data.id,
+      title: data.title,
+      slideTheme: data.slide_theme ?? null,
+      ownerId: data.owner_id ?? null,
+      teacherIds: (data.course_teachers ?? []).map((t) => t.teacher_id),
+      modules: (data.modules ?? [])
+        .map((m) => ({
+          id: m.id,
+          title: m.title,
+          orderIndex: m.order_index,
+          lessonPlans: (m.lesson_plans ?? [])
+            .map((l) => ({
+              id: l.id,
+              title: l.title,
+              orderIndex: l.order_index,
+              status: l.status,
+            }))
+            .sort(byOrderIndex),
+        }))
+        .sort(byOrderIndex),
+    };
+    return course;
+  }
+
+  async findByLesson(lessonId: string) {
+    const { data, error } = await this.supabase
+      .from('lesson_plans')
+      .select('modules(course_id)')
+      .eq('id', lessonId)
+      .maybeSingle<{ modules: { course_id: string } | null }>();
+    if (error)
+      throw new Error(
+        `Failed to load the course of lesson ${lessonId}: ${error.message}`,
+      );
+    const courseId = data?.modules?.course_id;
+    return courseId ? this.findById(courseId) : undefined;
+  }
+
+  async hasStudent(courseId: string, studentId: string) {
+    const { data, error } = await this.supabase
+      .from('course_students')
+      .select('student_id')
+      .eq('course_id', courseId)
+      .eq('student_id', studentId)
+      .maybeSingle();
+    if (error)
+      throw new Error(
+        `Failed to load enrollment of ${studentId}: ${error.message}`,
+      );
+    return data !== null;
+  }
+}
+
+interface SkillNodeRow {
+  id: string;
+  tree_id: string;
+  lesson_plan_id: string;
+  label: string;
+  x_position: number;
+  y_position: number;
+  dependencies: string[] | null;
+  status: string;
+  // Null on rows written before unlock rules existed
+  unlock_rule: UnlockRule | null;
+  optional: boolean | null;
+  retired_at: string | null;
+}
+
+function nodeToRow(node: NewSkillNode) {
+  return {
+    tree_id: node.treeId,
+    lesson_plan_id: node.lessonPlanId,
+    ...nodeChangesToRow(node),
+  };
+}
+
+// Undefined fields are left out of the JSON body, so they stay as they are.
+function nodeChangesToRow(node: SkillNodeChanges): Partial<SkillNodeRow> {
+  return {
+    label: node.label,
+    x_position: node.x,
+    y_position: node.y,
+    dependencies: node.dependencies,
+    status: node.status,
+    unlock_rule: node.unlockRule,
+    optional: node.optional,
+    retired_at: node.retiredAt,
+  };
+}
+
+function nodeFromRow(row: SkillNodeRow): SkillNode {
+  return {
+    id: row.id,
+    treeId: row.tree_id,
+    lessonPlanId: row.lesson_plan_id,
+    label: row.label,
+    x: row.x_position,
+    y: row.y_position,
+    dependencies: row.dependencies ?? [],
+    status: row.status,
+    unlockRule: row.unlock_rule ?? 'all',
+    optional: row.optional ?? false,
+    retiredAt: row.retired_at,
+  };
+}
+
+interface SkillProgressRow {
+  tree_id: string;
+  node_id: string;
+  student_id: string;
+  status: SkillProgress['status'];
+  updated_at: string;
+}
+
+function progressFromRow(row: SkillProgressRow): SkillProgress {
+  return {
+    treeId: row.tree_id,
+    nodeId: row.node_id,
+    studentId: row.student_id,
+    status: row.status,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class SupabaseSkillTreeRepository extends SkillTreeRepository {
+  constructor(private readonly supabase: SupabaseClient<any, any>) {
+    super();
+  }
+
+  async findById(id: string) {
+    const { data, error } = await this.supabase
+      .from('skill_trees')
+      .select('id, course_id')
+      .eq('id', id)
+      .maybeSingle<{ id: string; course_id: string }>();
+    if (error)
+      throw new Error(`Failed to load skill tree ${id}: ${error.message}`);
+    return data ? { id: data.id, courseId: data.course_id } : undefined;
+  }
+
+  async findByCourse(courseId: string) {
+    const { data, error } = await this.supabase
+      .from('skill_trees')
+      .select('id, course_id')
+      .eq('course_id', courseId)
+      .maybeSingle<{ id: string; course_id: string }>();
+    if (error)
+      throw new Error(
+        `Failed to load skill tree for ${courseId}: ${error.message}`,
+      );
+    return data ? { id: data.id, courseId: data.course_id } : undefined;
+  }
+
+  async create(courseId: string): Promise<SkillTree> {
+    const { data, error } = await this.supabase
+      .from('skill_trees')
+      .insert({ course_id: courseId })
+      .select('id, course_id')
+      .single<{ id: string; course_id: string }>();
+    if (error)
+      throw new Error(
+        `Failed to create skill tree for ${courseId}: ${error.message}`,
+      );
+    return { id: data.id, courseId: data.course_id };
+  }
+
+  async findNodes(treeId: string) {
+    const { data, error } = await this.supabase
+      .from('skill_nodes')
+      .select('*')
+      .eq('tree_id', treeId)
+      .returns<SkillNodeRow[]>();
+    if (error)
+      throw new Error(
+        `Failed to load skill nodes for ${treeId}: ${error.message}`,
+      );
+    return data.map(nodeFromRow);
+  }
+
+  async insertNodes(nodes: NewSkillNode[]) {
+    if (nodes.length === 0) return [];
+    const { data, error } = await this.supabase
+      .from('skill_nodes')
+      .insert(nodes.map(nodeToRow))
+      .select('*')
+      .returns<SkillNodeRow[]>();
+    if (error)
+      throw new Error(`Failed to insert skill nodes: ${error.message}`);
+    return data.map(nodeFromRow);
+  }
+
+  async updateNode(id: string, changes: SkillNodeChanges) {
+    const { error } = await this.supabase
+      .from('skill_nodes')
+      .update(nodeChangesToRow(changes))
+      .eq('id', id);
+    if (error)
+      throw new Error(`Failed to update skill node ${id}: ${error.message}`);
+  }
+
+  async findProgress(treeId: string, studentId: string) {
+    const { data, error } = await this.supabase
+      .from('skill_progress')
+      .select('*')
+      .eq('tree_id', treeId)
+      .eq('student_id', studentId)
+      .returns<SkillProgressRow[]>();
+    if (error)
+      throw new Error(
+        `Failed to load skill progress of ${studentId}: ${error.message}`,
+      );
+    return data.map(progressFromRow);
+  }
+
+  async saveProgress(progress: NewSkillProgress) {
+    const { data, error } = await this.supabase
+      .from('skill_progress')
+      .upsert(
+        {
+          tree_id: progress.treeId,
+          node_id: progress.nodeId,
+          student_id: progress.studentId,
+          status: progress.status,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'node_id,student_id' },
+      )
+      .select('*')
+      .single<SkillProgressRow>();
+    if (error)
+      throw new Error(
+        `Failed to save skill progress of ${progress.studentId}: ${error.message}`,
+      );
+    return progressFromRow(data);
+  }
+}
+
+interface CharacterSheetRow {
+  id: string;
+  course_id: string | null;
+  lesson_id: string;
+  description: string;
+  art_style: string;
+  image_key: string;
+  image_url: string;
+  created_at: string;
+}
+
+function sheetFromRow(row: CharacterSheetRow): CharacterSheet {
+  return {
+    id: row.id,
+    courseId: row.course_id,
+    lessonId: row.lesson_id,
+    description: row.description,
+    artStyle: row.art_style,
+    imageKey: row.image_key,
+    imageUrl: row.image_url,
+    createdAt: row.created_at,
+  };
+}
+
+export class SupabaseCharacterSheetRepository extends CharacterSheetRepository {
+  constructor(private readonly supabase: SupabaseClient<any, any>) {
+    super();
+  }
+
+  private async newest(column: 'course_id' | 'lesson_id', value: string) {
+    const { data, error } = await this.supabase
+      .from('character_sheets')
+      .select('*')
+      .eq(column, value)
+      .order('created_at', { ascending: false })
+      .returns<CharacterSheetRow[]>();
+    if (error)
+      throw new Error(
+        `Failed to load character sheets for ${value}: ${error.message}`,
+      );
+    return data.map(sheetFromRow);
+  }
+
+  findByCourse(courseId: string) {
+    return this.newest('course_id', courseId);
+  }
+
+  findByLesson(lessonId: string) {
+    return this.newest('lesson_id', lessonId);
+  }
+
+  async create(sheet: NewCharacterSheet) {
+    const { data, error } = await this.supabase
+      .from('character_sheets')
+      .insert({
+        course_id: sheet.courseId,
+        lesson_id: sheet.lessonId,
+        description: sheet.description,
+        art_style: sheet.artStyle,
+        image_key: sheet.imageKey,
+        image_url: sheet.imageUrl,
+      })
+      .select('*')
+      .single<CharacterSheetRow>();
+    if (error)
+      throw new Error(`Failed to save character sheet: ${error.message}`);
+    return sheetFromRow(data);
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  bypassRemoved,
+  checkLayout,
+  findCycle,
+  layeredLayout,
+  MIN_NODE_GAP,
+  PlacedNode,
+  placeNewNodes,
+  spreadOverlaps,
+} from './skill-tree-graph';
+
+const node = (
+  lesson_id: string,
+  x: number,
+  y: number,
+  dependencies: string[] = [],
+) => ({ lesson_id, x, y, dependencies });
+
+describe('checkLayout', () => {
+  it('accepts a valid DAG as is, in curriculum order', () => {
+    const check = checkLayout(
+      ['a', 'b', 'c'],
+      [node('c', 50, 90, ['b']), node('a', 50, 10), node('b', 30, 50, ['a'])],
+    );
+
+    expect(check.issues).toEqual([]);
+    expect(check.nodes).toEqual([
+      { lessonId: 'a', x: 50, y: 10, dependencies: [] },
+      { lessonId: 'b', x: 30, y: 50, dependencies: ['a'] },
+      { lessonId: 'c', x: 50, y: 90, dependencies: ['b'] },
+    ]);
+  });
+
+  it('drops unknown and repeated nodes and dangling dependencies', () => {
+    const check = checkLayout(
+      ['a', 'b'],
+      [
+        node('a', 50, 10, ['ghost', 'a']),
+        node('ghost', 10, 10),
+        node('b', 50, 60, ['a', 'a']),
+        node('b', 70, 70),
+      ],
+    );
+
+    expect(check.nodes?.map((n) => n.dependencies)).toEqual([[], ['a']]);
+    expect(check.issues).toEqual([
+      'dropped node for unknown lesson ghost',
+      'dropped repeated node for lesson b',
+      'dropped dangling dependencies of a',
+      'dropped dangling dependencies of b',
+    ]);
+  });
+
+  it('moves nodes onto the canvas and spreads out overlaps', () => {
+    const check = checkLayout(
+      ['a', 'b'],
+      [node('a', 120, -4), node('b', 99, 2, ['a'])],
+    );
+
+    const [a, b] = check.nodes!;
+    expect(a).toMatchObject({ x: 100, y: 0 });
+    expect(
+      Math.abs(a.x - b.x) >= MIN_NODE_GAP ||
+        Math.abs(a.y - b.y) >= MIN_NODE_GAP,
+    ).toBe(true);
+    expect(check.issues).toEqual([
+      'moved a onto the canvas',
+      'spread out overlapping b',
+    ]);
+  });
+
+  it('rejects layouts that leave out a lesson', () => {
+    const check = checkLayout(['a', 'b'], [node('a', 50, 10)]);
+
+    expect(check.nodes).toBeNull();
+    expect(check.issues).toEqual(['missing lessons b']);
+  });
+
+  it('rejects dependency cycles', () => {
+    const check = checkLayout(
+      ['a', 'b', 'c'],
+      [
+        node('a', 50, 10),
+        node('b', 50, 50, ['a', 'c']),
+        node('c', 50, 90, ['b']),
+      ],
+    );
+
+    expect(check.nodes).toBeNull();
+    expect(check.issues).toEqual(['dependency cycle through b, c']);
+  });
+});
+
+describe('findCycle', () => {
+  it('finds nothing in a DAG with shared parents', () => {
+    const nodes: PlacedNode[] = [
+      { lessonId: 'a', x: 0, y: 0, dependencies: [] },
+      { lessonId: 'b', x: 0, y: 0, dependencies: ['a'] },
+      { lessonId: 'c', x: 0, y: 0, dependencies: ['a', 'b'] },
+    ];
+    expect(findCycle(nodes)).toEqual([]);
+  });
+});
+
+describe('layeredLayout', () => {
+  it('chains lessons in order with one row per module', () => {
+    const nodes = layeredLayout([['a', 'b'], [], ['c']]);
+
+    expect(nodes).toEqual([
+      { lessonId: 'a', x: 33.3, y: 5, dependencies: [] },
+      { lessonId: 'b', x: 66.7, y: 5, dependencies: ['a'] },
+      { lessonId: 'c', x: 50, y: 95, dependencies: ['b'] },
+    ]);
+  });
+
+  it('wraps long modules onto extra rows without overlaps', () => {
+    const lessons = Array.from({ length: 40 }, (_, i) => `l${i}`);
+    const nodes = layeredLayout([lessons]);
+
+    expect(new Set(nodes.map((n) => n.y)).size).toBe(3);
+    expect(spreadOverlaps(structuredClone(nodes))).toEqual([]);
+  });
+});
+
+describe('placeNewNodes', () => {
+  const existing: PlacedNode[] = [
+    { lessonId: 'a', x: 50, y: 10, dependencies: [] },
+    { lessonId: 'c', x: 50, y: 50, dependencies: ['a'] },
+  ];
+
+  it('puts new lessons between their neighbours, after the one before', () => {
+    expect(placeNewNodes(existing, ['z', 'a', 'b', 'c', 'd'])).toEqual([
+      { lessonId: 'z', x: 50, y: 0, dependencies: [] },
+      { lessonId: 'b', x: 50, y: 30, dependencies: ['a'] },
+      { lessonId: 'd', x: 50, y: 60, dependencies: ['c'] },
+    ]);
+  });
+
+  it('moves new nodes off existing ones and leaves those in place', () => {
+    const crowded = [
+      ...existing,
+      { lessonId: 'b', x: 52, y: 12, dependencies: [] },
+    ];
+    const [added] = placeNewNodes(crowded, ['a', 'x', 'b', 'c']);
+
+    expect(added.lessonId).toBe('x');
+    expect(added).not.toMatchObject({ x: 51, y: 11 });
+    expect(spreadOverlaps([added], crowded)).toEqual([]);
+    expect(crowded[2]).toMatchObject({ x: 52, y: 12 });
+  });
+});
+
+describe('bypassRemoved', () => {
+  it('passes dependencies through chains of removed lessons', () => {
+    const removed = new Map([
+      ['b', ['a']],
+      ['c', ['b', 'x']],
+    ]);
+    expect(bypassRemoved(['c', 'd'], removed)).toEqual(['a', 'x', 'd']);
+  });
+});
@@ -0,0 +1,269 @@
+import { SkillTreeNodeLayout } from '../slides/slides.schemas';
+
+// A lesson placed on the 0-100 skill tree canvas. Dependencies are lesson IDs.
+export interface PlacedNode {
+  lessonId: string;
+  x: number;
+  y: number;
+  dependencies: string[];
+}
+
+export interface LayoutCheck {
+  // Null when the layout can't be repaired and a fallback is needed.
+  nodes: PlacedNode[] | null;
+  // What was repaired or, when `nodes` is null, why the layout was rejected.
+  issues: string[];
+}
+
+// Nodes closer than this on both axes are treated as overlapping.
+export const MIN_NODE_GAP = 5;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const overlaps = (a: PlacedNode, b: PlacedNode) =>
+  Math.abs(a.x - b.x) < MIN_NODE_GAP && Math.abs(a.y - b.y) < MIN_NODE_GAP;
+
+// Lesson IDs on a dependency cycle, or none when the graph is a DAG.
+export function findCycle(nodes: PlacedNode[]): string[] {
+  const remaining = new Map(
+    nodes.map((node) => [node.lessonId, new Set(node.dependencies)]),
+  );
+  // Kahn's algorithm: repeatedly take nodes whose dependencies are all taken
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const [id, deps] of remaining) {
+      if ([...deps].every((dep) => !remaining.has(dep))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+  return [...remaining.keys()];
+}
+
+// Grid steps around a node: nearest ring first, sideways before up/down so rows stay rows.
+function offsets(maxRing: number) {
+  const result: [number, number][] = [];
+  for (let dy = -maxRing; dy <= maxRing; dy++) {
+    for (let dx = -maxRing; dx <= maxRing; dx++) {
+      if (dx !== 0 || dy !== 0) result.push([dx, dy]);
+    }
+  }
+  const ring = ([dx, dy]: [number, number]) =>
+    Math.max(Math.abs(dx), Math.abs(dy));
+  return result.sort(
+    (a, b) =>
+      ring(a) - ring(b) ||
+      Math.abs(a[1]) - Math.abs(b[1]) ||
+      Math.abs(a[0]) - Math.abs(b[0]),
+  );
+}
+
+/**
+ * Moves nodes that sit on top of an earlier node (or a `fixed` one) to the
+ * nearest free spot on a MIN_NODE_GAP grid around them. Returns the IDs that
+ * were moved, or null when the canvas is too crowded to fit everyone.
+ */
+export function spreadOverlaps(
+  nodes: PlacedNode[],
+  fixed: PlacedNode[] = [],
+): string[] | null {
+  const placed: PlacedNode[] = [...fixed];
+  const moved: string[] = [];
+  const candidates = offsets(Math.ceil(100 / MIN_NODE_GAP));
+  for (const node of nodes) {
+    if (placed.some((other) => overlaps(node, other))) {
+      const free = candidates
+        .map(([dx, dy]) => ({
+          x: round(node.x + dx * MIN_NODE_GAP),
+          y: round(node.y + dy * MIN_NODE_GAP),
+        }))
+        .find(
+          (spot) =>
+            spot.x >= 0 &&
+            spot.x <= 100 &&
+            spot.y >= 0 &&
+            spot.y <= 100 &&
+            !placed.some((other) => overlaps({ ...node, ...spot }, other)),
+        );
+      if (!free) return null;
+      node.x = free.x;
+      node.y = free.y;
+      moved.push(node.lessonId);
+    }
+    placed.push(node);
+  }
+  return moved;
+}
+
+/**
+ * Checks a model-generated layout against the course's lessons (in
+ * curriculum order). Unknown or repeated nodes, dangling dependencies,
+ * out-of-range coordinates and overlaps are repaired; a missing lesson or a
+ * dependency cycle makes the layout unusable.
+ */
+export function checkLayout(
+  lessonIds: string[],
+  layout: SkillTreeNodeLayout[],
+): LayoutCheck {
+  const known = new Set(lessonIds);
+  const issues: string[] = [];
+  const byLesson = new Map<string, SkillTreeNodeLayout>();
+  for (const node of layout) {
+    if (!known.has(node.lesson_id)) {
+      issues.push(`dropped node for unknown lesson ${node.lesson_id}`);
+    } else if (byLesson.has(node.lesson_id)) {
+      issues.push(`dropped repeated node for lesson ${node.lesson_id}`);
+    } else {
+      byLesson.set(node.lesson_id, node);
+    }
+  }
+
+  const missing = lessonIds.filter((id) => !byLesson.has(id));
+  if (missing.length > 0) {
+    return {
+      nodes: null,
+      issues: [...issues, `missing lessons ${missing.join(', ')}`],
+    };
+  }
+
+  const nodes = lessonIds.map((id): PlacedNode => {
+    const node = byLesson.get(id)!;
+    const dependencies = [...new Set(node.dependencies)].filter(
+      (dep) => dep !== id && known.has(dep),
+    );
+    if (dependencies.length < node.dependencies.length) {
+      issues.push(`dropped dangling dependencies of ${id}`);
+    }
+    const x = clamp(node.x);
+    const y = clamp(node.y);
+    if (x !== node.x || y !== node.y) {
+      issues.push(`moved ${id} onto the canvas`);
+    }
+    return { lessonId: id, x, y, dependencies };
+  });
+
+  const cycle = findCycle(nodes);
+  if (cycle.length > 0) {
+    return {
+      nodes: null,
+      issues: [...issues, `dependency cycle through ${cycle.join(', ')}`],
+    };
+  }
+
+  const moved = spreadOverlaps(nodes);
+  if (!moved) {
+    return {
+      nodes: null,
+      issues: [...issues, 'too many overlapping nodes to spread out'],
+    };
+  }
+  if (moved.length > 0) {
+    issues.push(`spread out overlapping ${moved.join(', ')}`);
+  }
+  return { nodes, issues };
+}
+
+/**
+ * A layout that needs no model: one band of rows per module, top to bottom,
+ * lessons left to right in order. Each lesson depends on the one before it,
+ * and a module's first lesson on the previous module's last.
+ */
+export function layeredLayout(modules: string[][]): PlacedNode[] {
+  const perRow = Math.floor(100 / MIN_NODE_GAP) - 1;
+  const rows = modules
+    .filter((lessons) => lessons.length > 0)
+    .flatMap((lessons) =>
+      Array.from({ length: Math.ceil(lessons.length / perRow) }, (_, r) =>
+        lessons.slice(r * perRow, (r + 1) * perRow),
+      ),
+    );
+
+  const nodes: PlacedNode[] = [];
+  rows.forEach((row, r) => {
+    const y = rows.length > 1 ? round(5 + (90 * r) / (rows.length - 1)) : 50;
+    row.forEach((lessonId, i) => {
+      const previous = nodes[nodes.length - 1];
+      nodes.push({
+        lessonId,
+        x: round((100 * (i + 1)) / (row.length + 1)),
+        y,
+        dependencies: previous ? [previous.lessonId] : [],
+      });
+    });
+  });
+  return nodes;
+}
+
+/**
+ * Places lessons that joined the course after its tree was laid out, without
+ * moving the existing nodes. Each new lesson goes between the nodes of its
+ * neighbours in curriculum order (below the one before it when it's last)
+ * and depends on the lesson before it.
+ */
+export function placeNewNodes(
+  existing: PlacedNode[],
+  lessonIds: string[],
+): PlacedNode[] {
+  const placed = new Map(existing.map((node) => [node.lessonId, node]));
+  const added: PlacedNode[] = [];
+  lessonIds.forEach((lessonId, i) => {
+    if (placed.has(lessonId)) return;
+    const before = lessonIds
+      .slice(0, i)
+      .reverse()
+      .map((id) => placed.get(id))
+      .find((node) => node !== undefined);
+    const after = lessonIds
+      .slice(i + 1)
+      .map((id) => placed.get(id))
+      .find((node) => node !== undefined);
+
+    let x = 50;
+    let y = 50;
+    if (before && after) {
+      x = (before.x + after.x) / 2;
+      y = (before.y + after.y) / 2;
+    } else if (before) {
+      x = before.x;
+      y = clamp(before.y + 2 * MIN_NODE_GAP);
+    } else if (after) {
+      x = after.x;
+      y = clamp(after.y - 2 * MIN_NODE_GAP);
+    }
+    const node: PlacedNode = {
+      lessonId,
+      x: round(x),
+      y: round(y),
+      dependencies: before ? [before.lessonId] : [],
+    };
+    placed.set(lessonId, node);
+    added.push(node);
+  });
+  // On a full canvas the new nodes stay where they are, overlapping
+  spreadOverlaps(added, existing);
+  return added;
+}
+
+/**
+ * Replaces dependencies on removed lessons with those lessons' own
+ * dependencies, so whatever gated a removed lesson now gates its children.
+ */
+export function bypassRemoved(
+  dependencies: string[],
+  removed: Map<string, string[]>,
+): string[] {
+  const result = new Set<string>();
+  const seen = new Set<string>();
+  const visit = (id: string) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const through = removed.get(id);
+    if (through) through.forEach(visit);
+    else result.add(id);
+  };
+  dependencies.forEach(visit);
+  return [...result];
+}
@@ -0,0 +1,54 @@
+import { SkillNode, SkillProgress } from '../repositories/entities';
+
+export type SkillNodeState =
+  | 'locked'
+  | 'available'
+  | 'in_progress'
+  | 'completed';
+
+/**
+ * Whether a node's parents let a student start it, given the IDs of the
+ * nodes they completed. Optional parents never hold a node back, so a node
+ * whose parents are all optional is open from the start; under the `any`
+ * rule completing an optional parent still counts.
+ */
+export function isUnlocked(
+  node: SkillNode,
+  parents: SkillNode[],
+  completed: Set<string>,
+) {
+  const required = parents.filter((parent) => !parent.optional);
+  if (required.length === 0) return true;
+  return node.unlockRule === 'any'
+    ? parents.some((parent) => completed.has(parent.id))
+    : required.every((parent) => completed.has(parent.id));
+}
+
+// One student's state of every node, keyed by node ID.
+export function nodeStates(
+  nodes: SkillNode[],
+  progress: SkillProgress[],
+): Map<string, SkillNodeState> {
+  const byLesson = new Map(nodes.map((node) => [node.lessonPlanId, node]));
+  const recorded = new Map(progress.map((p) => [p.nodeId, p.status]));
+  const completed = new Set(
+    progress.filter((p) => p.status === 'completed').map((p) => p.nodeId),
+  );
+
+  return new Map(
+    nodes.map((node): [string, SkillNodeState] => {
+      // Recorded progress stands even if the rules were tightened afterwards
+      const own = recorded.get(node.id);
+      if (own) return [node.id, own];
+      // Dependencies on lessons no longer in the tree are ignored
+      const parents = node.dependencies.flatMap((id) => {
+        const parent = byLesson.get(id);
+        return parent ? [parent] : [];
+      });
+      return [
+        node.id,
+        isUnlocked(node, parents, completed) ? 'available' : 'locked',
+      ];
+    }),
+  );
+}
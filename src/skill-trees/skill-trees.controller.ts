@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import {
+  ConfigureSkillNodeDto,
+  StudentDto,
+  StudentQueryDto,
+  SyncSkillTreeDto,
+} from './skill-trees.dto';
+import { SkillTreesService } from './skill-trees.service';
+
+@Controller('skill-trees')
+export class SkillTreesController {
+  constructor(
+    private readonly skillTrees: SkillTreesService,
+    private readonly access: AccessService,
+  ) {}
+
+  /**
+   * Adds, retires and restores nodes to match the course's current lessons,
+   * keeping positions and progress. `regenerate` lays the whole tree out
+   * again (node IDs, and so progress, are still kept).
+   */
+  @Post(':courseId/sync')
+  async sync(
+    @CurrentPrincipal() principal: Principal,
+    @Param('courseId', ParseUUIDPipe) courseId: string,
+    @Body() body: SyncSkillTreeDto,
+  ) {
+    await this.access.checkCourse(principal, courseId);
+    return this.skillTrees.sync(courseId, body.regenerate === true);
+  }
+
+  // Every node with its state (locked, available, in_progress, completed) for one student
+  @Get(':treeId/state')
+  async state(
+    @CurrentPrincipal() principal: Principal,
+    @Param('treeId', ParseUUIDPipe) treeId: string,
+    @Query() { studentId }: StudentQueryDto,
+  ) {
+    await this.access.checkTree(principal, treeId, studentId);
+    return this.skillTrees.state(treeId, studentId);
+  }
+
+  @Post(':treeId/nodes/:nodeId/start')
+  async start(
+    @CurrentPrincipal() principal: Principal,
+    @Param('treeId', ParseUUIDPipe) treeId: string,
+    @Param('nodeId') nodeId: string,
+    @Body() { studentId }: StudentDto,
+  ) {
+    await this.access.checkTree(principal, treeId, studentId);
+    return this.skillTrees.start(treeId, nodeId, studentId);
+  }
+
+  @Post(':treeId/nodes/:nodeId/complete')
+  async complete(
+    @CurrentPrincipal() principal: Principal,
+    @Param('treeId', ParseUUIDPipe) treeId: string,
+    @Param('nodeId') nodeId: string,
+    @Body() { studentId }: StudentDto,
+  ) {
+    await this.access.checkTree(principal, treeId, studentId);
+    return this.skillTrees.complete(treeId, nodeId, studentId);
+  }
+
+  // Sets how the node unlocks ("all" or "any" parent) and whether it's optional
+  @Patch(':treeId/nodes/:nodeId')
+  async configureNode(
+    @CurrentPrincipal() principal: Principal,
+    @Param('treeId', ParseUUIDPipe) treeId: string,
+    @Param('nodeId') nodeId: string,
+    @Body() body: ConfigureSkillNodeDto,
+  ) {
+    await this.access.checkTree(principal, treeId);
+    return this.skillTrees.configureNode(treeId, nodeId, body);
+  }
+}
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { createZodDto } from '../api/zod-dto';
+
+const student = z.object({ studentId: z.uuid() });
+
+export class StudentDto extends createZodDto(student) {}
+
+export class StudentQueryDto extends createZodDto(student) {}
+
+export class SyncSkillTreeDto extends createZodDto(
+  z.object({ regenerate: z.boolean().optional() }),
+) {}
+
+export class ConfigureSkillNodeDto extends createZodDto(
+  z.object({
+    unlockRule: z.enum(['all', 'any']).optional(),
+    optional: z.boolean().optional(),
+  }),
+) {}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { SlidesModule } from '../slides/slides.module';
+import { SkillTreesController } from './skill-trees.controller';
+import { SkillTreesService } from './skill-trees.service';
+
+@Module({
+  imports: [AuthModule, RepositoriesModule, SlidesModule],
+  controllers: [SkillTreesController],
+  providers: [SkillTreesService],
+})
+export class SkillTreesModule {}
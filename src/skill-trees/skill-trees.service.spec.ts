@@ -0,0 +1,237 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Course, NewSkillNode, SkillNode } from '../repositories/entities';
+import {
+  InMemoryCourseRepository,
+  InMemorySkillTreeRepository,
+  InMemoryStudentRepository,
+} from '../repositories/in-memory-repositories';
+import { SlidesService } from '../slides/slides.service';
+import { layeredLayout } from './skill-tree-graph';
+import { SkillTreesService } from './skill-trees.service';
+
+const LESSONS = ['intro', 'history', 'lenses', 'mirrors', 'optics'];
+
+function course(lessons: string[]): Course {
+  return {
+    id: 'course-1',
+    title: 'Optics',
+    slideTheme: null,
+    ownerId: null,
+    teacherIds: [],
+    modules: [
+      {
+        id: 'm1',
+        title: 'Light',
+        orderIndex: 0,
+        lessonPlans: lessons.map((id, orderIndex) => ({
+          id,
+          title: id,
+          orderIndex,
+          status: null,
+        })),
+      },
+    ],
+  };
+}
+
+// Stands in for the model layout with the deterministic one
+const slides = {
+  layoutSkillTree: (c: Course) =>
+    Promise.resolve(
+      layeredLayout(c.modules.map((m) => m.lessonPlans.map((l) => l.id))),
+    ),
+} as unknown as SlidesService;
+
+describe('SkillTreesService', () => {
+  let skillTrees: InMemorySkillTreeRepository;
+  let courses: InMemoryCourseRepository;
+  let service: SkillTreesService;
+  let treeId: string;
+  // Node IDs by lesson: intro -> (lenses, mirrors) -> optics, with an optional history side quest
+  let ids: Record<string, string>;
+
+  const node = (
+    lessonPlanId: string,
+    dependencies: string[] = [],
+    extra: Partial<NewSkillNode> = {},
+  ): NewSkillNode => ({
+    treeId,
+    lessonPlanId,
+    label: lessonPlanId,
+    x: 50,
+    y: 50,
+    dependencies,
+    status: 'locked',
+    unlockRule: 'all',
+    optional: false,
+    retiredAt: null,
+    ...extra,
+  });
+
+  const states = async (studentId = 'ada') => {
+    const state = await service.state(treeId, studentId);
+    return Object.fromEntries(
+      state.nodes.map((n) => [n.lessonPlanId, n.state]),
+    );
+  };
+
+  beforeEach(async () => {
+    skillTrees = new InMemorySkillTreeRepository();
+    const students = new InMemoryStudentRepository();
+    students.students.set('ada', { id: 'ada', interests: [] });
+    students.students.set('bob', { id: 'bob', interests: [] });
+    courses = new InMemoryCourseRepository();
+    courses.courses.set('course-1', course(LESSONS));
+    service = new SkillTreesService(skillTrees, students, courses, slides);
+
+    treeId = (await skillTrees.create('course-1')).id;
+    const inserted: SkillNode[] = await skillTrees.insertNodes([
+      node('intro'),
+      node('history', ['intro'], { optional: true }),
+      node('lenses', ['intro']),
+      node('mirrors', ['intro']),
+      node('optics', ['lenses', 'mirrors', 'history']),
+    ]);
+    ids = Object.fromEntries(inserted.map((n) => [n.lessonPlanId, n.id]));
+  });
+
+  it('starts every student at the roots', async () => {
+    expect(await states()).toEqual({
+      intro: 'available',
+      history: 'locked',
+      lenses: 'locked',
+      mirrors: 'locked',
+      optics: 'locked',
+    });
+  });
+
+  it('unlocks children once all required parents are completed', async () => {
+    const first = await service.complete(treeId, ids.intro, 'ada');
+    expect(first.unlocked.sort()).toEqual(
+      [ids.history, ids.lenses, ids.mirrors].sort(),
+    );
+
+    await service.start(treeId, ids.lenses, 'ada');
+    await service.complete(treeId, ids.lenses, 'ada');
+    expect(await states()).toMatchObject({
+      lenses: 'completed',
+      optics: 'locked',
+    });
+
+    const last = await service.complete(treeId, ids.mirrors, 'ada');
+    // The optional history node doesn't hold optics back
+    expect(last.unlocked).toEqual([ids.optics]);
+    expect(last.completed).toBe(3);
+    expect(await states()).toMatchObject({ history: 'available' });
+  });
+
+  it('keeps each student on their own progress', async () => {
+    await service.start(treeId, ids.intro, 'ada');
+
+    expect((await states('ada')).intro).toBe('in_progress');
+    expect((await states('bob')).intro).toBe('available');
+  });
+
+  it('applies "any" unlock rules set after generation', async () => {
+    await service.configureNode(treeId, ids.optics, { unlockRule: 'any' });
+    await service.complete(treeId, ids.intro, 'ada');
+    await service.complete(treeId, ids.history, 'ada');
+
+    expect((await states()).optics).toBe('available');
+  });
+
+  it('rejects progress on locked nodes and unknown students', async () => {
+    await expect(
+      service.complete(treeId, ids.optics, 'ada'),
+    ).rejects.toBeInstanceOf(ConflictException);
+    await expect(service.state(treeId, 'nobody')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    await expect(
+      service.complete(treeId, 'missing', 'ada'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  describe('sync', () => {
+    it('adds and retires nodes without moving the others or losing progress', async () => {
+      await service.complete(treeId, ids.intro, 'ada');
+      await service.complete(treeId, ids.lenses, 'ada');
+      courses.courses.set(
+        'course-1',
+        course(['intro', 'history', 'mirrors', 'prisms', 'optics']),
+      );
+
+      const result = await service.sync('course-1');
+
+      expect(result).toMatchObject({
+        treeId,
+        regenerated: false,
+        added: ['prisms'],
+        retired: ['lenses'],
+        restored: [],
+      });
+      const state = await service.state(treeId, 'ada');
+      const byLesson = Object.fromEntries(
+        state.nodes.map((n) => [n.lessonPlanId, n]),
+      );
+      expect(Object.keys(byLesson).sort()).toEqual(
+        ['history', 'intro', 'mirrors', 'optics', 'prisms'].sort(),
+      );
+      expect(byLesson.intro).toMatchObject({
+        x: 50,
+        y: 50,
+        state: 'completed',
+      });
+      expect(byLesson.prisms.dependencies).toEqual(['mirrors']);
+      // Optics now waits on what the retired lenses lesson waited on
+      expect(byLesson.optics.dependencies.sort()).toEqual(
+        ['history', 'intro', 'mirrors'].sort(),
+      );
+    });
+
+    it('restores a returning lesson with its progress', async () => {
+      await service.complete(treeId, ids.intro, 'ada');
+      await service.complete(treeId, ids.lenses, 'ada');
+      courses.courses.set('course-1', course(['intro', 'mirrors', 'optics']));
+      await service.sync('course-1');
+      courses.courses.set('course-1', course(LESSONS));
+
+      const result = await service.sync('course-1');
+
+      expect(result).toMatchObject({
+        added: [],
+        restored: ['history', 'lenses'],
+      });
+      expect((await states()).lenses).toBe('completed');
+    });
+
+    it('lays the whole tree out again on request, keeping node IDs', async () => {
+      await service.complete(treeId, ids.intro, 'ada');
+
+      const result = await service.sync('course-1', true);
+
+      expect(result.regenerated).toBe(true);
+      const nodes = await skillTrees.findNodes(treeId);
+      expect(nodes.map((n) => n.id).sort()).toEqual(Object.values(ids).sort());
+      expect(new Set(nodes.map((n) => n.x)).size).toBe(LESSONS.length);
+      expect((await states()).intro).toBe('completed');
+    });
+
+    it('creates the tree of a course that has none', async () => {
+      const result = await service.sync('course-2').catch((e: Error) => e);
+      expect(result).toBeInstanceOf(NotFoundException);
+
+      courses.courses.set('course-2', {
+        ...course(['a', 'b']),
+        id: 'course-2',
+      });
+      const created = await service.sync('course-2');
+
+      expect(created).toMatchObject({ regenerated: true, added: ['a', 'b'] });
+      expect(await skillTrees.findByCourse('course-2')).toEqual({
+        id: created.treeId,
+        courseId: 'course-2',
+      });
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  NewSkillNode,
+  SkillNode,
+  SkillNodeChanges,
+  SkillNodeSettings,
+  SkillProgress,
+  SkillTree,
+} from '../repositories/entities';
+import {
+  CourseRepository,
+  SkillTreeRepository,
+  StudentRepository,
+} from '../repositories/repositories';
+import { SlidesService } from '../slides/slides.service';
+import { bypassRemoved, placeNewNodes, PlacedNode } from './skill-tree-graph';
+import { nodeStates, SkillNodeState } from './skill-tree-progress';
+
+// A node as one student sees it; the generation-time `status` is left out.
+export interface SkillNodeView extends Omit<
+  SkillNode,
+  'status' | 'treeId' | 'retiredAt'
+> {
+  state: SkillNodeState;
+}
+
+export interface SkillTreeState {
+  treeId: string;
+  courseId: string;
+  studentId: string;
+  completed: number;
+  total: number;
+  nodes: SkillNodeView[];
+}
+
+// Lesson plan IDs whose nodes a sync touched.
+export interface SkillTreeSync {
+  treeId: string;
+  regenerated: boolean;
+  added: string[];
+  retired: string[];
+  restored: string[];
+}
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Tracks each student's progress through a course's skill tree. Node states
+ * are derived on every read from the student's progress records and the
+ * nodes' unlock rules, so changing a rule applies to everyone at once.
+ */
+@Injectable()
+export class SkillTreesService {
+  constructor(
+    private readonly skillTrees: SkillTreeRepository,
+    private readonly students: StudentRepository,
+    private readonly courses: CourseRepository,
+    private readonly slides: SlidesService,
+  ) {}
+
+  async state(treeId: string, studentId: string): Promise<SkillTreeState> {
+    const { tree, nodes } = await this.tree(treeId);
+    await this.student(studentId);
+    const progress = await this.skillTrees.findProgress(treeId, studentId);
+    return this.view(tree, studentId, nodes, progress);
+  }
+
+  async start(treeId: string, nodeId: string, studentId: string) {
+    const current = await this.state(treeId, studentId);
+    const node = this.node(current, nodeId);
+    if (node.state === 'locked') {
+      throw new ConflictException(`Skill node ${nodeId} is still locked`);
+    }
+    // Starting a completed node again doesn't undo the completion
+    if (node.state !== 'available') return current;
+    await this.skillTrees.saveProgress({
+      treeId,
+      nodeId,
+      studentId,
+      status: 'in_progress',
+    });
+    return this.state(treeId, studentId);
+  }
+
+  // Completes the node and reports the nodes it unlocked
+  async complete(treeId: string, nodeId: string, studentId: string) {
+    const before = await this.state(treeId, studentId);
+    const node = this.node(before, nodeId);
+    if (node.state === 'locked') {
+      throw new ConflictException(`Skill node ${nodeId} is still locked`);
+    }
+    if (node.state !== 'completed') {
+      await this.skillTrees.saveProgress({
+        treeId,
+        nodeId,
+        studentId,
+        status: 'completed',
+      });
+    }
+    const after = await this.state(treeId, studentId);
+    const wasLocked = new Set(
+      before.nodes.filter((n) => n.state === 'locked').map((n) => n.id),
+    );
+    const unlocked = after.nodes
+      .filter((n) => wasLocked.has(n.id) && n.state !== 'locked')
+      .map((n) => n.id);
+    return { ...after, unlocked };
+  }
+
+  async configureNode(
+    treeId: string,
+    nodeId: string,
+    settings: SkillNodeSettings,
+  ) {
+    const { nodes } = await this.tree(treeId);
+    if (!nodes.some((n) => n.id === nodeId)) {
+      throw new NotFoundException(`Skill node ${nodeId} not found`);
+    }
+    await this.skillTrees.updateNode(nodeId, settings);
+    const updated = await this.skillTrees.findNodes(treeId);
+    return updated.find((n) => n.id === nodeId)!;
+  }
+
+  /**
+   * Brings a course's tree in line with its current lessons. New lessons get
+   * a node between their neighbours, removed ones are retired (their
+   * children inherit their dependencies) and returning ones are restored.
+   * Existing nodes keep their IDs, so student progress is never lost; with
+   * `regenerate` they are also laid out afresh. Creates the tree if needed.
+   */
+  async sync(courseId: string, regenerate = false): Promise<SkillTreeSync> {
+    const course = await this.courses.findById(courseId);
+    if (!course) throw new NotFoundException(`Course ${courseId} not found`);
+    const lessons = course.modules.flatMap((m) => m.lessonPlans);
+    const current = new Set(lessons.map((l) => l.id));
+
+    const tree =
+      (await this.skillTrees.findByCourse(courseId)) ??
+      (await this.skillTrees.create(courseId));
+    const nodes = await this.skillTrees.findNodes(tree.id);
+    const byLesson = new Map(nodes.map((n) => [n.lessonPlanId, n]));
+
+    let layout: PlacedNode[];
+    const fresh = regenerate || nodes.length === 0;
+    if (fresh) {
+      layout = await this.slides.layoutSkillTree(course);
+    } else {
+      const removed = new Map(
+        nodes
+          .filter((n) => !current.has(n.lessonPlanId))
+          .map((n) => [n.lessonPlanId, n.dependencies]),
+      );
+      const kept = lessons.flatMap((lesson): PlacedNode[] => {
+        const node = byLesson.get(lesson.id);
+        if (!node) return [];
+        return [
+          {
+            lessonId: lesson.id,
+            x: node.x,
+            y: node.y,
+            dependencies: bypassRemoved(node.dependencies, removed),
+          },
+        ];
+      });
+      layout = [
+        ...kept,
+        ...placeNewNodes(
+          kept,
+          lessons.map((l) => l.id),
+        ),
+      ];
+    }
+
+    const result: SkillTreeSync = {
+      treeId: tree.id,
+      regenerated: fresh,
+      added: [],
+      retired: [],
+      restored: [],
+    };
+    const lessonsById = new Map(lessons.map((l) => [l.id, l]));
+    const inserts: NewSkillNode[] = [];
+    for (const placed of layout) {
+      const lesson = lessonsById.get(placed.lessonId)!;
+      const node = byLesson.get(placed.lessonId);
+      if (!node) {
+        result.added.push(lesson.id);
+        inserts.push({
+          treeId: tree.id,
+          lessonPlanId: lesson.id,
+          label: lesson.title,
+          x: placed.x,
+          y: placed.y,
+          dependencies: placed.dependencies,
+          status: lesson.status || 'locked',
+          unlockRule: 'all',
+          optional: false,
+          retiredAt: null,
+        });
+        continue;
+      }
+      const changes: SkillNodeChanges = {};
+      if (node.label !== lesson.title) changes.label = lesson.title;
+      if (node.x !== placed.x || node.y !== placed.y) {
+        changes.x = placed.x;
+        changes.y = placed.y;
+      }
+      if (!sameIds(node.dependencies, placed.dependencies)) {
+        changes.dependencies = placed.dependencies;
+      }
+      if (node.retiredAt) {
+        changes.retiredAt = null;
+        result.restored.push(lesson.id);
+      }
+      if (Object.keys(changes).length > 0) {
+        await this.skillTrees.updateNode(node.id, changes);
+      }
+    }
+    await this.skillTrees.insertNodes(inserts);
+
+    const retiredAt = new Date().toISOString();
+    for (const node of nodes) {
+      if (current.has(node.lessonPlanId) || node.retiredAt) continue;
+      await this.skillTrees.updateNode(node.id, { retiredAt });
+      result.retired.push(node.lessonPlanId);
+    }
+    return result;
+  }
+
+  // Retired nodes are left out: they can't be seen, started or configured
+  private async tree(treeId: string) {
+    const tree = await this.skillTrees.findById(treeId);
+    if (!tree) throw new NotFoundException(`Skill tree ${treeId} not found`);
+    const nodes = await this.skillTrees.findNodes(treeId);
+    return { tree, nodes: nodes.filter((n) => !n.retiredAt) };
+  }
+
+  private async student(studentId: string) {
+    if (!(await this.students.findById(studentId))) {
+      throw new NotFoundException(`Student ${studentId} not found`);
+    }
+  }
+
+  private node(state: SkillTreeState, nodeId: string) {
+    const node = state.nodes.find((n) => n.id === nodeId);
+    if (!node) throw new NotFoundException(`Skill node ${nodeId} not found`);
+    return node;
+  }
+
+  private view(
+    tree: SkillTree,
+    studentId: string,
+    nodes: SkillNode[],
+    progress: SkillProgress[],
+  ): SkillTreeState {
+    const states = nodeStates(nodes, progress);
+    const views = nodes.map(
+      (node): SkillNodeView => ({
+        id: node.id,
+        lessonPlanId: node.lessonPlanId,
+        label: node.label,
+        x: node.x,
+        y: node.y,
+        dependencies: node.dependencies,
+        unlockRule: node.unlockRule,
+        optional: node.optional,
+        state: states.get(node.id)!,
+      }),
+    );
+    return {
+      treeId: tree.id,
+      courseId: tree.courseId,
+      studentId,
+      completed: views.filter((n) => n.state === 'completed').length,
+      total: views.length,
+      nodes: views,
+    };
+  }
+}
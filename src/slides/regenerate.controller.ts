@@ -0,0 +1,113 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { JobsService } from '../jobs/jobs.service';
+import { LessonRepository } from '../repositories/repositories';
+import { SlideThemesService } from './slide-themes.service';
+import { RegeneratePartDto, RegenerateSlideDto } from './slides.dto';
+import { StoredComic, TimedSlide } from './slides.schemas';
+
+// An optional replacement for the stored image prompt; blank means "same prompt, new attempt".
+export function promptOverride(prompt?: string) {
+  return prompt?.trim() || undefined;
+}
+
+/**
+ * Redraws a single slide or comic page of a finished lesson asset, then
+ * re-renders the video or rebinds the comic around it. The redraw runs as
+ * a job of the asset's pipeline, so it can't overlap a full run.
+ */
+@Controller('lessons/:lessonId')
+export class RegenerateController {
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly lessons: LessonRepository,
+    private readonly themes: SlideThemesService,
+    private readonly access: AccessService,
+  ) {}
+
+  private async lesson(principal: Principal, lessonId: string) {
+    await this.access.checkLesson(principal, lessonId);
+    const lesson = await this.lessons.findById(lessonId);
+    if (!lesson) throw new NotFoundException(`Lesson ${lessonId} not found`);
+    return lesson;
+  }
+
+  // `index` is zero-based, as in `video_manifest`
+  @Post('slides/:index/regenerate')
+  async regenerateSlide(
+    @CurrentPrincipal() principal: Principal,
+    @Param('lessonId', ParseUUIDPipe) lessonId: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Body() body: RegenerateSlideDto,
+  ) {
+    const lesson = await this.lesson(principal, lessonId);
+    if (body.courseId) await this.access.checkCourse(principal, body.courseId);
+    const manifest = lesson.videoManifest as TimedSlide[] | null;
+    if (lesson.videoStatus !== 'ready' || !Array.isArray(manifest)) {
+      throw new BadRequestException(
+        `Lesson ${lessonId} has no finished slide video`,
+      );
+    }
+    if (index < 0 || index >= manifest.length) {
+      throw new NotFoundException(
+        `Slide ${index} not found; the video has slides 0-${manifest.length - 1}`,
+      );
+    }
+    if (body.theme && !this.themes.has(body.theme)) {
+      throw new BadRequestException(`Unknown slide theme "${body.theme}"`);
+    }
+    const job = await this.jobsService.enqueue(
+      'slides',
+      lessonId,
+      {
+        regenerate: index,
+        prompt: promptOverride(body.prompt),
+        title: body.title,
+        burnCaptions: body.burnCaptions ?? false,
+        theme: body.theme,
+        courseId: body.courseId,
+      },
+      { exclusive: true },
+    );
+    return { message: `Redrawing slide ${index}`, jobId: job.id };
+  }
+
+  // `page` is the storyboard's page number, starting at 1
+  @Post('comic/pages/:page/regenerate')
+  async regenerateComicPage(
+    @CurrentPrincipal() principal: Principal,
+    @Param('lessonId', ParseUUIDPipe) lessonId: string,
+    @Param('page', ParseIntPipe) page: number,
+    @Body() body: RegeneratePartDto,
+  ) {
+    const lesson = await this.lesson(principal, lessonId);
+    const comic = lesson.comicManifest as StoredComic | null;
+    if (lesson.comicStatus !== 'ready' || !comic) {
+      // Comics made before manifests were stored have nothing to redraw from
+      throw new BadRequestException(
+        `Lesson ${lessonId} has no finished comic that can be redrawn; generate it again first`,
+      );
+    }
+    if (!comic.pages.some((p) => p.page === page)) {
+      throw new NotFoundException(`Comic page ${page} not found`);
+    }
+    const job = await this.jobsService.enqueue(
+      'comic',
+      lessonId,
+      { regenerate: page, prompt: promptOverride(body.prompt) },
+      { exclusive: true },
+    );
+    return { message: `Redrawing comic page ${page}`, jobId: job.id };
+  }
+}
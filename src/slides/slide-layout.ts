@@ -0,0 +1,264 @@
+import { detectScript, FontResolver } from '../media/fonts';
+import { fitText } from '../media/text-layout';
+import { SlideLayoutVariant, SlideTheme } from './slide-themes';
+import { Slide } from './slides.schemas';
+
+export const FRAME_WIDTH = 1920;
+export const FRAME_HEIGHT = 1080;
+
+export interface TextBlock {
+  text: string;
+  // Pixels, or an FFmpeg drawtext expression such as `(w-text_w)/2`.
+  x: number | string;
+  y: number | string;
+  fontSize: number;
+  lineHeight: number;
+  fontFile?: string;
+  color: string;
+}
+
+export interface ImagePlacement {
+  // `cover` fills the frame behind the text; `inset` is a square at x/y.
+  mode: 'inset' | 'cover';
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface SlideLayout {
+  image: ImagePlacement | null;
+  blocks: TextBlock[];
+}
+
+const PADDING = 100;
+const GUTTER = 40;
+const TITLE_TOP = 110;
+const TITLE_HEIGHT = 200;
+const BODY_TOP = 350;
+const BODY_BOTTOM = 1020;
+const BULLET_INDENT = 45;
+
+/** The slide's own layout if the manifest chose one, otherwise a fit for its content. */
+export function chooseLayout(
+  slide: Slide,
+  theme: SlideTheme,
+): SlideLayoutVariant {
+  if (slide.layout) return slide.layout;
+  if (slide.bullets.length === 0) return 'title-only';
+  if (slide.bullets.length > 5) return 'two-column';
+  return theme.layout;
+}
+
+class Typesetter {
+  constructor(
+    private readonly theme: SlideTheme,
+    private readonly fonts: FontResolver,
+  ) {}
+
+  font(text: string, role: 'title' | 'body') {
+    const themed = this.theme.fonts[role];
+    if (themed && detectScript(text) === 'latin') return themed;
+    return this.fonts.resolve(text, role === 'title' ? 'bold' : 'regular');
+  }
+
+  // Bottom-anchored so one-line titles sit where the body text starts.
+  title(text: string, left: number, right: number): TextBlock {
+    const fitted = fitText([text], {
+      maxWidth: right - left,
+      maxHeight: TITLE_HEIGHT,
+      maxFontSize: this.theme.titleSize,
+      minFontSize: Math.round(this.theme.titleSize * 0.6),
+      lineSpacing: 1.15,
+    });
+    const lines = fitted.paragraphs[0] ?? [];
+    return {
+      text: lines.join('\n'),
+      x: left,
+      y: TITLE_TOP + TITLE_HEIGHT - lines.length * fitted.lineHeight,
+      fontSize: fitted.fontSize,
+      lineHeight: fitted.lineHeight,
+      fontFile: this.font(text, 'title'),
+      color: this.theme.titleColor,
+    };
+  }
+
+  fitBullets(bullets: string[], width: number, maxFontSize: number) {
+    return fitText(bullets, {
+      maxWidth: width - BULLET_INDENT,
+      maxHeight: BODY_BOTTOM - BODY_TOP,
+      maxFontSize,
+      minFontSize: Math.round(this.theme.bodySize * 0.6),
+      lineSpacing: 1.3,
+      paragraphSpacing: 0.8,
+    });
+  }
+
+  bullets(
+    bullets: string[],
+    left: number,
+    right: number,
+    maxFontSize = this.theme.bodySize,
+  ) {
+    const fitted = this.fitBullets(bullets, right - left, maxFontSize);
+    const blocks: TextBlock[] = [];
+    let y = BODY_TOP;
+    fitted.paragraphs.forEach((lines, i) => {
+      const common = {
+        y,
+        fontSize: fitted.fontSize,
+        lineHeight: fitted.lineHeight,
+      };
+      blocks.push(
+        {
+          ...common,
+          text: '•',
+          x: left,
+          fontFile: this.font('•', 'body'),
+          color: this.theme.accentColor,
+        },
+        {
+          ...common,
+          text: lines.join('\n'),
+          x: left + BULLET_INDENT,
+          fontFile: this.font(bullets[i], 'body'),
+          color: this.theme.bodyColor,
+        },
+      );
+      y += lines.length * fitted.lineHeight + fitted.paragraphGap;
+    });
+    return blocks;
+  }
+
+  // Horizontally centred lines, used by title-only slides and intro/outro cards.
+  centered(lines: { text: string; role: 'title' | 'body' }[]) {
+    const width = FRAME_WIDTH - 2 * PADDING;
+    const fitted = lines.map(({ text, role }) => {
+      const size =
+        role === 'title' ? this.theme.titleSize * 1.3 : this.theme.bodySize;
+      return {
+        role,
+        text,
+        fit: fitText([text], {
+          maxWidth: width,
+          maxHeight: FRAME_HEIGHT / 3,
+          maxFontSize: Math.round(size),
+          minFontSize: Math.round(size * 0.5),
+          lineSpacing: 1.15,
+        }),
+      };
+    });
+    const gap = 40;
+    const height =
+      fitted.reduce(
+        (sum, { fit }) => sum + fit.paragraphs[0].length * fit.lineHeight,
+        0,
+      ) +
+      gap * (fitted.length - 1);
+
+    let y = Math.round((FRAME_HEIGHT - height) / 2);
+    return fitted.map(({ role, text, fit }): TextBlock => {
+      const block = {
+        text: fit.paragraphs[0].join('\n'),
+        x: '(w-text_w)/2',
+        y,
+        fontSize: fit.fontSize,
+        lineHeight: fit.lineHeight,
+        fontFile: this.font(text, role),
+        color: role === 'title' ? this.theme.titleColor : this.theme.bodyColor,
+      };
+      y += fit.paragraphs[0].length * fit.lineHeight + gap;
+      return block;
+    });
+  }
+}
+
+/** Positions a slide's image, title and bullets for the given layout variant and theme. */
+export function layoutSlide(
+  slide: Slide,
+  variant: SlideLayoutVariant,
+  theme: SlideTheme,
+  fonts: FontResolver,
+): SlideLayout {
+  const type = new Typesetter(theme, fonts);
+  const { size, margin } = theme.image;
+  const imageY = Math.round((FRAME_HEIGHT - size) / 2);
+
+  switch (variant) {
+    case 'image-right': {
+      const x = FRAME_WIDTH - size - margin;
+      return {
+        image: { mode: 'inset', x, y: imageY, size },
+        blocks: [
+          type.title(slide.title, PADDING, x - GUTTER),
+          ...type.bullets(slide.bullets, PADDING, x - GUTTER),
+        ],
+      };
+    }
+    case 'image-left': {
+      const left = margin + size + GUTTER + 20;
+      return {
+        image: { mode: 'inset', x: margin, y: imageY, size },
+        blocks: [
+          type.title(slide.title, left, FRAME_WIDTH - PADDING),
+          ...type.bullets(slide.bullets, left, FRAME_WIDTH - PADDING),
+        ],
+      };
+    }
+    case 'full-bleed':
+      return {
+        image: { mode: 'cover', x: 0, y: 0, size: FRAME_WIDTH },
+        blocks: [
+          type.title(slide.title, PADDING, FRAME_WIDTH - PADDING),
+          ...type.bullets(slide.bullets, PADDING, FRAME_WIDTH - PADDING),
+        ],
+      };
+    case 'title-only':
+      return {
+        image: null,
+        blocks: type.centered([{ text: slide.title, role: 'title' }]),
+      };
+    case 'two-column': {
+      const half = Math.ceil(slide.bullets.length / 2);
+      const columns = [slide.bullets.slice(0, half), slide.bullets.slice(half)];
+      const mid = FRAME_WIDTH / 2;
+      const bounds: [number, number][] = [
+        [PADDING, mid - GUTTER],
+        [mid + GUTTER, FRAME_WIDTH - PADDING],
+      ];
+      // Both columns share the smaller of their best-fit font sizes.
+      const fontSize = Math.min(
+        ...columns.map(
+          (bullets, i) =>
+            type.fitBullets(
+              bullets,
+              bounds[i][1] - bounds[i][0],
+              theme.bodySize,
+            ).fontSize,
+        ),
+      );
+      return {
+        image: null,
+        blocks: [
+          type.title(slide.title, PADDING, FRAME_WIDTH - PADDING),
+          ...columns.flatMap((bullets, i) =>
+            type.bullets(bullets, bounds[i][0], bounds[i][1], fontSize),
+          ),
+        ],
+      };
+    }
+  }
+}
+
+/** A full-frame card with centred text for the intro and outro. */
+export function layoutCard(
+  lines: { text: string; role: 'title' | 'body' }[],
+  theme: SlideTheme,
+  fonts: FontResolver,
+): SlideLayout {
+  return {
+    image: null,
+    blocks: new Typesetter(theme, fonts).centered(
+      lines.filter((line) => line.text.trim()),
+    ),
+  };
+}
@@ -0,0 +1,147 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FontResolver } from '../media/fonts';
+import { measureText } from '../media/text-layout';
+import { chooseLayout, FRAME_WIDTH, layoutSlide } from './slide-layout';
+import { slideVideoFilter } from './slide-render';
+import { SLIDE_LAYOUTS } from './slide-themes';
+import { SlideThemesService } from './slide-themes.service';
+import { Slide } from './slides.schemas';
+
+const slide: Slide = {
+  title: 'Why the sky is blue: Rayleigh scattering explained',
+  bullets: [
+    'Sunlight contains every visible wavelength',
+    'Short wavelengths scatter off air molecules far more than long ones',
+    'We see that scattered blue light from every direction',
+  ],
+  image_prompt: 'sky',
+  narration: 'text',
+};
+
+describe('slide themes and layouts', () => {
+  const themes = new SlideThemesService(new ConfigService());
+  const fonts = new FontResolver();
+
+  it('keeps every layout variant inside the frame', () => {
+    for (const variant of SLIDE_LAYOUTS) {
+      const layout = layoutSlide(slide, variant, themes.resolve(), fonts);
+      for (const block of layout.blocks) {
+        if (typeof block.x !== 'number') continue;
+        for (const line of block.text.split('\n')) {
+          expect(
+            block.x + measureText(line, block.fontSize),
+          ).toBeLessThanOrEqual(FRAME_WIDTH);
+        }
+      }
+    }
+  });
+
+  it('falls back to a layout that suits the content', () => {
+    const theme = themes.resolve('paper');
+    expect(chooseLayout(slide, theme)).toBe('image-left');
+    expect(chooseLayout({ ...slide, bullets: [] }, theme)).toBe('title-only');
+    expect(chooseLayout({ ...slide, layout: 'full-bleed' }, theme)).toBe(
+      'full-bleed',
+    );
+  });
+
+  it('resolves the first known theme, then the default', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(themes.resolve('nope', 'contrast').name).toBe('contrast');
+    expect(themes.resolve(undefined, null).name).toBe('seeker');
+  });
+
+  it('renders theme colours, logo and watermark into the filter graph', () => {
+    const theme = {
+      ...themes.resolve('seeker'),
+      watermark: {
+        text: 'Hill Valley High',
+        corner: 'bottom-right' as const,
+        color: 'white',
+        opacity: 0.35,
+        fontSize: 28,
+      },
+      logo: {
+        source: '/logo.png',
+        corner: 'top-left' as const,
+        width: 160,
+        opacity: 0.8,
+        margin: 40,
+      },
+    };
+    const texts: string[] = [];
+    const filter = slideVideoFilter(
+      layoutSlide(slide, 'image-right', theme, fonts),
+      theme,
+      { image: '0:v', logo: '2:v' },
+      (text) => {
+        texts.push(text);
+        return `/tmp/t${texts.length}.txt`;
+      },
+    );
+
+    expect(filter).toContain('c=0x062012[bg]');
+    expect(filter).toContain('[bg][img]overlay=900:60[base]');
+    expect(filter).toContain('fontcolor=0x22c55e');
+    expect(filter).toContain('x=w-text_w-40');
+    expect(filter).toContain('[txt][logo]overlay=40:40[outv]');
+    expect(texts).toContain('Hill Valley High');
+    expect(texts.join(' ')).toContain('Rayleigh scattering');
+  });
+});
+
+describe('SlideThemesService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'themes-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('loads theme files and resolves their paths against the directory', () => {
+    fs.writeFileSync(
+      path.join(dir, 'school.json'),
+      JSON.stringify({
+        name: 'school',
+        background: '#ffffff',
+        titleColor: '0x7f1d1d',
+        bodyColor: 'black',
+        accentColor: '0x7f1d1d',
+        fonts: { title: 'fonts/Brand-Bold.ttf' },
+        logo: { source: 'crest.png', corner: 'top-right' },
+        outro: { text: 'Go Tigers!' },
+      }),
+    );
+    const themes = new SlideThemesService(
+      new ConfigService({ SLIDE_THEMES_DIR: dir, SLIDE_THEME: 'school' }),
+    );
+
+    const theme = themes.resolve();
+    expect(theme.name).toBe('school');
+    expect(theme.fonts.title).toBe(path.join(dir, 'fonts/Brand-Bold.ttf'));
+    expect(theme.logo).toMatchObject({
+      source: path.join(dir, 'crest.png'),
+      width: 160,
+    });
+    expect(theme.outro).toEqual({ text: 'Go Tigers!', seconds: 3 });
+  });
+
+  it('rejects invalid theme files with the offending fields', () => {
+    fs.writeFileSync(
+      path.join(dir, 'bad.json'),
+      JSON.stringify({ name: 'bad', background: 'not a colour!' }),
+    );
+    expect(
+      () =>
+        new SlideThemesService(new ConfigService({ SLIDE_THEMES_DIR: dir })),
+    ).toThrow(/Invalid slide theme bad\.json: background/);
+  });
+});
@@ -0,0 +1,106 @@
+import { drawtextFilter } from '../media/drawtext';
+import { escapeFilterValue } from '../media/ffmpeg-escape';
+import {
+  FRAME_HEIGHT,
+  FRAME_WIDTH,
+  SlideLayout,
+  TextBlock,
+} from './slide-layout';
+import { Corner, SlideTheme } from './slide-themes';
+
+export interface RenderInputs {
+  // Stream specifiers such as `0:v`; omit when the clip has no such input.
+  image?: string;
+  logo?: string;
+}
+
+// drawtext expressions for a block anchored to a corner.
+function cornerText(corner: Corner, margin: number) {
+  const [vertical, horizontal] = corner.split('-');
+  return {
+    x: horizontal === 'left' ? margin : `w-text_w-${margin}`,
+    y: vertical === 'top' ? margin : `h-text_h-${margin}`,
+  };
+}
+
+// overlay expressions for an image anchored to a corner.
+function cornerOverlay(corner: Corner, margin: number) {
+  const [vertical, horizontal] = corner.split('-');
+  const x = horizontal === 'left' ? margin : `W-w-${margin}`;
+  const y = vertical === 'top' ? margin : `H-h-${margin}`;
+  return `${x}:${y}`;
+}
+
+/**
+ * Builds the video half of a slide's filter graph: background, image,
+ * text, watermark and logo, ending in `[outv]`. Each text block is written
+ * out through `textFile` so drawtext reads it verbatim.
+ */
+export function slideVideoFilter(
+  layout: SlideLayout,
+  theme: SlideTheme,
+  inputs: RenderInputs,
+  textFile: (text: string) => string,
+) {
+  const parts = [
+    `color=s=${FRAME_WIDTH}x${FRAME_HEIGHT}:r=25:c=${escapeFilterValue(theme.background)}[bg]`,
+  ];
+
+  const { image } = layout;
+  if (image && inputs.image && image.mode === 'cover') {
+    // Darken the picture so text stays readable on top of it.
+    parts.push(
+      `[${inputs.image}]scale=${FRAME_WIDTH}:${FRAME_HEIGHT}:force_original_aspect_ratio=increase,crop=${FRAME_WIDTH}:${FRAME_HEIGHT},setsar=1,drawbox=x=0:y=0:w=iw:h=ih:color=black@0.55:t=fill[base]`,
+    );
+  } else if (image && inputs.image) {
+    const { borderWidth, borderColor } = theme.image;
+    const border =
+      borderWidth > 0 && borderColor
+        ? `,pad=iw+${2 * borderWidth}:ih+${2 * borderWidth}:${borderWidth}:${borderWidth}:color=${escapeFilterValue(borderColor)}`
+        : '';
+    parts.push(
+      `[${inputs.image}]scale=${image.size}:${image.size}:force_original_aspect_ratio=increase,crop=${image.size}:${image.size}${border}[img]`,
+      `[bg][img]overlay=${image.x - (border ? borderWidth : 0)}:${image.y - (border ? borderWidth : 0)}[base]`,
+    );
+  } else {
+    parts.push('[bg]null[base]');
+  }
+
+  const blocks: TextBlock[] = [...layout.blocks];
+  if (theme.watermark) {
+    const { text, corner, color, opacity, fontSize } = theme.watermark;
+    blocks.push({
+      text,
+      ...cornerText(corner, 40),
+      fontSize,
+      lineHeight: fontSize,
+      color: `${color}@${opacity}`,
+    });
+  }
+  const text = blocks
+    .map((block) =>
+      drawtextFilter({
+        textFile: textFile(block.text),
+        fontFile: block.fontFile,
+        x: block.x,
+        y: block.y,
+        fontSize: block.fontSize,
+        color: block.color,
+        lineSpacing: block.lineHeight - block.fontSize,
+      }),
+    )
+    .join(',');
+  parts.push(`[base]${text || 'null'}[txt]`);
+
+  if (theme.logo && inputs.logo) {
+    const { width, opacity, corner, margin } = theme.logo;
+    parts.push(
+      `[${inputs.logo}]scale=${width}:-1,format=rgba,colorchannelmixer=aa=${opacity}[logo]`,
+      `[txt][logo]overlay=${cornerOverlay(corner, margin)}[outv]`,
+    );
+  } else {
+    parts.push('[txt]null[outv]');
+  }
+
+  return parts.join(';');
+}
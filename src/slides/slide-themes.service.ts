@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BUILT_IN_THEMES,
+  DEFAULT_SLIDE_THEME,
+  SlideTheme,
+  slideThemeSchema,
+} from './slide-themes';
+
+const isUrl = (source: string) => /^https?:\/\//.test(source);
+
+/**
+ * Built-in slide themes plus any `*.json` theme files in SLIDE_THEMES_DIR.
+ * Font and logo paths in a theme file are relative to that directory.
+ */
+@Injectable()
+export class SlideThemesService {
+  private readonly themes = new Map<string, SlideTheme>();
+  private readonly defaultTheme: string;
+
+  constructor(config: ConfigService) {
+    for (const input of BUILT_IN_THEMES) {
+      const theme = slideThemeSchema.parse(input);
+      this.themes.set(theme.name, theme);
+    }
+
+    const dir = config.get<string>('SLIDE_THEMES_DIR');
+    if (dir) this.loadDirectory(path.resolve(dir));
+
+    this.defaultTheme =
+      config.get<string>('SLIDE_THEME') ?? DEFAULT_SLIDE_THEME;
+    if (!this.themes.has(this.defaultTheme)) {
+      throw new Error(
+        `SLIDE_THEME "${this.defaultTheme}" is not a known theme`,
+      );
+    }
+  }
+
+  list() {
+    return [...this.themes.values()];
+  }
+
+  has(name: string) {
+    return this.themes.has(name);
+  }
+
+  /** The first named theme that exists (e.g. request, then course), else the default. */
+  resolve(...candidates: (string | null | undefined)[]) {
+    for (const name of candidates) {
+      if (!name) continue;
+      const theme = this.themes.get(name);
+      if (theme) return theme;
+      console.warn(`⚠️  Unknown slide theme "${name}", trying the next one`);
+    }
+    return this.themes.get(this.defaultTheme)!;
+  }
+
+  /** A local file for the theme's logo, downloading it into `dir` if it's a URL. */
+  async logoFile(theme: SlideTheme, dir: string) {
+    if (!theme.logo) return undefined;
+    if (!isUrl(theme.logo.source)) return theme.logo.source;
+
+    const response = await fetch(theme.logo.source);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch logo for theme ${theme.name}: HTTP ${response.status}`,
+      );
+    }
+    const file = path.join(dir, `logo_${theme.name}.png`);
+    fs.writeFileSync(file, Buffer.from(await response.arrayBuffer()));
+    return file;
+  }
+
+  private loadDirectory(dir: string) {
+    const files = fs.readdirSync(dir).filter((f) => f.endsWith('.json'));
+    for (const file of files) {
+      const raw: unknown = JSON.parse(
+        fs.readFileSync(path.join(dir, file), 'utf8'),
+      );
+      const result = slideThemeSchema.safeParse(raw);
+      if (!result.success) {
+        const issues = result.error.issues
+          .map((i) => `${i.path.join('.')}: ${i.message}`)
+          .join('; ');
+        throw new Error(`Invalid slide theme ${file}: ${issues}`);
+      }
+
+      const theme = result.data;
+      const local = (p?: string) => (p ? path.resolve(dir, p) : p);
+      theme.fonts = {
+        title: local(theme.fonts.title),
+        body: local(theme.fonts.body),
+      };
+      if (theme.logo && !isUrl(theme.logo.source)) {
+        theme.logo.source = path.resolve(dir, theme.logo.source);
+      }
+      this.themes.set(theme.name, theme);
+      console.log(`🎨 Loaded slide theme "${theme.name}" from ${file}`);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+export const SLIDE_LAYOUTS = [
+  'image-right',
+  'image-left',
+  'full-bleed',
+  'title-only',
+  'two-column',
+] as const;
+export type SlideLayoutVariant = (typeof SLIDE_LAYOUTS)[number];
+
+// Anything FFmpeg's colour parser accepts: `0x1e3a8a`, `#1e3a8a`, `white`, optionally `@0.5` alpha.
+const color = z
+  .string()
+  .regex(
+    /^(0x|#)?([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$|^[a-zA-Z]+$/,
+    'not a colour',
+  );
+const corner = z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']);
+
+export const slideThemeSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, 'use lowercase letters, digits and -'),
+  background: color,
+  titleColor: color,
+  bodyColor: color,
+  accentColor: color,
+  // Font files for Latin text; other scripts always fall back to a covering Noto font.
+  fonts: z
+    .object({ title: z.string().optional(), body: z.string().optional() })
+    .prefault({}),
+  titleSize: z.number().int().min(24).max(120).default(65),
+  bodySize: z.number().int().min(16).max(72).default(40),
+  // Used when the manifest doesn't pick a layout for a slide.
+  layout: z.enum(SLIDE_LAYOUTS).default('image-right'),
+  image: z
+    .object({
+      size: z.number().int().min(200).max(1080).default(960),
+      margin: z.number().int().min(0).default(60),
+      borderColor: color.optional(),
+      borderWidth: z.number().int().min(0).default(0),
+    })
+    .prefault({}),
+  // Local path (relative to SLIDE_THEMES_DIR) or http(s) URL of a PNG.
+  logo: z
+    .object({
+      source: z.string().min(1),
+      corner: corner.default('top-left'),
+      width: z.number().int().positive().default(160),
+      opacity: z.number().min(0).max(1).default(1),
+      margin: z.number().int().min(0).default(40),
+    })
+    .optional(),
+  watermark: z
+    .object({
+      text: z.string().min(1),
+      corner: corner.default('bottom-right'),
+      color: color.default('white'),
+      opacity: z.number().min(0).max(1).default(0.35),
+      fontSize: z.number().int().positive().default(28),
+    })
+    .optional(),
+  intro: z
+    .object({
+      seconds: z.number().positive().max(15).default(3),
+      subtitle: z.string().optional(),
+    })
+    .optional(),
+  outro: z
+    .object({
+      seconds: z.number().positive().max(15).default(3),
+      text: z.string().min(1),
+    })
+    .optional(),
+});
+
+export type SlideTheme = z.infer<typeof slideThemeSchema>;
+export type SlideThemeInput = z.input<typeof slideThemeSchema>;
+export type Corner = z.infer<typeof corner>;
+
+export const BUILT_IN_THEMES: SlideThemeInput[] = [
+  // The original Seeker look.
+  {
+    name: 'seeker',
+    background: '0x062012',
+    titleColor: '0x22c55e',
+    bodyColor: 'white',
+    accentColor: '0x22c55e',
+  },
+  {
+    name: 'paper',
+    background: '0xf8f5ee',
+    titleColor: '0x1e3a8a',
+    bodyColor: '0x1f2937',
+    accentColor: '0xd97706',
+    layout: 'image-left',
+    image: { size: 900, margin: 90, borderColor: '0x1e3a8a', borderWidth: 6 },
+  },
+  // Larger type and maximum contrast for low-vision learners.
+  {
+    name: 'contrast',
+    background: 'black',
+    titleColor: '0xffff00',
+    bodyColor: 'white',
+    accentColor: '0xffff00',
+    titleSize: 76,
+    bodySize: 48,
+    image: { size: 840, margin: 60 },
+  },
+];
+
+export const DEFAULT_SLIDE_THEME = 'seeker';
@@ -0,0 +1,56 @@
+import { crossfadeFilter, slideTimeline } from './slide-timing';
+
+describe('slideTimeline', () => {
+  it('pads narration and overlaps slides by the crossfade', () => {
+    const timeline = slideTimeline([4, 10], {
+      leadIn: 0.5,
+      tail: 1,
+      crossfade: 0.5,
+    });
+
+    expect(timeline.slides).toEqual([
+      {
+        duration: 5.5,
+        start: 0,
+        end: 5.5,
+        narrationStart: 0.5,
+        narrationEnd: 4.5,
+      },
+      {
+        duration: 11.5,
+        start: 5,
+        end: 16.5,
+        narrationStart: 5.5,
+        narrationEnd: 15.5,
+      },
+    ]);
+    expect(timeline.duration).toBe(16.5);
+    expect(crossfadeFilter(timeline)).toBe(
+      '[0:v][1:v]xfade=transition=fade:duration=0.5:offset=5.000[outv];' +
+        '[0:a][1:a]acrossfade=d=0.5[outa]',
+    );
+  });
+
+  it('shortens the crossfade for very short slides and skips it for one slide', () => {
+    const opts = { leadIn: 0, tail: 0, crossfade: 2 };
+    expect(slideTimeline([1, 3], opts).crossfade).toBe(0.5);
+    expect(slideTimeline([3], opts)).toMatchObject({
+      crossfade: 0,
+      duration: 3,
+    });
+  });
+
+  it('places intro and outro cards around the slides', () => {
+    const timeline = slideTimeline(
+      [4],
+      { leadIn: 0, tail: 0, crossfade: 1 },
+      { intro: 3, outro: 2 },
+    );
+
+    expect(timeline.clips.map((clip) => clip.start)).toEqual([0, 2, 5]);
+    expect(timeline.slides).toEqual([
+      { duration: 4, start: 2, end: 6, narrationStart: 2, narrationEnd: 6 },
+    ]);
+    expect(timeline.duration).toBe(7);
+  });
+});
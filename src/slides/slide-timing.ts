@@ -0,0 +1,97 @@
+export interface SlideTimingOptions {
+  leadIn: number; // silence before the narration starts, seconds
+  tail: number; // silence after it ends
+  crossfade: number; // overlap between consecutive clips; 0 for hard cuts
+}
+
+// Silent title cards rendered before and after the slides, in seconds.
+export interface TimelineCards {
+  intro?: number;
+  outro?: number;
+}
+
+export interface ClipTiming {
+  duration: number; // length of the rendered clip
+  start: number; // position in the final video
+  end: number;
+}
+
+export interface SlideTiming extends ClipTiming {
+  narrationStart: number;
+  narrationEnd: number;
+}
+
+export interface SlideTimeline {
+  // Every rendered clip in playback order, cards included.
+  clips: ClipTiming[];
+  slides: SlideTiming[];
+  // Effective crossfade, shortened if a clip is too brief to overlap fully.
+  crossfade: number;
+  duration: number;
+}
+
+/**
+ * Lays clips out back to back from the slides' narration lengths. With a
+ * crossfade, each clip starts `crossfade` seconds before the previous one
+ * ends, which is exactly where FFmpeg's xfade/acrossfade place the overlap.
+ */
+export function slideTimeline(
+  narrationSeconds: number[],
+  options: SlideTimingOptions,
+  cards: TimelineCards = {},
+): SlideTimeline {
+  const slideDurations = narrationSeconds.map(
+    (seconds) => options.leadIn + seconds + options.tail,
+  );
+  const durations = [
+    ...(cards.intro ? [cards.intro] : []),
+    ...slideDurations,
+    ...(cards.outro ? [cards.outro] : []),
+  ];
+  const shortest = Math.min(...durations);
+  const crossfade =
+    durations.length > 1
+      ? Math.max(0, Math.min(options.crossfade, shortest / 2))
+      : 0;
+
+  let cursor = 0;
+  const clips = durations.map((duration) => {
+    const start = cursor;
+    cursor = start + duration - crossfade;
+    return { duration, start, end: start + duration };
+  });
+
+  const first = cards.intro ? 1 : 0;
+  const slides = narrationSeconds.map((seconds, i) => {
+    const clip = clips[first + i];
+    return {
+      ...clip,
+      narrationStart: clip.start + options.leadIn,
+      narrationEnd: clip.start + options.leadIn + seconds,
+    };
+  });
+
+  const last = clips[clips.length - 1];
+  return { clips, slides, crossfade, duration: last ? last.end : 0 };
+}
+
+/** The filter graph that chains clips with xfade (video) and acrossfade (audio). */
+export function crossfadeFilter(timeline: SlideTimeline) {
+  const { clips, crossfade } = timeline;
+  const parts: string[] = [];
+  let video = '[0:v]';
+  let audio = '[0:a]';
+
+  for (let i = 1; i < clips.length; i++) {
+    const v = i === clips.length - 1 ? '[outv]' : `[v${i}]`;
+    const a = i === clips.length - 1 ? '[outa]' : `[a${i}]`;
+    const offset = clips[i].start.toFixed(3);
+    parts.push(
+      `${video}[${i}:v]xfade=transition=fade:duration=${crossfade}:offset=${offset}${v}`,
+      `${audio}[${i}:a]acrossfade=d=${crossfade}${a}`,
+    );
+    video = v;
+    audio = a;
+  }
+  return parts.join(';');
+}
@@ -1,37 +1,198 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { SlidesService } from './slides.service';
+import { JobsService } from '../jobs/jobs.service';
+import { SlideThemesService } from './slide-themes.service';
+import { LessonRepository } from '../repositories/repositories';
+import { requestLanguage } from '../localization/request-language';
+import { DEFAULT_LANGUAGE } from '../localization/languages';
+import { PodcastHostsService } from '../podcast/podcast-hosts.service';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import {
+  GenerateComicDto,
+  GeneratePodcastDto,
+  GenerateSlidesDto,
+  GenerateTreeDto,
+  TranslateSlidesDto,
+} from './slides.dto';
 
 @Controller('slides')
 export class SlidesController {
-  constructor(private readonly slidesService: SlidesService) {}
+  constructor(
+    private readonly slidesService: SlidesService,
+    private readonly jobsService: JobsService,
+    private readonly themes: SlideThemesService,
+    private readonly lessons: LessonRepository,
+    private readonly podcastHosts: PodcastHostsService,
+    private readonly access: AccessService,
+  ) {}
+
+  // The caller must teach the lesson's course, and the course whose theme or characters it borrows
+  private async authorize(
+    principal: Principal,
+    lessonId: string,
+    courseId?: string,
+  ) {
+    await this.access.checkLesson(principal, lessonId);
+    if (courseId) await this.access.checkCourse(principal, courseId);
+  }
+
+  @Get('themes')
+  listThemes() {
+    return this.themes.list();
+  }
+
+  @Get('podcast-formats')
+  listPodcastFormats() {
+    return {
+      formats: this.podcastHosts.formats(),
+      hosts: this.podcastHosts.list(),
+    };
+  }
 
   @Post('generate')
-  async generate(@Body() body: { lessonId: string; summary: string; thoughts: string; title: string }) {
-    // We run this asynchronously so the frontend doesn't time out
-    this.slidesService.createVideo(body.lessonId, body.summary, body.thoughts, body.title);
-    return { message: 'Generation started' };
+  async generate(
+    @CurrentPrincipal() principal: Principal,
+    @Body() body: GenerateSlidesDto,
+  ) {
+    await this.authorize(principal, body.lessonId, body.courseId);
+    if (body.theme && !this.themes.has(body.theme)) {
+      throw new BadRequestException(`Unknown slide theme "${body.theme}"`);
+    }
+    const language = requestLanguage(body.language);
+    // Queued as a job so the frontend doesn't time out; poll /jobs/:id for status
+    const job = await this.jobsService.enqueue(
+      'slides',
+      body.lessonId,
+      {
+        summary: body.summary,
+        thoughts: body.thoughts,
+        title: body.title,
+        burnCaptions: body.burnCaptions ?? false,
+        theme: body.theme,
+        courseId: body.courseId,
+        language,
+        // Stop after the manifest is written until it is approved at /jobs/:id/approve
+        review: body.review === true,
+      },
+      // A single-slide redraw or another language is a different job, not a repeat click
+      { dedupeOn: ['regenerate', 'language'] },
+    );
+    return { message: 'Generation started', jobId: job.id };
+  }
+
+  // Re-voices and re-captions the lesson's finished slide video; the result lands in `video_translations`
+  @Post('translate')
+  async translate(
+    @CurrentPrincipal() principal: Principal,
+    @Body() body: TranslateSlidesDto,
+  ) {
+    await this.authorize(principal, body.lessonId, body.courseId);
+    const language = requestLanguage(body.language);
+    if (body.theme && !this.themes.has(body.theme)) {
+      throw new BadRequestException(`Unknown slide theme "${body.theme}"`);
+    }
+    const lesson = await this.lessons.findById(body.lessonId);
+    if (!lesson)
+      throw new NotFoundException(`Lesson ${body.lessonId} not found`);
+    if (
+      lesson.videoStatus !== 'ready' ||
+      !Array.isArray(lesson.videoManifest)
+    ) {
+      throw new BadRequestException(
+        `Lesson ${body.lessonId} has no finished slide video to translate`,
+      );
+    }
+    if (language === (lesson.videoLanguage ?? DEFAULT_LANGUAGE)) {
+      throw new BadRequestException(
+        `The slide video is already in "${language}"`,
+      );
+    }
+    const job = await this.jobsService.enqueue(
+      'translation',
+      body.lessonId,
+      {
+        language,
+        burnCaptions: body.burnCaptions ?? false,
+        theme: body.theme,
+        courseId: body.courseId,
+      },
+      { dedupeOn: ['language'] },
+    );
+    return { message: 'Translation started', jobId: job.id };
   }
 
   @Post('generate-podcast')
-async generatePodcast(@Body() body: { lessonId: string; summary: string; title: string }) {
-  // Run async so frontend doesn't hang
-  this.slidesService.createPodcast(body.lessonId, body.summary, body.title);
-  return { message: 'Podcast generation started' };
-}
+  async generatePodcast(
+    @CurrentPrincipal() principal: Principal,
+    @Body() body: GeneratePodcastDto,
+  ) {
+    await this.authorize(principal, body.lessonId);
+    const language = requestLanguage(body.language);
+    // Host names resolve to personas now so the job runs with the cast that was requested
+    const { format, hosts } = this.podcastHosts.cast(body.format, body.hosts);
+    // Run async so frontend doesn't hang
+    const job = await this.jobsService.enqueue(
+      'podcast',
+      body.lessonId,
+      {
+        summary: body.summary,
+        title: body.title,
+        minutes: body.minutes,
+        music: body.music,
+        language,
+        format,
+        hosts,
+      },
+      { dedupeOn: ['language'] },
+    );
+    return { message: 'Podcast generation started', jobId: job.id };
+  }
 
-// src/slides/slides.controller.ts
+  // src/slides/slides.controller.ts
 
-@Post('generate-comic')
-async generateComic(@Body() body: { lessonId: string; ai_notes: string; title: string }) {
-  console.log(`[Controller] Incoming Comic Request for Lesson: ${body.lessonId}`);
-  // Pass ai_notes specifically to the service
-  this.slidesService.createComic(body.lessonId, body.ai_notes, body.title);
-  return { message: 'Comic book production initiated' };
-}
+  @Post('generate-comic')
+  async generateComic(
+    @CurrentPrincipal() principal: Principal,
+    @Body() body: GenerateComicDto,
+  ) {
+    console.log(
+      `[Controller] Incoming Comic Request for Lesson: ${body.lessonId}`,
+    );
+    await this.authorize(principal, body.lessonId, body.courseId);
+    const language = requestLanguage(body.language);
+    // Pass ai_notes specifically to the comic pipeline
+    const job = await this.jobsService.enqueue(
+      'comic',
+      body.lessonId,
+      {
+        aiNotes: body.ai_notes,
+        title: body.title,
+        language,
+        courseId: body.courseId,
+        // Stop after storyboarding until the storyboard is approved at /jobs/:id/approve
+        review: body.review === true,
+      },
+      { dedupeOn: ['regenerate', 'language'] },
+    );
+    return { message: 'Comic book production initiated', jobId: job.id };
+  }
 
-@Post('generate-tree')
-async generateTree(@Body() body: { courseId: string }) {
-  await this.slidesService.generateSkillTree(body.courseId);
-  return { status: 'done' };
+  @Post('generate-tree')
+  async generateTree(
+    @CurrentPrincipal() principal: Principal,
+    @Body() body: GenerateTreeDto,
+  ) {
+    await this.access.checkCourse(principal, body.courseId);
+    await this.slidesService.generateSkillTree(body.courseId);
+    return { status: 'done' };
+  }
 }
-}
\ No newline at end of file
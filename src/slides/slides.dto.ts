@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { createZodDto } from '../api/zod-dto';
+import { hostPersonaSchema } from '../podcast/podcast-hosts';
+import {
+  MAX_EPISODE_MINUTES,
+  MIN_EPISODE_MINUTES,
+} from '../podcast/podcast-script';
+
+// Room for a long set of lesson notes, but not for a runaway payload
+export const MAX_NOTES_LENGTH = 20_000;
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_PROMPT_LENGTH = 2000;
+
+const notes = z.string().trim().min(1).max(MAX_NOTES_LENGTH);
+const title = z.string().trim().min(1).max(MAX_TITLE_LENGTH);
+// Checked against the supported languages by requestLanguage
+const language = z.string().max(35).optional();
+const theme = z.string().max(100).optional();
+// Borrows the course's slide theme and character sheets
+const courseId = z.uuid().optional();
+// Stop after the script is written until it is approved at /jobs/:id/approve
+const review = z.boolean().optional();
+
+export class GenerateSlidesDto extends createZodDto(
+  z.object({
+    lessonId: z.uuid(),
+    summary: notes,
+    thoughts: z.string().max(MAX_NOTES_LENGTH),
+    title,
+    burnCaptions: z.boolean().optional(),
+    theme,
+    courseId,
+    language,
+    review,
+  }),
+) {}
+
+export class TranslateSlidesDto extends createZodDto(
+  z.object({
+    lessonId: z.uuid(),
+    language: z.string().min(1).max(35),
+    burnCaptions: z.boolean().optional(),
+    theme,
+    courseId,
+  }),
+) {}
+
+export class GeneratePodcastDto extends createZodDto(
+  z.object({
+    lessonId: z.uuid(),
+    summary: notes,
+    title,
+    language,
+    minutes: z
+      .number()
+      .min(MIN_EPISODE_MINUTES)
+      .max(MAX_EPISODE_MINUTES)
+      .optional(),
+    music: z.boolean().optional(),
+    format: z.string().max(50).optional(),
+    // Built-in host names or custom personas
+    hosts: z
+      .array(z.union([z.string().min(1).max(100), hostPersonaSchema]))
+      .max(10)
+      .optional(),
+  }),
+) {}
+
+export class GenerateComicDto extends createZodDto(
+  z.object({
+    lessonId: z.uuid(),
+    ai_notes: notes,
+    title,
+    language,
+    courseId,
+    review,
+  }),
+) {}
+
+export class GenerateTreeDto extends createZodDto(
+  z.object({ courseId: z.uuid() }),
+) {}
+
+// A replacement for the stored image prompt; blank means "same prompt, new attempt"
+const prompt = z.string().max(MAX_PROMPT_LENGTH).optional();
+
+export class RegenerateSlideDto extends createZodDto(
+  z.object({
+    prompt,
+    title: title.optional(),
+    burnCaptions: z.boolean().optional(),
+    theme,
+    courseId,
+  }),
+) {}
+
+export class RegeneratePartDto extends createZodDto(z.object({ prompt })) {}
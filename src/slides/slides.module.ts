@@ -1,9 +1,28 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CharactersModule } from '../characters/characters.module';
+import { GenerativeModule } from '../generative/generative.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { PodcastModule } from '../podcast/podcast.module';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { StorageModule } from '../storage/storage.module';
+import { RegenerateController } from './regenerate.controller';
 import { SlidesController } from './slides.controller';
 import { SlidesService } from './slides.service';
+import { SlideThemesService } from './slide-themes.service';
 
 @Module({
-  controllers: [SlidesController],
-  providers: [SlidesService],
+  imports: [
+    AuthModule,
+    JobsModule,
+    GenerativeModule,
+    StorageModule,
+    RepositoriesModule,
+    PodcastModule,
+    CharactersModule,
+  ],
+  controllers: [SlidesController, RegenerateController],
+  providers: [SlidesService, SlideThemesService],
+  exports: [SlidesService],
 })
-export class SlidesModule {}
\ No newline at end of file
+export class SlidesModule {}
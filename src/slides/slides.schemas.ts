@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { redrawJobSchema, reviewableJobSchema } from '../jobs/job.types';
+import { hostPersonaSchema } from '../podcast/podcast-hosts';
+import { CharacterSheet } from '../repositories/entities';
+import { SLIDE_LAYOUTS } from './slide-themes';
+
+const text = z.string().trim().min(1);
+
+export const slideSchema = z.object({
+  title: text,
+  bullets: z.array(text).max(8),
+  image_prompt: text,
+  narration: text,
+  // Optional suggestion from the model; an unknown value just falls back to the theme default.
+  layout: z.enum(SLIDE_LAYOUTS).optional().catch(undefined),
+});
+
+export const slideManifestSchema = z.array(slideSchema).min(1);
+
+export const slideTextSchema = slideSchema.pick({
+  title: true,
+  bullets: true,
+  narration: true,
+});
+
+// A translated deck has to line up slide for slide with the one it replaces.
+export const slideTranslationSchema = (count: number) =>
+  z.array(slideTextSchema).length(count);
+
+export const comicPageSchema = z.object({
+  page: z.coerce.number().int().positive(),
+  // Table of contents entry; the caption's opening words stand in when missing.
+  title: text.optional().catch(undefined),
+  panel_desc: text,
+  caption: text,
+  // Lettered into speech balloons after the art is drawn.
+  dialogue: z
+    .array(z.object({ speaker: text, text }))
+    .max(2)
+    .default([]),
+  caption_position: z.enum(['top', 'bottom']).catch('top'),
+});
+
+export const comicStoryboardSchema = z.object({
+  thematic_era: text,
+  style_guide: text,
+  visual_anchors: text,
+  pages: z.array(comicPageSchema).min(1),
+});
+
+export const skillTreeNodeSchema = z.object({
+  lesson_id: text,
+  x: z.number(),
+  y: z.number(),
+  dependencies: z.array(text).default([]),
+});
+
+export const skillTreeLayoutSchema = z.array(skillTreeNodeSchema);
+
+export type Slide = z.infer<typeof slideSchema>;
+export type ComicStoryboard = z.infer<typeof comicStoryboardSchema>;
+export type ComicPage = z.infer<typeof comicPageSchema>;
+export type SkillTreeNodeLayout = z.infer<typeof skillTreeNodeSchema>;
+
+// Where a slide's generated image was stored, so translations can reuse it.
+export interface SlideImage {
+  image_key?: string;
+  image_url?: string;
+}
+
+// Where a slide's narration and rendered clip were stored, so redrawing one slide leaves the rest as they are.
+export interface SlideClip {
+  audio_key?: string;
+  clip_key?: string;
+  // Digest of everything the clip was rendered from; the stored clip is reused only while it matches
+  clip_hash?: string;
+}
+
+// A lettered comic page as stored in `comic_manifest`: the art and the page are both kept.
+export interface StoredComicPage extends ComicPage {
+  art_key: string;
+  page_key: string;
+  page_url: string;
+}
+
+// Everything needed to redraw one page and rebind the book without the rest of the pipeline.
+export interface StoredComic extends Omit<ComicStoryboard, 'pages'> {
+  title: string;
+  language: string;
+  character_sheet: CharacterSheet;
+  pages: StoredComicPage[];
+}
+
+// A rendered slide as stored in `video_manifest`: where it sits in the final video, in seconds.
+export interface TimedSlide extends Slide, SlideImage, SlideClip {
+  start: number;
+  end: number;
+}
+
+// Options shared by slide videos and their translations; `language` is missing on jobs queued before localization.
+const videoJobOptions = {
+  burnCaptions: z.boolean().optional(),
+  theme: z.string().optional(),
+  courseId: z.string().optional(),
+};
+
+export const slidesJobSchema = z.union([
+  reviewableJobSchema.extend({
+    summary: z.string(),
+    thoughts: z.string(),
+    title: z.string(),
+    language: z.string().optional(),
+    ...videoJobOptions,
+  }),
+  redrawJobSchema.extend({
+    title: z.string().optional(),
+    ...videoJobOptions,
+  }),
+]);
+
+export const translationJobSchema = z.object({
+  language: z.string(),
+  ...videoJobOptions,
+});
+
+export const podcastJobSchema = z.object({
+  summary: z.string(),
+  title: z.string(),
+  minutes: z.number().optional(),
+  music: z.boolean().optional(),
+  language: z.string().optional(),
+  format: z.string().optional(),
+  hosts: z.array(hostPersonaSchema).optional(),
+});
+
+export const comicJobSchema = z.union([
+  reviewableJobSchema.extend({
+    aiNotes: z.string(),
+    title: z.string(),
+    language: z.string().optional(),
+    courseId: z.string().optional(),
+  }),
+  redrawJobSchema,
+]);
@@ -0,0 +1,334 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeGenerativeProvider } from '../generative/fake.provider';
+import { CheckpointService } from '../jobs/checkpoint.service';
+import { Job, JobContext } from '../jobs/job.types';
+import { JobsService } from '../jobs/jobs.service';
+import { PodcastHostsService } from '../podcast/podcast-hosts.service';
+import { CharacterSheetsService } from '../characters/character-sheets.service';
+import {
+  emptyLesson,
+  InMemoryCourseRepository,
+  InMemoryLessonRepository,
+  InMemorySkillTreeRepository,
+} from '../repositories/in-memory-repositories';
+import { LocalStorage } from '../storage/local-storage';
+import { StorageService } from '../storage/storage.service';
+import { SlideThemesService } from './slide-themes.service';
+import { Slide, TimedSlide } from './slides.schemas';
+import { SlidesService } from './slides.service';
+
+// Output files every fake ffmpeg command has written, by file name
+const mockRendered: string[] = [];
+
+// There is no ffmpeg binary under test: each command just writes its output file
+jest.mock('fluent-ffmpeg', () => {
+  const actualPath = jest.requireActual<typeof import('path')>('path');
+  const actualFs = jest.requireActual<typeof import('fs')>('fs');
+  const command = () => {
+    const handlers = new Map<string, () => void>();
+    const finish = (file: string) => {
+      const name = actualPath.basename(file);
+      actualFs.writeFileSync(file, `rendered ${name}`);
+      mockRendered.push(name);
+      setImmediate(() => handlers.get('end')?.());
+      return chain;
+    };
+    const chain: object = new Proxy(
+      {},
+      {
+        get: (_, method) => {
+          if (method === 'then') return undefined;
+          if (method === 'save' || method === 'mergeToFile') return finish;
+          if (method === 'on') {
+            return (event: string, handler: () => void) => {
+              handlers.set(event, handler);
+              return chain;
+            };
+          }
+          return () => chain;
+        },
+      },
+    );
+    return chain;
+  };
+  return Object.assign(command, {
+    ffprobe: (
+      file: string,
+      callback: (err: null, data: { format: { duration: number } }) => void,
+    ) => callback(null, { format: { duration: 2 } }),
+  });
+});
+
+const LESSON_A = '11111111-1111-4111-8111-111111111111';
+const LESSON_B = '22222222-2222-4222-8222-222222222222';
+
+describe('SlidesService.generateSkillTree', () => {
+  let courses: InMemoryCourseRepository;
+  let skillTrees: InMemorySkillTreeRepository;
+  let ai: FakeGenerativeProvider;
+  let service: SlidesService;
+
+  beforeEach(() => {
+    ai = new FakeGenerativeProvider();
+    courses = new InMemoryCourseRepository();
+    skillTrees = new InMemorySkillTreeRepository();
+    courses.courses.set('course-1', {
+      id: 'course-1',
+      title: 'Optics',
+      slideTheme: null,
+      ownerId: null,
+      teacherIds: [],
+      modules: [
+        {
+          id: 'm1',
+          title: 'Light',
+          orderIndex: 0,
+          lessonPlans: [
+            { id: LESSON_B, title: 'Lenses', orderIndex: 1, status: null },
+            {
+              id: LESSON_A,
+              title: 'Reflection',
+              orderIndex: 0,
+              status: 'completed',
+            },
+          ],
+        },
+      ],
+    });
+
+    service = new SlidesService(
+      {} as JobsService,
+      {} as CheckpointService,
+      ai,
+      {} as StorageService,
+      new InMemoryLessonRepository(),
+      courses,
+      skillTrees,
+      new ConfigService(),
+      {} as SlideThemesService,
+      {} as PodcastHostsService,
+      {} as CharacterSheetsService,
+    );
+  });
+
+  it('lays out one node per lesson plan in curriculum order', async () => {
+    const result = await service.generateSkillTree('course-1');
+
+    expect(result.message).toBe('Tree Generated');
+    const nodes = await skillTrees.findNodes(result.treeId);
+    expect(nodes).toEqual([
+      expect.objectContaining({
+        lessonPlanId: LESSON_A,
+        label: 'Reflection',
+        dependencies: [],
+        status: 'completed',
+      }),
+      expect.objectContaining({
+        lessonPlanId: LESSON_B,
+        label: 'Lenses',
+        dependencies: [LESSON_A],
+        status: 'locked',
+      }),
+    ]);
+  });
+
+  it('falls back to a layered layout when the model output is unusable', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(ai, 'generateStructured').mockResolvedValue([
+      { lesson_id: LESSON_A, x: 50, y: 10, dependencies: [LESSON_B] },
+      { lesson_id: LESSON_B, x: 50, y: 90, dependencies: [LESSON_A] },
+    ]);
+
+    const result = await service.generateSkillTree('course-1');
+
+    const nodes = await skillTrees.findNodes(result.treeId);
+    expect(
+      nodes.map(({ lessonPlanId, x, y, dependencies }) => ({
+        lessonPlanId,
+        x,
+        y,
+        dependencies,
+      })),
+    ).toEqual([
+      { lessonPlanId: LESSON_A, x: 33.3, y: 50, dependencies: [] },
+      { lessonPlanId: LESSON_B, x: 66.7, y: 50, dependencies: [LESSON_A] },
+    ]);
+  });
+
+  it('returns the existing tree instead of generating another', async () => {
+    const first = await service.generateSkillTree('course-1');
+    const second = await service.generateSkillTree('course-1');
+
+    expect(second).toEqual({
+      message: 'Tree already exists',
+      treeId: first.treeId,
+    });
+    expect(skillTrees.trees.size).toBe(1);
+  });
+});
+
+describe('SlidesService slide videos', () => {
+  let dir: string;
+  let ai: FakeGenerativeProvider;
+  let lessons: InMemoryLessonRepository;
+  let storage: LocalStorage;
+  let service: SlidesService;
+
+  const context = (resume = false): JobContext => ({
+    job: {} as Job,
+    signal: new AbortController().signal,
+    resume,
+    progress: () => undefined,
+    review: <T>(draft: T) => Promise.resolve<T | undefined>(draft),
+  });
+
+  const clipRenders = () => mockRendered.filter((f) => /^s\d+\.mp4$/.test(f));
+
+  const storedManifest = async () =>
+    (await lessons.findById(LESSON_A))?.videoManifest as TimedSlide[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slides-'));
+    mockRendered.length = 0;
+    jest.spyOn(process, 'cwd').mockReturnValue(dir);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    ai = new FakeGenerativeProvider();
+    lessons = new InMemoryLessonRepository();
+    lessons.lessons.set(LESSON_A, emptyLesson(LESSON_A));
+    storage = new LocalStorage(
+      path.join(dir, 'storage'),
+      'http://test',
+      'secret',
+    );
+    service = new SlidesService(
+      {} as JobsService,
+      new CheckpointService(
+        new ConfigService({ CHECKPOINT_DIR: path.join(dir, 'checkpoints') }),
+      ),
+      ai,
+      storage,
+      lessons,
+      new InMemoryCourseRepository(),
+      new InMemorySkillTreeRepository(),
+      new ConfigService(),
+      new SlideThemesService(new ConfigService()),
+      {} as PodcastHostsService,
+      {} as CharacterSheetsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createVideo = (ctx = context()) =>
+    service.createVideo(LESSON_A, 'Summary', '', 'Reflection', {}, ctx);
+
+  it('resumes a failed run from its checkpointed steps', async () => {
+    const voice = new FakeGenerativeProvider();
+    const speech = jest.spyOn(ai, 'synthesizeSpeech');
+    speech
+      .mockImplementationOnce((text, narrator) =>
+        voice.synthesizeSpeech(text, narrator),
+      )
+      .mockRejectedValueOnce(new Error('TTS outage'));
+    await expect(createVideo()).rejects.toThrow('TTS outage');
+    expect(clipRenders()).toEqual(['s0.mp4']);
+
+    const manifest = jest.spyOn(ai, 'generateStructured');
+    const images = jest.spyOn(ai, 'generateImage');
+    speech.mockClear();
+    mockRendered.length = 0;
+    await createVideo(context(true));
+
+    expect(manifest).not.toHaveBeenCalled();
+    expect(images).toHaveBeenCalledTimes(1);
+    expect(speech.mock.calls.map(([text]) => text)).toEqual([
+      'This is the narration for slide 2.',
+      'This is the narration for slide 3.',
+    ]);
+    expect(clipRenders()).toEqual(['s1.mp4', 's2.mp4']);
+    expect((await lessons.findById(LESSON_A))?.videoStatus).toBe('ready');
+  });
+
+  it('renders the approved draft rather than the one first written', async () => {
+    const speech = jest.spyOn(ai, 'synthesizeSpeech');
+    const ctx = context();
+    ctx.review = <T>(draft: T) =>
+      Promise.resolve(
+        (draft as Slide[]).slice(0, 2).map((slide) => ({
+          ...slide,
+          title: `Edited ${slide.title}`,
+          narration: `Edited: ${slide.narration}`,
+        })) as T,
+      );
+
+    await createVideo(ctx);
+
+    expect((await storedManifest()).map((slide) => slide.title)).toEqual([
+      'Edited Slide 1',
+      'Edited Slide 2',
+    ]);
+    expect(speech.mock.calls.map(([text]) => text)).toEqual([
+      'Edited: This is the narration for slide 1.',
+      'Edited: This is the narration for slide 2.',
+    ]);
+    expect(clipRenders()).toEqual(['s0.mp4', 's1.mp4']);
+  });
+
+  it('redraws one slide and re-renders only its clip', async () => {
+    // Keys are timestamped; keep the redraw's from landing on the same millisecond
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+    await createVideo();
+    const before = await storedManifest();
+    const images = jest.spyOn(ai, 'generateImage');
+    const speech = jest.spyOn(ai, 'synthesizeSpeech');
+    mockRendered.length = 0;
+
+    await service.regenerateSlide(
+      LESSON_A,
+      1,
+      'A brand new picture',
+      undefined,
+      {},
+      context(),
+    );
+
+    const after = await storedManifest();
+    expect(images.mock.calls.map(([prompt]) => prompt)).toEqual([
+      'A brand new picture High-fidelity illustration.',
+    ]);
+    expect(speech).not.toHaveBeenCalled();
+    expect(clipRenders()).toEqual(['s1.mp4']);
+    expect(mockRendered).toContain('final.mp4');
+    for (const i of [0, 2]) {
+      expect(after[i]).toMatchObject({
+        image_key: before[i].image_key,
+        audio_key: before[i].audio_key,
+        clip_key: before[i].clip_key,
+        clip_hash: before[i].clip_hash,
+      });
+    }
+    expect(after[1].image_prompt).toBe('A brand new picture');
+    expect(after[1].audio_key).toBe(before[1].audio_key);
+    expect(after[1].image_key).not.toBe(before[1].image_key);
+    expect(after[1].clip_hash).not.toBe(before[1].clip_hash);
+
+    // The replaced clip is deleted; everything still in the manifest stays
+    expect(await storage.get(before[1].clip_key!)).toBeUndefined();
+    for (const slide of after) {
+      expect(await storage.get(slide.audio_key!)).toBeDefined();
+      expect(await storage.get(slide.clip_key!)).toBeDefined();
+    }
+    expect(await storage.get(before[1].image_key!)).toBeDefined();
+  });
+});
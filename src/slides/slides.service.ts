@@ -1,358 +1,1437 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
-import { createClient } from '@supabase/supabase-js';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import ffmpeg from 'fluent-ffmpeg';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { JobsService } from '../jobs/jobs.service';
+import { Checkpoint, CheckpointService } from '../jobs/checkpoint.service';
+import { GenerativeProvider } from '../generative/generative-provider';
+import { StorageService } from '../storage/storage.service';
+import {
+  CourseRepository,
+  LessonRepository,
+  SkillTreeRepository,
+} from '../repositories/repositories';
+import {
+  CharacterSheet,
+  Course,
+  PodcastShowNotes,
+} from '../repositories/entities';
+import {
+  comicJobSchema,
+  ComicPage,
+  ComicStoryboard,
+  comicStoryboardSchema,
+  podcastJobSchema,
+  Slide,
+  SlideClip,
+  SlideImage,
+  slideManifestSchema,
+  slidesJobSchema,
+  StoredComic,
+  StoredComicPage,
+  slideTranslationSchema,
+  skillTreeLayoutSchema,
+  TimedSlide,
+  translationJobSchema,
+} from './slides.schemas';
+import {
+  crossfadeFilter,
+  slideTimeline,
+  SlideTimingOptions,
+} from './slide-timing';
+import { probeDuration, probeImageSize } from '../media/probe';
+import {
+  chooseLayout,
+  layoutCard,
+  layoutSlide,
+  SlideLayout,
+} from './slide-layout';
+import { slideVideoFilter } from './slide-render';
+import { SlideTheme } from './slide-themes';
+import { SlideThemesService } from './slide-themes.service';
+import { FontResolver } from '../media/fonts';
+import { escapeFilterValue } from '../media/ffmpeg-escape';
+import { JobContext } from '../jobs/job.types';
+import { narrationCues, toSrt, toWebVtt } from '../captions/captions';
+import {
+  Language,
+  languageFor,
+  languageInstruction,
+} from '../localization/languages';
+import {
+  DEFAULT_EPISODE_MINUTES,
+  formatTurns,
+  parseTurns,
+  PodcastOutline,
+  podcastOutlineSchema,
+  segmentCount,
+  speechChunks,
+  Turn,
+  WORDS_PER_MINUTE,
+} from '../podcast/podcast-script';
+import {
+  assignVoices,
+  castPrompt,
+  HostPersona,
+  PODCAST_FORMATS,
+} from '../podcast/podcast-hosts';
+import { PodcastHostsService } from '../podcast/podcast-hosts.service';
+import {
+  contentsLettering,
+  coverLettering,
+  Lettering,
+  letteringFilter,
+  pageLettering,
+} from '../comics/comic-lettering';
+import { imagePdf, PdfPage } from '../comics/comic-pdf';
+import { comicInfoXml, zipStore } from '../comics/comic-cbz';
+import { CharacterSheetsService } from '../characters/character-sheets.service';
+import { characterReference } from '../characters/character-sheet';
+import {
+  checkLayout,
+  layeredLayout,
+  MIN_NODE_GAP,
+  PlacedNode,
+} from '../skill-trees/skill-tree-graph';
+import {
+  ffmetadata,
+  joinSpeech,
+  masteringFilter,
+  MusicBed,
+  pcmSeconds,
+} from '../podcast/podcast-mastering';
+import { showNotesSchema, timeTurns } from '../podcast/podcast-transcript';
 
 const execAsync = promisify(exec);
 
+export interface VideoOptions {
+  burnCaptions?: boolean;
+  // Theme name; falls back to the course's theme, then SLIDE_THEME
+  theme?: string;
+  courseId?: string;
+  // Language code (see LANGUAGES); English when omitted
+  language?: string;
+}
+
+export interface PodcastOptions {
+  // Target episode length, MIN_EPISODE_MINUTES to MAX_EPISODE_MINUTES
+  minutes?: number;
+  // Set false to leave out the configured intro/outro music
+  music?: boolean;
+  language?: string;
+  // Episode format (see PODCAST_FORMATS) and its 1-4 speakers; the format's default cast when omitted
+  format?: string;
+  hosts?: HostPersona[];
+}
+
+export interface ComicOptions {
+  language?: string;
+  // Whose character sheet is reused (or drawn and shared); defaults to the lesson's course
+  courseId?: string;
+}
+
 @Injectable()
 export class SlidesService implements OnModuleInit {
-    private supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
-    private processingQueue = new Set<string>();
-
-    async onModuleInit() {
-        // Use system FFmpeg instead of ffmpeg-static
-        try {
-            const { stdout } = await execAsync('which ffmpeg');
-            const systemFfmpegPath = stdout.trim();
-            ffmpeg.setFfmpegPath(systemFfmpegPath);
-            console.log('✅ Using System FFmpeg:', systemFfmpegPath);
-
-            // Verify drawtext filter exists
-            const { stdout: filters } = await execAsync('ffmpeg -filters 2>&1 | grep drawtext');
-            if (filters.includes('drawtext')) {
-                console.log('✅ drawtext filter available');
-            } else {
-                console.error('❌ drawtext filter NOT available - install full FFmpeg');
-            }
-        } catch (e) {
-            console.error('⚠️  System FFmpeg not found. Install with: sudo apt install ffmpeg');
-        }
+  private readonly fonts: FontResolver;
+
+  constructor(
+    private readonly jobs: JobsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly ai: GenerativeProvider,
+    private readonly storage: StorageService,
+    private readonly lessons: LessonRepository,
+    private readonly courses: CourseRepository,
+    private readonly skillTrees: SkillTreeRepository,
+    private readonly config: ConfigService,
+    private readonly themes: SlideThemesService,
+    private readonly podcastHosts: PodcastHostsService,
+    private readonly characters: CharacterSheetsService,
+  ) {
+    // FONT_DIRS (colon-separated) lets deployments add fonts for scripts the host lacks
+    this.fonts = new FontResolver(
+      this.config.get<string>('FONT_DIRS')?.split(':').filter(Boolean),
+    );
+  }
+
+  async onModuleInit() {
+    this.jobs.registerHandler(
+      'slides',
+      ({ lessonId, payload }, ctx) => {
+        const options = {
+          burnCaptions: payload.burnCaptions,
+          theme: payload.theme,
+          courseId: payload.courseId,
+        };
+        // `regenerate` holds a slide index when only that slide is being redrawn (in the video's own language)
+        return payload.regenerate === undefined
+          ? this.createVideo(
+              lessonId,
+              payload.summary,
+              payload.thoughts,
+              payload.title,
+              { ...options, language: payload.language },
+              ctx,
+            )
+          : this.regenerateSlide(
+              lessonId,
+              payload.regenerate,
+              payload.prompt,
+              payload.title,
+              options,
+              ctx,
+            );
+      },
+      { draftSchema: slideManifestSchema, payloadSchema: slidesJobSchema },
+    );
+    this.jobs.registerHandler(
+      'translation',
+      ({ lessonId, payload }, ctx) =>
+        this.translateVideo(
+          lessonId,
+          payload.language,
+          {
+            burnCaptions: payload.burnCaptions,
+            theme: payload.theme,
+            courseId: payload.courseId,
+          },
+          ctx,
+        ),
+      { payloadSchema: translationJobSchema },
+    );
+    this.jobs.registerHandler(
+      'podcast',
+      ({ lessonId, payload }, ctx) =>
+        this.createPodcast(
+          lessonId,
+          payload.summary,
+          payload.title,
+          {
+            minutes: payload.minutes,
+            music: payload.music,
+            language: payload.language,
+            format: payload.format,
+            hosts: payload.hosts,
+          },
+          ctx,
+        ),
+      { payloadSchema: podcastJobSchema },
+    );
+    this.jobs.registerHandler(
+      'comic',
+      ({ lessonId, payload }, ctx) =>
+        // `regenerate` holds a page number when only that page is being redrawn
+        payload.regenerate === undefined
+          ? this.createComic(
+              lessonId,
+              payload.aiNotes,
+              payload.title,
+              {
+                language: payload.language,
+                courseId: payload.courseId,
+              },
+              ctx,
+            )
+          : this.regenerateComicPage(
+              lessonId,
+              payload.regenerate,
+              payload.prompt,
+              ctx,
+            ),
+      { draftSchema: comicStoryboardSchema, payloadSchema: comicJobSchema },
+    );
+
+    // Use system FFmpeg instead of ffmpeg-static
+    try {
+      const { stdout } = await execAsync('which ffmpeg');
+      const systemFfmpegPath = stdout.trim();
+      ffmpeg.setFfmpegPath(systemFfmpegPath);
+      console.log('✅ Using System FFmpeg:', systemFfmpegPath);
+
+      // Verify drawtext filter exists
+      const { stdout: filters } = await execAsync(
+        'ffmpeg -filters 2>&1 | grep drawtext',
+      );
+      if (filters.includes('drawtext')) {
+        console.log('✅ drawtext filter available');
+      } else {
+        console.error('❌ drawtext filter NOT available - install full FFmpeg');
+      }
+    } catch {
+      console.error(
+        '⚠️  System FFmpeg not found. Install with: sudo apt install ffmpeg',
+      );
     }
-
-    private getSystemFont() {
-        const paths = [
-            '/usr/share/fonts/truetype/liberation/LiberationSans-Bold.ttf',
-            '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
-            '/System/Library/Fonts/Supplemental/Arial Bold.ttf',
-        ];
-        for (const p of paths) {
-            if (fs.existsSync(p)) {
-                console.log('✅ Using font:', p);
-                return p;
+  }
+
+  private numberSetting(key: string, fallback: number, min = -Infinity) {
+    const raw = this.config.get<string>(key);
+    const value = Number(raw);
+    return raw !== undefined && Number.isFinite(value) && value >= min
+      ? value
+      : fallback;
+  }
+
+  private slideTiming(): SlideTimingOptions {
+    const seconds = (key: string, fallback: number) =>
+      this.numberSetting(key, fallback, 0);
+    return {
+      leadIn: seconds('SLIDE_LEAD_IN_SECONDS', 0.5),
+      tail: seconds('SLIDE_TAIL_SECONDS', 1),
+      crossfade: seconds('SLIDE_CROSSFADE_SECONDS', 0.5),
+    };
+  }
+
+  private podcastSettings() {
+    return {
+      // Characters of transcript per TTS request
+      chunkChars: this.numberSetting('PODCAST_TTS_CHUNK_CHARS', 3000, 200),
+      loudness: {
+        integrated: this.numberSetting('PODCAST_LOUDNESS_LUFS', -16),
+        truePeak: this.numberSetting('PODCAST_TRUE_PEAK_DBTP', -1.5),
+        range: this.numberSetting('PODCAST_LOUDNESS_RANGE', 11, 1),
+      },
+      introMusic: this.config.get<string>('PODCAST_INTRO_MUSIC'),
+      outroMusic: this.config.get<string>('PODCAST_OUTRO_MUSIC'),
+      introSeconds: this.numberSetting('PODCAST_INTRO_SECONDS', 15, 1),
+      outroSeconds: this.numberSetting('PODCAST_OUTRO_SECONDS', 15, 1),
+      showName: this.config.get<string>('PODCAST_SHOW_NAME') ?? 'Seeker',
+    };
+  }
+
+  // Writes each text block to its own file for drawtext's `textfile` option
+  private textWriter(dir: string, prefix: string) {
+    let n = 0;
+    return (text: string) => {
+      const file = path.join(dir, `${prefix}_text${n++}.txt`);
+      fs.writeFileSync(file, text);
+      return file;
+    };
+  }
+
+  // Silent full-frame card (intro/outro) in the same format as rendered slides
+  private async renderCard(
+    outputPath: string,
+    layout: SlideLayout,
+    theme: SlideTheme,
+    seconds: number,
+    logoPath: string | undefined,
+    tempDir: string,
+  ) {
+    const name = path.basename(outputPath, '.mp4');
+    const filter = slideVideoFilter(
+      layout,
+      theme,
+      { logo: logoPath ? '1:v' : undefined },
+      this.textWriter(tempDir, name),
+    );
+    await new Promise((res, rej) => {
+      const cmd = ffmpeg()
+        .input('anullsrc=r=24000:cl=mono')
+        .inputFormat('lavfi');
+      if (logoPath) cmd.input(logoPath).inputOptions(['-loop 1']);
+      cmd
+        .complexFilter(filter)
+        .outputOptions([
+          '-map [outv]',
+          '-map 0:a',
+          `-t ${seconds.toFixed(3)}`,
+          '-pix_fmt yuv420p',
+          '-r 25',
+          '-c:v libx264',
+          '-c:a aac',
+          '-ar 24000',
+          '-b:a 128k',
+          '-preset ultrafast',
+        ])
+        .on('end', res)
+        .on('error', (err) => {
+          console.error(`❌ Rendering ${name} card failed:`, err);
+          rej(err);
+        })
+        .save(outputPath);
+    });
+  }
+
+  async createVideo(
+    lessonId: string,
+    summary: string,
+    thoughts: string,
+    title: string,
+    options: VideoOptions,
+    ctx: JobContext,
+  ) {
+    const tempDir = path.resolve(process.cwd(), 'temp', lessonId);
+    // Generated images, TTS and the manifest outlive tempDir so a resumed job can skip them
+    const checkpoint = this.checkpoints.open(lessonId, 'slides');
+    if (!ctx.resume) checkpoint.clear();
+    const language = languageFor(options.language);
+
+    try {
+      console.log(`🎬 PRODUCTION START: ${lessonId} (${language.name})`);
+      if (!fs.existsSync(path.resolve(process.cwd(), 'temp')))
+        fs.mkdirSync(path.resolve(process.cwd(), 'temp'));
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      fs.mkdirSync(tempDir, { recursive: true });
+
+      await this.lessons.markProcessing(lessonId, 'video');
+
+      let manifest = checkpoint.readJson<Slide[]>('manifest');
+      if (manifest) {
+        console.log(
+          `♻️  Resuming with checkpointed manifest (${manifest.length} slides)`,
+        );
+      } else {
+        ctx.progress({
+          stage: 'script',
+          percent: 0,
+          message: 'Writing slide manifest',
+        });
+        manifest = await this.ai.generateStructured(
+          `Convert to 30s slides. JSON array: [{"title": "Title", "bullets": ["A", "B"], "image_prompt": "desc", "narration": "text", "layout": "image-right"}] "layout" is one of image-right, image-left, full-bleed (striking image, few words), title-only (section break, no bullets), two-column (many short bullets). Content: ${summary}${languageInstruction(language, ['image_prompt', 'layout'])}`,
+          slideManifestSchema,
+          { task: 'slides.manifest' },
+        );
+        checkpoint.writeJson('manifest', manifest);
+      }
+
+      // Review mode stops here until a teacher approves (and maybe edits) the manifest
+      const reviewed = await ctx.review(manifest);
+      if (!reviewed) {
+        await this.lessons.setStatus(lessonId, 'video', 'awaiting_review');
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        console.log(`📝 Slide manifest for ${lessonId} is waiting for review`);
+        return;
+      }
+      manifest = reviewed;
+      checkpoint.writeJson('manifest', manifest);
+
+      const video = await this.renderSlideVideo(
+        lessonId,
+        manifest,
+        title,
+        language,
+        options,
+        checkpoint,
+        tempDir,
+        ctx,
+      );
+
+      const previous = await this.lessons.findById(lessonId);
+      await this.lessons.markReady(lessonId, 'video', {
+        videoUrl: video.url,
+        videoManifest: video.manifest,
+        videoCaptionsVttUrl: video.captionsVttUrl,
+        videoCaptionsSrtUrl: video.captionsSrtUrl,
+        videoLanguage: language.code,
+      });
+      await this.deleteReplacedClips(previous?.videoManifest, video.manifest);
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: { kind: 'video', name: 'final.mp4', url: video.url },
+      });
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+      console.log('🎉 PRODUCTION COMPLETE');
+    } catch (e) {
+      console.error('❌ CRITICAL FAILURE:', e);
+      await this.lessons.markFailed(lessonId, 'video');
+      // Keep temp files for debugging
+      // if (fs.existsSync(tempDir)) fs.rmSync(tempDir, { recursive: true, force: true });
+      throw e;
+    }
+  }
+
+  // Re-voices and re-captions the lesson's existing slide video in another language, reusing its images
+  async translateVideo(
+    lessonId: string,
+    languageCode: string,
+    options: VideoOptions,
+    ctx: JobContext,
+  ) {
+    const language = languageFor(languageCode);
+    const tempDir = path.resolve(
+      process.cwd(),
+      'temp',
+      `${lessonId}_${language.code}`,
+    );
+    const checkpoint = this.checkpoints.open(
+      lessonId,
+      'translation',
+      language.code,
+    );
+    if (!ctx.resume) checkpoint.clear();
+
+    try {
+      console.log(`🌐 TRANSLATION START: ${lessonId} → ${language.name}`);
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      fs.mkdirSync(tempDir, { recursive: true });
+
+      const lesson = await this.lessons.findById(lessonId);
+      const source = lesson?.videoManifest as TimedSlide[] | null | undefined;
+      if (!Array.isArray(source) || source.length === 0) {
+        throw new Error(`Lesson ${lessonId} has no slide video to translate`);
+      }
+      await this.lessons.updateVideoTranslation(lessonId, language.code, {
+        status: 'processing',
+      });
+
+      let manifest = checkpoint.readJson<TimedSlide[]>('manifest');
+      if (manifest) {
+        console.log(
+          `♻️  Resuming with checkpointed translation (${manifest.length} slides)`,
+        );
+      } else {
+        ctx.progress({
+          stage: 'script',
+          percent: 0,
+          message: `Translating slides into ${language.name}`,
+        });
+        const translated = await this.ai.generateStructured(
+          `Translate this narrated slide deck into ${language.name}.
+                    Keep the same number of slides in the same order, and the same number of bullets on each slide.
+                    The narration is read aloud, so it should sound natural in ${language.name} rather than word-for-word.
+                    Return a JSON array ONLY: [{"title": "...", "bullets": ["..."], "narration": "..."}]
+                    Slides: ${JSON.stringify(source.map(({ title, bullets, narration }) => ({ title, bullets, narration })))}`,
+          slideTranslationSchema(source.length),
+          { task: 'slides.translate' },
+        );
+        // The source's stored narration and clips are in the original language; only its images carry over
+        manifest = source.map((slide, i) => ({
+          ...slide,
+          ...translated[i],
+          audio_key: undefined,
+          clip_key: undefined,
+          clip_hash: undefined,
+        }));
+        checkpoint.writeJson('manifest', manifest);
+      }
+
+      // The original lesson title isn't stored; the opening slide's translated title stands in on the intro card
+      const video = await this.renderSlideVideo(
+        lessonId,
+        manifest,
+        manifest[0].title,
+        language,
+        options,
+        checkpoint,
+        tempDir,
+        ctx,
+      );
+
+      await this.lessons.updateVideoTranslation(lessonId, language.code, {
+        status: 'ready',
+        videoUrl: video.url,
+        manifest: video.manifest,
+        captionsVttUrl: video.captionsVttUrl,
+        captionsSrtUrl: video.captionsSrtUrl,
+      });
+      await this.deleteReplacedClips(
+        lesson?.videoTranslations?.[language.code]?.manifest,
+        video.manifest,
+      );
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: {
+          kind: 'video',
+          name: `final_${language.code}.mp4`,
+          url: video.url,
+        },
+      });
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+      console.log(`🎉 TRANSLATION COMPLETE: ${language.name}`);
+    } catch (e) {
+      console.error(`❌ TRANSLATION FAILURE (${language.name}):`, e);
+      await this.lessons.updateVideoTranslation(lessonId, language.code, {
+        status: 'failed',
+      });
+      throw e;
+    }
+  }
+
+  /**
+   * Redraws one slide's image (from `prompt` instead of its image prompt, when given) and re-renders
+   * that slide's clip, then re-stitches the video. The other slides keep their stored images,
+   * narration and clips.
+   */
+  async regenerateSlide(
+    lessonId: string,
+    index: number,
+    prompt: string | undefined,
+    title: string | undefined,
+    options: VideoOptions,
+    ctx: JobContext,
+  ) {
+    const tempDir = path.resolve(
+      process.cwd(),
+      'temp',
+      `${lessonId}_slide${index}`,
+    );
+    const checkpoint = this.checkpoints.openRedraw(
+      lessonId,
+      'slides',
+      `slide-${index}`,
+    );
+    if (!ctx.resume) checkpoint.clear();
+
+    try {
+      console.log(`🖼️  SLIDE REDRAW: ${lessonId} slide ${index + 1}`);
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      fs.mkdirSync(tempDir, { recursive: true });
+
+      const lesson = await this.lessons.findById(lessonId);
+      const source = lesson?.videoManifest as TimedSlide[] | null | undefined;
+      if (!Array.isArray(source) || !source[index]) {
+        throw new Error(
+          `Lesson ${lessonId} has no slide ${index + 1} to regenerate`,
+        );
+      }
+      // Without a stored image the renderer draws the slide afresh
+      const manifest = source.map((slide, i) =>
+        i === index
+          ? {
+              ...slide,
+              image_prompt: prompt ?? slide.image_prompt,
+              image_key: undefined,
+              image_url: undefined,
             }
-        }
-        console.warn('⚠️  No system font found, using Arial');
-        return 'Arial';
+          : slide,
+      );
+
+      const video = await this.renderSlideVideo(
+        lessonId,
+        manifest,
+        title ?? manifest[0].title,
+        languageFor(lesson?.videoLanguage ?? undefined),
+        options,
+        checkpoint,
+        tempDir,
+        ctx,
+      );
+
+      await this.lessons.update(lessonId, {
+        videoUrl: video.url,
+        videoManifest: video.manifest,
+        videoCaptionsVttUrl: video.captionsVttUrl,
+        videoCaptionsSrtUrl: video.captionsSrtUrl,
+      });
+      await this.deleteReplacedClips(source, video.manifest);
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: { kind: 'video', name: 'final.mp4', url: video.url },
+      });
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+      console.log(`🎉 SLIDE ${index + 1} REDRAWN`);
+    } catch (e) {
+      // The published video is only replaced on success, so the lesson keeps its status
+      console.error(`❌ SLIDE REDRAW FAILURE (slide ${index + 1}):`, e);
+      throw e;
     }
-
-    private async getGoogleGenAI() {
-        const { GoogleGenAI } = await import('@google/genai');
-        return new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+  }
+
+  /**
+   * Deletes the stored narration and clips of a saved manifest that its replacement no longer
+   * uses. Images stay, since translations keep showing the original's. A failed delete only
+   * leaves an orphan behind, so it doesn't fail the job.
+   */
+  private async deleteReplacedClips(previous: unknown, current: TimedSlide[]) {
+    if (!Array.isArray(previous)) return;
+    const keys = (slides: TimedSlide[]) =>
+      slides.flatMap((slide) => [slide.audio_key, slide.clip_key]);
+    const kept = new Set(keys(current));
+    const replaced = keys(previous as TimedSlide[]).filter(
+      (key): key is string => !!key && !kept.has(key),
+    );
+    await Promise.all(
+      replaced.map((key) =>
+        this.storage
+          .delete(key)
+          .catch((e) =>
+            console.warn(`⚠️  Could not delete replaced object ${key}:`, e),
+          ),
+      ),
+    );
+  }
+
+  /**
+   * Renders, stitches, captions and uploads a slide video for `manifest`.
+   * Slides carrying an `image_key` reuse that stored image instead of generating a new one,
+   * and an `audio_key` or a matching `clip_key` likewise skips the voice-over or the render.
+   */
+  private async renderSlideVideo(
+    lessonId: string,
+    manifest: (Slide & SlideImage & SlideClip)[],
+    title: string,
+    language: Language,
+    options: VideoOptions,
+    checkpoint: Checkpoint,
+    tempDir: string,
+    ctx: JobContext,
+  ) {
+    const course = options.courseId
+      ? await this.courses.findById(options.courseId)
+      : undefined;
+    const theme = this.themes.resolve(options.theme, course?.slideTheme);
+    const logoPath = await this.themes.logoFile(theme, tempDir);
+    console.log(`🎨 Using slide theme "${theme.name}"`);
+
+    const slideFiles: string[] = [];
+    const images: SlideImage[] = [];
+    const clips: SlideClip[] = [];
+    const layouts = manifest.map((slide) => chooseLayout(slide, theme));
+    // Each slide lasts lead-in + narration + tail; the timeline is laid out once all are probed
+    const timing = this.slideTiming();
+    const narrationSeconds: number[] = [];
+    // Script takes the first 10%, slides share the next 80%, stitching/upload the rest
+    const slidePercent = (done: number) => 10 + (80 * done) / manifest.length;
+
+    for (let i = 0; i < manifest.length; i++) {
+      ctx.signal.throwIfAborted();
+      const slide = manifest[i];
+      console.log(`--- Processing Slide ${i + 1} ---`);
+      ctx.progress({
+        stage: 'slide',
+        step: i + 1,
+        total: manifest.length,
+        percent: slidePercent(i),
+        message: `Processing Slide ${i + 1}`,
+      });
+
+      // 1. GENERATE ASSETS (skipping whatever a previous attempt already checkpointed)
+      const step = `slide-${i}`;
+      // Translations carry the original slide's stored image
+      let source =
+        slide.image_key && slide.image_url
+          ? { key: slide.image_key, url: slide.image_url }
+          : undefined;
+      const stored =
+        !checkpoint.has(step, 'image.png') && source
+          ? await this.storage.get(source.key)
+          : undefined;
+      if (checkpoint.has(step, 'image.png')) {
+        console.log(`♻️  Reusing checkpointed image for Slide ${i + 1}`);
+      } else if (stored) {
+        console.log(`♻️  Reusing stored image for Slide ${i + 1}`);
+        checkpoint.writeFile(step, 'image.png', stored);
+      } else {
+        if (source)
+          console.warn(
+            `⚠️  Stored image ${source.key} is missing; regenerating Slide ${i + 1}`,
+          );
+        source = undefined;
+        const image = await this.ai.generateImage(
+          slide.image_prompt + ' High-fidelity illustration.',
+          { task: 'slides.image' },
+        );
+        checkpoint.writeFile(step, 'image.png', image);
+      }
+
+      // What this slide has stored so far, across attempts
+      const kept = checkpoint.readJson<SlideClip>(step) ?? {};
+      const storedNarration =
+        !checkpoint.has(step, 'audio.pcm') && slide.audio_key
+          ? await this.storage.get(slide.audio_key)
+          : undefined;
+      if (checkpoint.has(step, 'audio.pcm')) {
+        console.log(`♻️  Reusing checkpointed narration for Slide ${i + 1}`);
+      } else if (storedNarration) {
+        console.log(`♻️  Reusing stored narration for Slide ${i + 1}`);
+        checkpoint.writeFile(step, 'audio.pcm', storedNarration);
+        kept.audio_key = slide.audio_key;
+      } else {
+        const narration = await this.ai.synthesizeSpeech(
+          slide.narration,
+          language.voices.narrator,
+          { languageCode: language.speechLocale },
+        );
+        checkpoint.writeFile(step, 'audio.pcm', narration);
+      }
+      if (!kept.audio_key) {
+        ({ key: kept.audio_key } = await this.storage.put(
+          `${lessonId}/slides/a${i}_${Date.now()}.pcm`,
+          fs.readFileSync(checkpoint.path(step, 'audio.pcm')),
+          { contentType: 'application/octet-stream' },
+        ));
+        checkpoint.writeJson(step, kept);
+      }
+
+      const imgPath = checkpoint.path(step, 'image.png');
+      const audioPathPCM = checkpoint.path(step, 'audio.pcm');
+      const audioPath = path.join(tempDir, `a${i}.wav`);
+
+      // Publish the slide image straight away so the UI can preview it mid-run
+      const preview =
+        source ??
+        (await this.storage.put(
+          `${lessonId}/slides/i${i}_${Date.now()}.png`,
+          fs.readFileSync(imgPath),
+          { contentType: 'image/png', public: true },
+        ));
+      images.push({ image_key: preview.key, image_url: preview.url });
+      ctx.progress({
+        stage: 'slide',
+        step: i + 1,
+        total: manifest.length,
+        percent: slidePercent(i + 0.5),
+        message: `Generated assets for Slide ${i + 1}`,
+        asset: { kind: 'image', name: `i${i}.png`, url: preview.url },
+      });
+
+      // 2. RENDER SLIDE - Use system FFmpeg instead of ffmpeg-static
+      const slidePath = checkpoint.path(step, 'clip.mp4');
+      const renderPath = path.join(tempDir, `s${i}.mp4`);
+      const pcm = fs.readFileSync(audioPathPCM);
+      const clipHash = createHash('sha256')
+        .update(fs.readFileSync(imgPath))
+        .update(pcm)
+        .update(
+          JSON.stringify([
+            slide.title,
+            slide.bullets,
+            layouts[i],
+            theme,
+            timing.leadIn,
+            timing.tail,
+          ]),
+        )
+        .digest('hex');
+      const storedClip =
+        kept.clip_hash !== clipHash &&
+        slide.clip_key &&
+        slide.clip_hash === clipHash
+          ? await this.storage.get(slide.clip_key)
+          : undefined;
+
+      // A reused clip needs no WAV either; its narration length is read off the raw PCM
+      if (kept.clip_hash === clipHash && checkpoint.has(step, 'clip.mp4')) {
+        console.log(`♻️  Reusing checkpointed clip for Slide ${i + 1}`);
+        narrationSeconds.push(pcmSeconds(pcm));
+      } else if (storedClip) {
+        console.log(`♻️  Reusing stored clip for Slide ${i + 1}`);
+        checkpoint.writeFile(step, 'clip.mp4', storedClip);
+        Object.assign(kept, { clip_key: slide.clip_key, clip_hash: clipHash });
+        checkpoint.writeJson(step, kept);
+        narrationSeconds.push(pcmSeconds(pcm));
+      } else {
+        // Remove existing output file if it exists
+        if (fs.existsSync(audioPath)) fs.unlinkSync(audioPath);
+
+        // Convert PCM to WAV using FFmpeg
+        // Gemini TTS returns: s16le format, 24000 Hz, 1 channel (mono)
+        console.log(`🔊 Converting PCM to WAV ${i}...`);
+        await new Promise((res, rej) => {
+          ffmpeg(audioPathPCM)
+            .inputOptions([
+              '-f s16le', // Input format: signed 16-bit little-endian PCM
+              '-ar 24000', // Sample rate: 24000 Hz
+              '-ac 1', // Channels: 1 (mono)
+            ])
+            .audioCodec('pcm_s16le')
+            .audioChannels(1)
+            .audioFrequency(24000)
+            .format('wav')
+            .on('start', (cmd) =>
+              console.log('Audio conversion cmd:', cmd.substring(0, 150)),
+            )
+            .on('end', () => {
+              console.log(`✅ Converted audio ${i}`);
+              res(true);
+            })
+            .on('error', (err, stdout, stderr) => {
+              console.error('Audio conversion error:', err.message);
+              console.error('Audio stderr:', stderr);
+              rej(err);
+            })
+            .save(audioPath);
+        });
+
+        const narrationLength = await probeDuration(audioPath);
+        narrationSeconds.push(narrationLength);
+        const slideDuration = timing.leadIn + narrationLength + timing.tail;
+        const leadInMs = Math.round(timing.leadIn * 1000);
+
+        // The theme and layout variant place the image and text; text is wrapped and sized
+        // to the frame and read from files so every script reaches drawtext untouched
+        const layout = layoutSlide(slide, layouts[i], theme, this.fonts);
+        const videoFilter = slideVideoFilter(
+          layout,
+          theme,
+          { image: '0:v', logo: logoPath ? '2:v' : undefined },
+          this.textWriter(tempDir, `s${i}`),
+        );
+        const filterComplex = `${videoFilter};[1:a]adelay=${leadInMs}:all=1,apad[outa]`;
+
+        console.log('🔍 Filter:', filterComplex.substring(0, 150) + '...');
+
+        await new Promise((res, rej) => {
+          const cmd = ffmpeg()
+            .input(imgPath)
+            .inputOptions(['-loop 1'])
+            .input(audioPath);
+          if (logoPath) cmd.input(logoPath).inputOptions(['-loop 1']);
+          cmd
+            .complexFilter(filterComplex)
+            .outputOptions([
+              '-map [outv]',
+              '-map [outa]',
+              `-t ${slideDuration.toFixed(3)}`,
+              '-pix_fmt yuv420p',
+              '-r 25',
+              '-c:v libx264',
+              '-c:a aac',
+              '-ar 24000',
+              '-b:a 128k',
+              '-preset ultrafast',
+            ])
+            .save(renderPath);
+
+          cmd.on('start', (commandLine) => {
+            console.log(
+              '🎥 FFmpeg command:',
+              commandLine.substring(0, 200) + '...',
+            );
+          });
+
+          cmd.on('end', () => {
+            console.log(`✅ Rendered slide ${i}`);
+            res(true);
+          });
+
+          cmd.on('error', (err, stdout, stderr) => {
+            console.error('❌ FFmpeg Error:', err.message);
+            console.error('Stderr:', stderr);
+            rej(err);
+          });
+        });
+        checkpoint.writeFile(step, 'clip.mp4', fs.readFileSync(renderPath));
+        const { key } = await this.storage.put(
+          `${lessonId}/slides/s${i}_${Date.now()}.mp4`,
+          fs.readFileSync(renderPath),
+          { contentType: 'video/mp4' },
+        );
+        Object.assign(kept, { clip_key: key, clip_hash: clipHash });
+        checkpoint.writeJson(step, kept);
+      }
+
+      slideFiles.push(slidePath);
+      clips.push(kept);
+      ctx.progress({
+        stage: 'slide',
+        step: i + 1,
+        total: manifest.length,
+        percent: slidePercent(i + 1),
+        message: `Rendered Slide ${i + 1}`,
+        asset: { kind: 'video', name: `s${i}.mp4` },
+      });
     }
 
-    async createVideo(lessonId: string, summary: string, thoughts: string, title: string) {
-        if (this.processingQueue.has(lessonId)) return;
-        this.processingQueue.add(lessonId);
-
-        const tempDir = path.resolve(process.cwd(), 'temp', lessonId);
-
-        try {
-            console.log(`🎬 PRODUCTION START: ${lessonId}`);
-            if (!fs.existsSync(path.resolve(process.cwd(), 'temp'))) fs.mkdirSync(path.resolve(process.cwd(), 'temp'));
-            if (fs.existsSync(tempDir)) fs.rmSync(tempDir, { recursive: true, force: true });
-            fs.mkdirSync(tempDir, { recursive: true });
-
-            await this.supabase.from('lessons').update({ video_status: 'processing' }).eq('lesson_id', lessonId);
+    // Optional branded cards either side of the slides
+    if (theme.intro) {
+      const introPath = path.join(tempDir, 'intro.mp4');
+      const card = layoutCard(
+        [
+          { text: title, role: 'title' },
+          { text: theme.intro.subtitle ?? '', role: 'body' },
+        ],
+        theme,
+        this.fonts,
+      );
+      await this.renderCard(
+        introPath,
+        card,
+        theme,
+        theme.intro.seconds,
+        logoPath,
+        tempDir,
+      );
+      slideFiles.unshift(introPath);
+    }
+    if (theme.outro) {
+      const outroPath = path.join(tempDir, 'outro.mp4');
+      const card = layoutCard(
+        [{ text: theme.outro.text, role: 'title' }],
+        theme,
+        this.fonts,
+      );
+      await this.renderCard(
+        outroPath,
+        card,
+        theme,
+        theme.outro.seconds,
+        logoPath,
+        tempDir,
+      );
+      slideFiles.push(outroPath);
+    }
 
-            const ai = await this.getGoogleGenAI();
-            const scriptRes = await ai.models.generateContent({
-                model: 'gemini-3-pro-preview',
-                contents: [{ role: 'user', parts: [{ text: `Convert to 30s slides. JSON array: [{"title": "Title", "bullets": ["A", "B"], "image_prompt": "desc", "narration": "text"}] Content: ${summary}` }] }]
-            });
+    ctx.progress({
+      stage: 'stitch',
+      percent: 90,
+      message: `Stitching ${slideFiles.length} clips`,
+    });
 
-            const manifest = JSON.parse(scriptRes.candidates?.[0]?.content?.parts?.[0]?.text?.replace(/```json|```/g, '') || "[]");
-            const slideFiles: string[] = [];
-
-            for (let i = 0; i < manifest.length; i++) {
-                const slide = manifest[i];
-                console.log(`--- Processing Slide ${i + 1} ---`);
-
-                // 1. GENERATE ASSETS
-                const imgRes = await ai.models.generateContent({
-                    model: 'gemini-3-pro-image-preview',
-                    contents: [{ role: 'user', parts: [{ text: slide.image_prompt + " High-fidelity illustration." }] }],
-                    config: { responseModalities: ["IMAGE"] }
-                });
-
-                const audioRes = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-preview-tts',
-                    contents: [{ role: 'user', parts: [{ text: slide.narration }] }],
-                    config: {
-                        responseModalities: ["AUDIO"],
-                        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
-                    }
-                });
-
-                const imgPath = path.join(tempDir, `i${i}.png`);
-                const audioPathPCM = path.join(tempDir, `a${i}.pcm`);
-                const audioPath = path.join(tempDir, `a${i}.wav`);
-
-                const imgB64 = imgRes.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-                const audioB64 = audioRes.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-
-                if (!imgB64 || !audioB64) throw new Error("Assets failed to generate");
-
-                fs.writeFileSync(imgPath, Buffer.from(imgB64, 'base64'));
-                fs.writeFileSync(audioPathPCM, Buffer.from(audioB64, 'base64'));
-
-                // Remove existing output file if it exists
-                if (fs.existsSync(audioPath)) fs.unlinkSync(audioPath);
-
-                // Convert PCM to WAV using FFmpeg
-                // Gemini TTS returns: s16le format, 24000 Hz, 1 channel (mono)
-                console.log(`🔊 Converting PCM to WAV ${i}...`);
-                await new Promise((res, rej) => {
-                    ffmpeg(audioPathPCM)
-                        .inputOptions([
-                            '-f s16le',      // Input format: signed 16-bit little-endian PCM
-                            '-ar 24000',     // Sample rate: 24000 Hz
-                            '-ac 1'          // Channels: 1 (mono)
-                        ])
-                        .audioCodec('pcm_s16le')
-                        .audioChannels(1)
-                        .audioFrequency(24000)
-                        .format('wav')
-                        .on('start', (cmd) => console.log('Audio conversion cmd:', cmd.substring(0, 150)))
-                        .on('end', () => {
-                            console.log(`✅ Converted audio ${i}`);
-                            res(true);
-                        })
-                        .on('error', (err, stdout, stderr) => {
-                            console.error("Audio conversion error:", err.message);
-                            console.error("Audio stderr:", stderr);
-                            rej(err);
-                        })
-                        .save(audioPath);
-                });
-
-                // 2. RENDER SLIDE - Use system FFmpeg instead of ffmpeg-static
-                const slidePath = path.join(tempDir, `s${i}.mp4`);
-
-                // Get font path without escaping (we'll handle in command)
-                const rawFontPath = this.getSystemFont();
-
-                // Clean text thoroughly
-                const cleanTitle = slide.title.replace(/[^a-zA-Z0-9 ]/g, " ");
-                const cleanBullets = slide.bullets.map((b: string) =>
-                    b.replace(/[^a-zA-Z0-9 ]/g, " ")
-                );
-
-                // Build drawtext filters
-                let drawtextFilters = `drawtext=fontfile=${rawFontPath}:text='${cleanTitle}':x=100:y=150:fontsize=65:fontcolor=0x22c55e`;
-
-                cleanBullets.forEach((bullet: string, idx: number) => {
-                    drawtextFilters += `,drawtext=fontfile=${rawFontPath}:text='• ${bullet}':x=100:y=${350 + (idx * 80)}:fontsize=36:fontcolor=white`;
-                });
-
-                // Complete filter chain
-                const filterComplex = `[0:v]scale=960:960:force_original_aspect_ratio=increase,crop=960:960[scaled];color=s=1920x1080:c=0x062012[bg];[bg][scaled]overlay=900:60,${drawtextFilters}[outv]`;
-
-                console.log('🔍 Filter:', filterComplex.substring(0, 150) + '...');
-
-                await new Promise((res, rej) => {
-                    const cmd = ffmpeg()
-                        .input(imgPath)
-                        .inputOptions(['-loop 1'])
-                        .input(audioPath)
-                        .complexFilter(filterComplex)
-                        .outputOptions([
-                            '-map [outv]',
-                            '-map 1:a',
-                            '-t 30',
-                            '-pix_fmt yuv420p',
-                            '-c:v libx264',
-                            '-c:a aac',
-                            '-b:a 128k',
-                            '-preset ultrafast',
-                            '-shortest'
-                        ])
-                        .save(slidePath);
-
-                    cmd.on('start', (commandLine) => {
-                        console.log('🎥 FFmpeg command:', commandLine.substring(0, 200) + '...');
-                    });
-
-                    cmd.on('end', () => {
-                        console.log(`✅ Rendered slide ${i}`);
-                        res(true);
-                    });
-
-                    cmd.on('error', (err, stdout, stderr) => {
-                        console.error("❌ FFmpeg Error:", err.message);
-                        console.error("Stderr:", stderr);
-                        rej(err);
-                    });
-                });
-
-                slideFiles.push(slidePath);
-            }
+    // 3. STITCH & UPLOAD
+    const timeline = slideTimeline(narrationSeconds, timing, {
+      intro: theme.intro?.seconds,
+      outro: theme.outro?.seconds,
+    });
+    const finalPath = path.join(tempDir, 'final.mp4');
+    const stitcher = ffmpeg();
+    slideFiles.forEach((f) => stitcher.input(f));
+
+    await new Promise((res, rej) => {
+      stitcher.on('end', res).on('error', (err) => {
+        console.error('❌ Stitching failed:', err);
+        rej(err);
+      });
+      if (timeline.crossfade > 0) {
+        stitcher
+          .complexFilter(crossfadeFilter(timeline))
+          .outputOptions([
+            '-map [outv]',
+            '-map [outa]',
+            '-pix_fmt yuv420p',
+            '-c:v libx264',
+            '-c:a aac',
+            '-b:a 128k',
+            '-preset ultrafast',
+          ])
+          .save(finalPath);
+      } else {
+        stitcher.mergeToFile(finalPath, tempDir);
+      }
+    });
 
-            // 3. STITCH & UPLOAD
-            const finalPath = path.join(tempDir, 'final.mp4');
-            const stitcher = ffmpeg();
-            slideFiles.forEach(f => stitcher.input(f));
-
-            stitcher
-                .on('end', async () => {
-                    const videoBuffer = fs.readFileSync(finalPath);
-                    const storagePath = `${lessonId}/slides_${Date.now()}.mp4`;
-                    await this.supabase.storage.from('seeker').upload(storagePath, videoBuffer, { contentType: 'video/mp4' });
-                    const { data } = this.supabase.storage.from('seeker').getPublicUrl(storagePath);
-
-                    await this.supabase.from('lessons').update({
-                        video_url: data.publicUrl,
-                        video_status: 'ready',
-                        video_manifest: manifest
-                    }).eq('lesson_id', lessonId);
-
-                    fs.rmSync(tempDir, { recursive: true, force: true });
-                    this.processingQueue.delete(lessonId);
-                    console.log('🎉 PRODUCTION COMPLETE');
-                })
-                .on('error', (err) => {
-                    console.error('❌ Stitching failed:', err);
-                    throw err;
-                })
-                .mergeToFile(finalPath);
-
-        } catch (e) {
-            console.error('❌ CRITICAL FAILURE:', e);
-            await this.supabase.from('lessons').update({ video_status: 'failed' }).eq('lesson_id', lessonId);
-            this.processingQueue.delete(lessonId);
-            // Keep temp files for debugging
-            // if (fs.existsSync(tempDir)) fs.rmSync(tempDir, { recursive: true, force: true });
-        }
+    // Chapter markers for the frontend and caption cues both come from the same timeline
+    const timedManifest: TimedSlide[] = manifest.map((slide, i) => ({
+      ...slide,
+      ...images[i],
+      ...clips[i],
+      layout: layouts[i],
+      start: timeline.slides[i].start,
+      end: timeline.slides[i].end,
+    }));
+    const cues = manifest.flatMap((slide, i) =>
+      narrationCues(
+        slide.narration,
+        timeline.slides[i].narrationStart,
+        timeline.slides[i].narrationEnd,
+      ),
+    );
+
+    const srtPath = path.join(tempDir, 'captions.srt');
+    fs.writeFileSync(srtPath, toSrt(cues));
+    const vtt = toWebVtt(cues);
+
+    let outputPath = finalPath;
+    if (options.burnCaptions) {
+      ctx.progress({
+        stage: 'captions',
+        percent: 93,
+        message: 'Burning in captions',
+      });
+      outputPath = path.join(tempDir, 'final_captioned.mp4');
+      await new Promise((res, rej) => {
+        ffmpeg(finalPath)
+          .videoFilters(
+            `subtitles=${escapeFilterValue(srtPath)}:force_style='FontSize=22,Outline=2,MarginV=40'`,
+          )
+          .outputOptions([
+            '-c:v libx264',
+            '-preset ultrafast',
+            '-pix_fmt yuv420p',
+            '-c:a copy',
+          ])
+          .on('end', res)
+          .on('error', (err) => {
+            console.error('❌ Caption burn-in failed:', err);
+            rej(err);
+          })
+          .save(outputPath);
+      });
     }
 
-    async createPodcast(lessonId: string, summary: string, title: string) {
-        const tempDir = path.resolve(process.cwd(), 'temp', `pod_${lessonId}`);
-
-        try {
-            console.log(`🎙️ PODCAST PRODUCTION START: ${lessonId}`);
-            if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-
-            // 1. Update status to processing
-            await this.supabase.from('lessons').update({ podcast_status: 'processing' }).eq('lesson_id', lessonId);
-
-            const ai = await this.getGoogleGenAI();
-
-            // 2. Generate a Podcast Script (Dialogue)
-            const scriptRes = await ai.models.generateContent({
-                model: 'gemini-2.0-flash', // Use Flash for fast text generation
-                contents: [{
-                    role: 'user', parts: [{
-                        text: `
-                    Create a 1-minute podcast script based on this lesson: "${title}". 
-                    Context: ${summary}
-                    
-                    The hosts are Alex (enthusiastic, curious) and Sam (expert, calm).
-                    Format the output strictly as a dialogue like this:
-                    Alex: [text]
-                    Sam: [text]
-                ` }]
-                }]
-            });
-
-            const transcript = scriptRes.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-            // 3. Generate Multi-Speaker Audio
-            console.log("🔊 Generating Multi-speaker TTS...");
-            const audioRes = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-preview-tts',
-                contents: [{
-                    parts: [{
-                        text: `
-                    # DIRECTOR'S NOTES
-                    Style: Engaging educational podcast. 
-                    Alex sounds youthful and Sam sounds mature and authoritative.
-    
-                    # TRANSCRIPT
-                    ${transcript}
-                ` }]
-                }],
-                config: {
-                    responseModalities: ["AUDIO"],
-                    speechConfig: {
-                        multiSpeakerVoiceConfig: {
-                            speakerVoiceConfigs: [
-                                { speaker: 'Alex', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
-                                { speaker: 'Sam', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Charon' } } }
-                            ]
-                        }
-                    }
-                }
-            });
-
-            const audioB64 = audioRes.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (!audioB64) throw new Error("Podcast audio failed to generate");
-
-            const pcmPath = path.join(tempDir, 'pod.pcm');
-            const wavPath = path.join(tempDir, 'pod.wav');
-            fs.writeFileSync(pcmPath, Buffer.from(audioB64, 'base64'));
-
-            // 4. Convert PCM to WAV/MP3 (Gemini returns 24kHz Mono)
-            await new Promise((res, rej) => {
-                ffmpeg(pcmPath)
-                    .inputOptions(['-f s16le', '-ar 24000', '-ac 1'])
-                    .toFormat('mp3')
-                    .on('end', res)
-                    .on('error', rej)
-                    .save(wavPath);
+    const videoBuffer = fs.readFileSync(outputPath);
+    const baseName = `${lessonId}/slides_${language.code}_${Date.now()}`;
+    const { url } = await this.storage.put(`${baseName}.mp4`, videoBuffer, {
+      contentType: 'video/mp4',
+      public: true,
+    });
+    const vttFile = await this.storage.put(
+      `${baseName}.vtt`,
+      Buffer.from(vtt),
+      { contentType: 'text/vtt', public: true },
+    );
+    const srtFile = await this.storage.put(
+      `${baseName}.srt`,
+      fs.readFileSync(srtPath),
+      { contentType: 'application/x-subrip', public: true },
+    );
+
+    return {
+      url,
+      manifest: timedManifest,
+      captionsVttUrl: vttFile.url,
+      captionsSrtUrl: srtFile.url,
+    };
+  }
+
+  async createPodcast(
+    lessonId: string,
+    summary: string,
+    title: string,
+    options: PodcastOptions,
+    ctx: JobContext,
+  ) {
+    const tempDir = path.resolve(process.cwd(), 'temp', `pod_${lessonId}`);
+    const language = languageFor(options.language);
+    const minutes = options.minutes ?? DEFAULT_EPISODE_MINUTES;
+    const settings = this.podcastSettings();
+    const cast = this.podcastHosts.cast(options.format, options.hosts);
+    const hosts = assignVoices(cast.hosts, language);
+    const names = hosts.map((h) => h.name);
+    const checkpoint = this.checkpoints.open(lessonId, 'podcast');
+    if (!ctx.resume) checkpoint.clear();
+
+    try {
+      console.log(
+        `🎙️ PODCAST PRODUCTION START: ${lessonId} (${minutes} min ${cast.format}, ${names.join(', ')}, ${language.name})`,
+      );
+      if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+
+      // 1. Update status to processing
+      await this.lessons.markProcessing(lessonId, 'podcast');
+
+      // 2. Outline the episode; each segment becomes a chapter
+      const count = segmentCount(minutes);
+      let outline = checkpoint.readJson<PodcastOutline>('outline');
+      if (!outline) {
+        ctx.progress({
+          stage: 'outline',
+          percent: 0,
+          message: 'Outlining the episode',
+        });
+        outline = await this.ai.generateStructured(
+          `
+                        Plan a ${minutes}-minute educational podcast episode based on this lesson: "${title}".
+                        Context: ${summary}
+                        Format: ${PODCAST_FORMATS[cast.format].brief}
+
+                        Split it into exactly ${count} segments that build on each other; each one becomes a chapter.
+                        Return JSON ONLY: {"episode_title": "...", "segments": [{"title": "chapter title", "key_points": ["..."]}]}
+                        ${languageInstruction(language)}
+                    `,
+          podcastOutlineSchema(count),
+          { task: 'podcast.outline' },
+        );
+        checkpoint.writeJson('outline', outline);
+      }
+
+      // 3. Write the dialogue segment by segment so long episodes stay on budget
+      const wordsPerSegment = Math.round((minutes * WORDS_PER_MINUTE) / count);
+      const segments: Turn[][] = [];
+      for (const [i, segment] of outline.segments.entries()) {
+        ctx.signal.throwIfAborted();
+        const step = `segment-${i}`;
+        let script = checkpoint
+          .readFile(step, 'transcript.txt')
+          ?.toString('utf8');
+        if (script === undefined) {
+          ctx.progress({
+            stage: 'script',
+            step: i + 1,
+            total: count,
+            percent: 5 + (30 * i) / count,
+            message: `Writing segment ${i + 1}/${count}: ${segment.title}`,
+          });
+          const previous = i > 0 ? formatTurns(segments[i - 1].slice(-4)) : '';
+          script = await this.ai.generateText(
+            `
+                        You are writing part ${i + 1} of ${count} of a ${minutes}-minute educational podcast episode, "${outline.episode_title}", based on the lesson "${title}".
+                        Context: ${summary}
+
+                        This part: ${segment.title}
+                        Cover: ${segment.key_points.join('; ')}
+                        ${i === 0 ? 'Open the episode: welcome the listeners and introduce the topic.' : 'Carry on naturally from the previous part; do not greet the listeners again.'}
+                        ${i === count - 1 ? 'Close the episode with a short recap and a goodbye.' : 'Do not wrap up the episode yet.'}
+                        ${previous ? `The previous part ended with:\n${previous}` : ''}
+
+                        Write about ${wordsPerSegment} words.
+                        ${castPrompt(cast.format, hosts)}
+                        ${languageInstruction(language)}
+                    `,
+            { tier: 'fast', task: 'podcast.script' },
+          );
+        }
+        const turns = parseTurns(script, names);
+        if (turns.length === 0)
+          throw new Error(
+            `Podcast segment ${i + 1} has no lines for ${names.join(', ')}`,
+          );
+        checkpoint.writeFile(step, 'transcript.txt', formatTurns(turns));
+        segments.push(turns);
+      }
+
+      // Show notes make the episode searchable without listening to it
+      let showNotes = checkpoint.readJson<PodcastShowNotes>('show-notes');
+      if (!showNotes) {
+        ctx.progress({
+          stage: 'show_notes',
+          percent: 35,
+          message: 'Writing show notes',
+        });
+        const notes = await this.ai.generateStructured(
+          `
+                        Write show notes for this educational podcast episode, "${outline.episode_title}", based on the lesson "${title}".
+                        List the 5-10 most important terms the episode explains, each with a one-sentence definition.
+                        Return JSON ONLY: {"summary": "two or three sentence summary", "key_terms": [{"term": "...", "definition": "..."}]}
+                        ${languageInstruction(language)}
+
+                        TRANSCRIPT:
+                        ${segments.map(formatTurns).join('\n\n').slice(0, 60000)}
+                    `,
+          showNotesSchema,
+          { task: 'podcast.show_notes' },
+        );
+        showNotes = { summary: notes.summary, keyTerms: notes.key_terms };
+        checkpoint.writeJson('show-notes', showNotes);
+      }
+
+      // 4. TTS in chunks that fit a single request
+      const chunked = segments.map((turns) =>
+        speechChunks(turns, hosts.length, settings.chunkChars),
+      );
+      const totalChunks = chunked.reduce((n, chunks) => n + chunks.length, 0);
+      const audio: Buffer[][] = [];
+      let done = 0;
+      for (const [s, chunks] of chunked.entries()) {
+        audio.push([]);
+        for (const [c, chunk] of chunks.entries()) {
+          ctx.signal.throwIfAborted();
+          const step = `tts-${s}-${c}`;
+          if (checkpoint.has(step, 'chunk.pcm')) {
+            console.log(
+              `♻️  Reusing checkpointed audio for segment ${s + 1}, chunk ${c + 1}`,
+            );
+          } else {
+            console.log(`🔊 Synthesizing segment ${s + 1}, chunk ${c + 1}...`);
+            ctx.progress({
+              stage: 'tts',
+              step: done + 1,
+              total: totalChunks,
+              percent: 35 + (45 * done) / totalChunks,
+              message: `Generating audio ${done + 1}/${totalChunks}`,
             });
-
-            // 5. Upload to Supabase
-            const audioBuffer = fs.readFileSync(wavPath);
-            const storagePath = `${lessonId}/podcast_${Date.now()}.mp3`;
-
-            await this.supabase.storage.from('seeker').upload(storagePath, audioBuffer, { contentType: 'audio/mpeg' });
-            const { data } = this.supabase.storage.from('seeker').getPublicUrl(storagePath);
-
-            // 6. Final Update
-            await this.supabase.from('lessons').update({
-                podcast_url: data.publicUrl,
-                podcast_status: 'ready'
-            }).eq('lesson_id', lessonId);
-
-            console.log('🎉 PODCAST COMPLETE');
-            fs.rmSync(tempDir, { recursive: true, force: true });
-
-        } catch (e) {
-            console.error('❌ PODCAST FAILURE:', e);
-            await this.supabase.from('lessons').update({ podcast_status: 'failed' }).eq('lesson_id', lessonId);
+            const speech = { languageCode: language.speechLocale };
+            // Multi-speaker TTS only takes two voices; other casts are voiced one turn at a time
+            const pcm =
+              hosts.length === 2
+                ? await this.ai.synthesizeDialogue(
+                    `
+                                # DIRECTOR'S NOTES
+                                Style: Engaging educational podcast.
+                                ${hosts.map((h) => `${h.name}: ${h.personality}.`).join('\n')}
+
+                                # TRANSCRIPT
+                                ${formatTurns(chunk)}
+                            `,
+                    hosts.map((h) => ({ speaker: h.name, voice: h.voice })),
+                    speech,
+                  )
+                : await this.ai.synthesizeSpeech(
+                    chunk.map((turn) => turn.text).join(' '),
+                    hosts.find((h) => h.name === chunk[0].speaker)!.voice,
+                    speech,
+                  );
+            checkpoint.writeFile(step, 'chunk.pcm', pcm);
+          }
+          audio[s].push(checkpoint.readFile(step, 'chunk.pcm')!);
+          done++;
+        }
+      }
+
+      // 5. Join, lay the music beds, normalize loudness and tag the MP3
+      ctx.progress({
+        stage: 'master',
+        percent: 80,
+        message: 'Mastering episode',
+      });
+      const speech = joinSpeech(audio, { chunk: 0.35, segment: 1 });
+      const speechPath = path.join(tempDir, 'speech.pcm');
+      fs.writeFileSync(speechPath, speech.pcm);
+
+      const music =
+        options.music === false
+          ? []
+          : [settings.introMusic, settings.outroMusic];
+      const beds: (MusicBed | undefined)[] = [];
+      const bedFiles: string[] = [];
+      for (const [i, file] of music.entries()) {
+        if (!file) continue;
+        if (!fs.existsSync(file)) {
+          console.warn(`⚠️  Podcast music ${file} not found; skipping`);
+          continue;
         }
+        const cap = i === 0 ? settings.introSeconds : settings.outroSeconds;
+        beds[i] = {
+          input: `${bedFiles.length + 1}:a`,
+          seconds: Math.min(cap, await probeDuration(file)),
+        };
+        bedFiles.push(file);
+      }
+
+      const master = masteringFilter({
+        speechSeconds: speech.duration,
+        loudness: settings.loudness,
+        intro: beds[0],
+        outro: beds[1],
+        introLead: 4,
+        outroTail: 6,
+      });
+      const chapters = outline.segments.map((segment, i) => ({
+        title: segment.title,
+        start: i === 0 ? 0 : master.speechOffset + speech.spans[i].start,
+        end:
+          i === count - 1
+            ? master.duration
+            : master.speechOffset + speech.spans[i + 1].start,
+      }));
+      const transcript = timeTurns(
+        chunked.flat(),
+        speech.chunkSpans.flat(),
+        master.speechOffset,
+      );
+      const metadataPath = path.join(tempDir, 'metadata.txt');
+      fs.writeFileSync(
+        metadataPath,
+        ffmetadata(
+          {
+            title,
+            album: settings.showName,
+            artist: settings.showName,
+            album_artist: settings.showName,
+            genre: 'Podcast',
+            date: String(new Date().getFullYear()),
+            comment: showNotes.summary,
+          },
+          chapters,
+        ),
+      );
+
+      const mp3Path = path.join(tempDir, 'episode.mp3');
+      const metadataInput = bedFiles.length + 1;
+      await new Promise((res, rej) => {
+        const cmd = ffmpeg(speechPath).inputOptions([
+          '-f s16le',
+          '-ar 24000',
+          '-ac 1',
+        ]);
+        bedFiles.forEach((file) => cmd.input(file));
+        cmd
+          .input(metadataPath)
+          .inputOptions(['-f ffmetadata'])
+          .complexFilter(master.filter)
+          .outputOptions([
+            '-map [out]',
+            `-map_metadata ${metadataInput}`,
+            `-map_chapters ${metadataInput}`,
+            '-c:a libmp3lame',
+            '-b:a 128k',
+            '-ar 44100',
+            '-id3v2_version 3',
+            '-write_id3v1 1',
+          ])
+          .on('end', res)
+          .on('error', rej)
+          .save(mp3Path);
+      });
+
+      // 6. Upload to storage
+      ctx.progress({
+        stage: 'upload',
+        percent: 90,
+        message: 'Uploading episode',
+      });
+      const audioBuffer = fs.readFileSync(mp3Path);
+      const storagePath = `${lessonId}/podcast_${Date.now()}.mp3`;
+
+      const { url } = await this.storage.put(storagePath, audioBuffer, {
+        contentType: 'audio/mpeg',
+        public: true,
+      });
+
+      // 7. Final Update
+      await this.lessons.markReady(lessonId, 'podcast', {
+        podcastUrl: url,
+        podcastDuration: Math.round(master.duration),
+        podcastChapters: chapters,
+        podcastSize: audioBuffer.length,
+        podcastPublishedAt: new Date().toISOString(),
+        podcastTranscript: transcript,
+        podcastShowNotes: showNotes,
+      });
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: { kind: 'audio', name: 'episode.mp3', url: url },
+      });
+      console.log(
+        `🎉 PODCAST COMPLETE (${Math.round(master.duration / 60)} min, ${chapters.length} chapters)`,
+      );
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+    } catch (e) {
+      console.error('❌ PODCAST FAILURE:', e);
+      await this.lessons.markFailed(lessonId, 'podcast');
+      throw e;
     }
-
-    // Add these to your SlidesService class
-
-    async createComic(lessonId: string, aiNotes: string, title: string) {
-        const tempDir = path.resolve(process.cwd(), 'temp', `comic_${lessonId}`);
-
-        try {
-            console.log(`🎨 [${lessonId}] COMIC PRODUCTION BEGAN: Topic - ${title}`);
-            if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-
-            // 1. Set Status to Processing
-            await this.supabase.from('lessons').update({ comic_status: 'processing' }).eq('lesson_id', lessonId);
-
-            const ai = await this.getGoogleGenAI();
-
-            // --- STAGE 1: THE DIRECTOR (Analysis & Storyboarding) ---
-            // This stage determines the "Visual Identity" based on the content.
-            const directorPrompt = `
+  }
+
+  // Add these to your SlidesService class
+
+  async createComic(
+    lessonId: string,
+    aiNotes: string,
+    title: string,
+    options: ComicOptions,
+    ctx: JobContext,
+  ) {
+    const tempDir = path.resolve(process.cwd(), 'temp', `comic_${lessonId}`);
+    const language = languageFor(options.language);
+    const owner = { lessonId, courseId: options.courseId };
+    const checkpoint = this.checkpoints.open(lessonId, 'comic');
+    if (!ctx.resume) checkpoint.clear();
+
+    try {
+      console.log(`🎨 [${lessonId}] COMIC PRODUCTION BEGAN: Topic - ${title}`);
+      if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+
+      // 1. Set Status to Processing
+      await this.lessons.markProcessing(lessonId, 'comic');
+
+      // A course's recurring character keeps the same look across all of its comics and videos
+      let sheet =
+        checkpoint.readJson<CharacterSheet>('character_sheet') ??
+        (await this.characters.find(owner));
+
+      // --- STAGE 1: THE DIRECTOR (Analysis & Storyboarding) ---
+      // This stage determines the "Visual Identity" based on the content.
+      const directorPrompt = `
                 Analyze the following educational topic and notes:
                 TOPIC: ${title}
                 NOTES: ${aiNotes.substring(0, 1500)}
@@ -368,10 +1447,16 @@ export class SlidesService implements OnModuleInit {
     
                 STEP 2: Define Visual Anchors.
                 - Describe 1-2 consistent characters and the specific color palette (e.g., "Deep ochres and forest greens for Buganda history").
+                ${sheet ? `- The course already has a main character: make them the protagonist and start visual_anchors with this description: ${sheet.description} (drawn in this style: ${sheet.artStyle}).` : ''}
     
                 STEP 3: Storyboard 5 Pages.
                 - Page 1 must be a cinematic Title Page.
                 - Pages 2-5 must explain the key facts from the notes visually.
+                - Text is lettered onto the finished art, so write it separately from the visuals:
+                  "title" is a short page title for the table of contents,
+                  "caption" is the narration box (at most 40 words),
+                  "dialogue" holds 0-2 short lines (under 20 words each) spoken by characters on the page,
+                  "caption_position" ("top" or "bottom") is the edge where the art leaves room for the caption; speech balloons go at the other edge.
     
                 OUTPUT JSON ONLY:
                 {
@@ -379,121 +1464,560 @@ export class SlidesService implements OnModuleInit {
                   "style_guide": "detailed description of art style",
                   "visual_anchors": "detailed character/env descriptions for consistency",
                   "pages": [
-                    { "page": 1, "panel_desc": "visual description", "caption": "educational text" }
+                    { "page": 1, "title": "page title", "panel_desc": "visual description", "caption": "educational text", "dialogue": [{ "speaker": "character", "text": "spoken line" }], "caption_position": "top" }
                   ]
                 }
+                ${languageInstruction(language, ['thematic_era', 'style_guide', 'visual_anchors', 'panel_desc', 'caption_position'])}
             `;
 
-            const boardRes = await ai.models.generateContent({
-                model: 'gemini-3-pro-preview',
-                contents: [{ role: 'user', parts: [{ text: directorPrompt }] }]
-            });
-            const manifest = JSON.parse(boardRes.candidates?.[0]?.content?.parts?.[0]?.text?.replace(/```json|```/g, '').trim() || '{}');
-
-            console.log(`📋 [${lessonId}] Style Selected: ${manifest.thematic_era} - ${manifest.style_guide}`);
-
-            // --- STAGE 2: THE ARTIST (Stateful Continuity) ---
-            const pageUrls: string[] = [];
-
-            for (const pageData of manifest.pages) {
-                console.log(`🖌️ [${lessonId}] Rendering Page ${pageData.page}/5...`);
-
-                const artistPrompt = `
-                    You are a master comic artist. Your style for this project is: ${manifest.style_guide}.
-                    Visual Anchors for continuity: ${manifest.visual_anchors}.
-                    Era: ${manifest.thematic_era}.
-                    Maintain 100% visual consistency. Do not deviate from the established era.
-                    
-                    Generate Page ${pageData.page}. 
-                    Visual Description: ${pageData.panel_desc}.
-                    Include this Caption/Text in a professional layout: "${pageData.caption}".
-                    Style Reminder: ${manifest.style_guide}.
-                    Requirement: High-fidelity, 2-3 panels, cinematic lighting.
-                `;
-
-                const result = await ai.models.generateContent({
-                    model: 'gemini-3-pro-image-preview',
-                    contents: [{ role: 'user', parts: [{ text: artistPrompt }] }],
-                    config: { responseModalities: ["IMAGE"] }
-                });
-
-                const imgPart = result.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-                if (!imgPart?.inlineData?.data) throw new Error(`Artist failed to render page ${pageData.page}`);
-
-                // Upload to Supabase Storage
-                const buffer = Buffer.from(imgPart.inlineData.data, 'base64');
-                const storagePath = `comics/${lessonId}/p${pageData.page}_${Date.now()}.jpg`;
-
-                await this.supabase.storage
-                    .from('seeker')
-                    .upload(storagePath, buffer, { contentType: 'image/jpeg', upsert: true });
-
-                const { data: { publicUrl } } = this.supabase.storage.from('seeker').getPublicUrl(storagePath);
-                pageUrls.push(publicUrl);
-            }
+      ctx.progress({
+        stage: 'storyboard',
+        percent: 0,
+        message: 'Director is storyboarding',
+      });
+      let manifest = checkpoint.readJson<ComicStoryboard>('storyboard');
+      if (!manifest) {
+        manifest = await this.ai.generateStructured(
+          directorPrompt,
+          comicStoryboardSchema,
+          { task: 'comic.storyboard' },
+        );
+        checkpoint.writeJson('storyboard', manifest);
+      }
+
+      // Review mode stops here until a teacher approves (and maybe edits) the storyboard
+      const reviewed = await ctx.review(manifest);
+      if (!reviewed) {
+        await this.lessons.setStatus(lessonId, 'comic', 'awaiting_review');
+        if (fs.existsSync(tempDir))
+          fs.rmSync(tempDir, { recursive: true, force: true });
+        console.log(`📝 [${lessonId}] Storyboard is waiting for review`);
+        return;
+      }
+      manifest = reviewed;
+      checkpoint.writeJson('storyboard', manifest);
+
+      console.log(
+        `📋 [${lessonId}] Style Selected: ${manifest.thematic_era} - ${manifest.style_guide}`,
+      );
+
+      // The reference sheet goes to every page render, so characters don't drift between pages
+      let reference: Buffer;
+      if (sheet) {
+        console.log(`♻️  [${lessonId}] Reusing character sheet ${sheet.id}`);
+        reference = await this.characters.image(sheet);
+      } else {
+        ctx.progress({
+          stage: 'character_sheet',
+          percent: 5,
+          message: 'Drawing character reference sheet',
+        });
+        ({ sheet, image: reference } = await this.characters.create(
+          owner,
+          manifest.visual_anchors,
+          manifest.style_guide,
+        ));
+      }
+      checkpoint.writeJson('character_sheet', sheet);
+
+      // --- STAGE 2: THE ARTIST (Stateful Continuity) ---
+      const pages: StoredComicPage[] = [];
+
+      const totalPages = manifest.pages.length;
+      for (const [index, pageData] of manifest.pages.entries()) {
+        ctx.signal.throwIfAborted();
+        console.log(`🖌️ [${lessonId}] Rendering Page ${pageData.page}/5...`);
+        ctx.progress({
+          stage: 'page',
+          step: index + 1,
+          total: totalPages,
+          percent: 10 + (80 * index) / totalPages,
+          message: `Rendering Page ${index + 1}/${totalPages}`,
+        });
+
+        const step = `page-${pageData.page}`;
+        const done = checkpoint.readJson<StoredComicPage>(step);
+        if (done) {
+          console.log(
+            `♻️  [${lessonId}] Reusing checkpointed Page ${pageData.page}`,
+          );
+          pages.push(done);
+          continue;
+        }
 
-            // 3. Final Database Update
-            await this.supabase.from('lessons').update({
-                comic_pages: pageUrls,
-                comic_status: 'ready'
-            }).eq('lesson_id', lessonId);
+        let art = checkpoint.readFile(step, 'art.jpg');
+        if (!art) {
+          art = await this.drawComicPage(manifest, pageData, sheet, reference);
+          checkpoint.writeFile(step, 'art.jpg', art);
+        }
 
-            console.log(`🎉 [${lessonId}] COMIC COMPLETE: ${pageUrls.length} pages generated.`);
+        // Real lettering instead of model-drawn text, which tends to come out garbled
+        const buffer = await this.letterComicPage(art, pageData, tempDir);
 
-            // Cleanup local temp files
-            if (fs.existsSync(tempDir)) fs.rmSync(tempDir, { recursive: true, force: true });
+        const stored = await this.storeComicPage(
+          lessonId,
+          pageData,
+          art,
+          buffer,
+        );
+        checkpoint.writeFile(step, 'page.jpg', buffer);
+        checkpoint.writeJson(step, stored);
+        pages.push(stored);
+        ctx.progress({
+          stage: 'page',
+          step: index + 1,
+          total: totalPages,
+          percent: 10 + (80 * (index + 1)) / totalPages,
+          message: `Rendered Page ${index + 1}/${totalPages}`,
+          asset: {
+            kind: 'image',
+            name: `p${pageData.page}.jpg`,
+            url: stored.page_url,
+          },
+        });
+      }
+      const pageUrls = pages.map((page) => page.page_url);
+
+      // --- STAGE 3: THE BINDERY (cover, contents, PDF and CBZ) ---
+      ctx.signal.throwIfAborted();
+      ctx.progress({
+        stage: 'export',
+        percent: 90,
+        message: 'Binding PDF and CBZ',
+      });
+      const book = await this.bindComic(
+        lessonId,
+        title,
+        manifest,
+        language,
+        checkpoint,
+        tempDir,
+      );
+      ctx.progress({
+        stage: 'export',
+        percent: 95,
+        message: 'Bound PDF and CBZ',
+        asset: { kind: 'document', name: 'comic.pdf', url: book.pdfUrl },
+      });
+
+      // 4. Final Database Update
+      await this.lessons.markReady(lessonId, 'comic', {
+        comicPages: pageUrls,
+        comicManifest: {
+          ...manifest,
+          title,
+          language: language.code,
+          character_sheet: sheet,
+          pages,
+        } satisfies StoredComic,
+        comicPdfUrl: book.pdfUrl,
+        comicCbzUrl: book.cbzUrl,
+      });
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        message: `${pageUrls.length} pages generated`,
+      });
+      console.log(
+        `🎉 [${lessonId}] COMIC COMPLETE: ${pageUrls.length} pages generated.`,
+      );
+
+      // Cleanup local temp files
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+    } catch (error) {
+      console.error(`❌ [${lessonId}] COMIC FAILED:`, error);
+      await this.lessons.markFailed(lessonId, 'comic');
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Redraws one page of a finished comic (from `prompt` instead of its panel description, when given),
+   * re-letters it and rebinds the PDF and CBZ. The other pages keep their stored art.
+   */
+  async regenerateComicPage(
+    lessonId: string,
+    pageNumber: number,
+    prompt: string | undefined,
+    ctx: JobContext,
+  ) {
+    const tempDir = path.resolve(
+      process.cwd(),
+      'temp',
+      `comic_${lessonId}_p${pageNumber}`,
+    );
+    const checkpoint = this.checkpoints.openRedraw(
+      lessonId,
+      'comic',
+      `page-${pageNumber}`,
+    );
+    if (!ctx.resume) checkpoint.clear();
+
+    try {
+      console.log(`🖌️ [${lessonId}] REDRAWING COMIC PAGE ${pageNumber}`);
+      if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+
+      const lesson = await this.lessons.findById(lessonId);
+      const comic = lesson?.comicManifest as StoredComic | null | undefined;
+      const index =
+        comic?.pages.findIndex((page) => page.page === pageNumber) ?? -1;
+      if (!comic || index < 0)
+        throw new Error(
+          `Lesson ${lessonId} has no comic page ${pageNumber} to regenerate`,
+        );
 
-        } catch (error) {
-            console.error(`❌ [${lessonId}] COMIC FAILED:`, error);
-            await this.supabase.from('lessons').update({ comic_status: 'failed' }).eq('lesson_id', lessonId);
-            if (fs.existsSync(tempDir)) fs.rmSync(tempDir, { recursive: true, force: true });
+      const page = {
+        ...comic.pages[index],
+        panel_desc: prompt ?? comic.pages[index].panel_desc,
+      };
+      const step = `page-${pageNumber}`;
+      let stored = checkpoint.readJson<StoredComicPage>(step);
+      if (!stored) {
+        let art = checkpoint.readFile(step, 'art.jpg');
+        if (!art) {
+          ctx.progress({
+            stage: 'page',
+            percent: 0,
+            message: `Redrawing Page ${pageNumber}`,
+          });
+          const reference = await this.characters.image(comic.character_sheet);
+          art = await this.drawComicPage(
+            comic,
+            page,
+            comic.character_sheet,
+            reference,
+          );
+          checkpoint.writeFile(step, 'art.jpg', art);
         }
+        const buffer = await this.letterComicPage(art, page, tempDir);
+        stored = await this.storeComicPage(lessonId, page, art, buffer);
+        checkpoint.writeFile(step, 'page.jpg', buffer);
+        checkpoint.writeJson(step, stored);
+      }
+      const pages = comic.pages.map((p, i) => (i === index ? stored : p));
+      ctx.progress({
+        stage: 'page',
+        percent: 70,
+        message: `Redrew Page ${pageNumber}`,
+        asset: {
+          kind: 'image',
+          name: `p${pageNumber}.jpg`,
+          url: stored.page_url,
+        },
+      });
+
+      // The bindery reads pages from the checkpoint, so the untouched ones are fetched back from storage
+      ctx.signal.throwIfAborted();
+      for (const p of pages) {
+        const pageStep = `page-${p.page}`;
+        if (!checkpoint.has(pageStep, 'page.jpg')) {
+          checkpoint.writeFile(
+            pageStep,
+            'page.jpg',
+            await this.storedFile(p.page_key),
+          );
+        }
+      }
+      const first = pages[0];
+      if (!checkpoint.has(`page-${first.page}`, 'art.jpg')) {
+        checkpoint.writeFile(
+          `page-${first.page}`,
+          'art.jpg',
+          await this.storedFile(first.art_key),
+        );
+      }
+
+      ctx.progress({
+        stage: 'export',
+        percent: 85,
+        message: 'Rebinding PDF and CBZ',
+      });
+      const manifest = { ...comic, pages };
+      const book = await this.bindComic(
+        lessonId,
+        comic.title,
+        manifest,
+        languageFor(comic.language),
+        checkpoint,
+        tempDir,
+      );
+
+      await this.lessons.update(lessonId, {
+        comicPages: pages.map((p) => p.page_url),
+        comicManifest: manifest satisfies StoredComic,
+        comicPdfUrl: book.pdfUrl,
+        comicCbzUrl: book.cbzUrl,
+      });
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: { kind: 'document', name: 'comic.pdf', url: book.pdfUrl },
+      });
+      console.log(`🎉 [${lessonId}] COMIC PAGE ${pageNumber} REDRAWN`);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+    } catch (error) {
+      // The published comic is untouched until the rebind succeeds, so the lesson keeps its status
+      console.error(`❌ [${lessonId}] COMIC PAGE ${pageNumber} FAILED:`, error);
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  private async drawComicPage(
+    style: Pick<
+      ComicStoryboard,
+      'style_guide' | 'visual_anchors' | 'thematic_era'
+    >,
+    pageData: ComicPage,
+    sheet: CharacterSheet,
+    reference: Buffer,
+  ) {
+    const balloonEdge = pageData.caption_position === 'top' ? 'bottom' : 'top';
+    const speakers = [
+      ...new Set(pageData.dialogue.map((line) => line.speaker)),
+    ].join(' and ');
+    const artistPrompt = `
+            You are a master comic artist. Your style for this project is: ${style.style_guide}.
+            Visual Anchors for continuity: ${style.visual_anchors}.
+            Era: ${style.thematic_era}.
+            Maintain 100% visual consistency. Do not deviate from the established era.
+
+            Generate Page ${pageData.page}.
+            Visual Description: ${pageData.panel_desc}.
+            ${characterReference(sheet.description)}
+            Do NOT draw any text, letters, captions or speech balloons: they are lettered onto the page afterwards.
+            Keep the ${pageData.caption_position} fifth of the page free of important detail (sky, wall, ground) for a caption box.
+            ${speakers ? `Keep the ${balloonEdge} corners clear for speech balloons; ${speakers} should be drawn speaking.` : ''}
+            Style Reminder: ${style.style_guide}.
+            Requirement: High-fidelity, 2-3 panels, cinematic lighting.
+        `;
+    return this.ai.generateImage(artistPrompt, {
+      task: 'comic.page',
+      referenceImages: [reference],
+    });
+  }
+
+  // Both the bare art (for redraws and the cover) and the lettered page are kept
+  private async storeComicPage(
+    lessonId: string,
+    pageData: ComicPage,
+    art: Buffer,
+    page: Buffer,
+  ): Promise<StoredComicPage> {
+    const stamp = Date.now();
+    const { key: art_key } = await this.storage.put(
+      `comics/${lessonId}/p${pageData.page}_art_${stamp}.jpg`,
+      art,
+      { contentType: 'image/jpeg' },
+    );
+    const { key: page_key, url: page_url } = await this.storage.put(
+      `comics/${lessonId}/p${pageData.page}_${stamp}.jpg`,
+      page,
+      { contentType: 'image/jpeg', public: true },
+    );
+    return { ...pageData, art_key, page_key, page_url };
+  }
+
+  private async storedFile(key: string) {
+    const file = await this.storage.get(key);
+    if (!file) throw new Error(`Stored file ${key} is missing`);
+    return file;
+  }
+
+  // One JPEG frame: `filter` applied to an image file, or to a lavfi source
+  private async renderStill(
+    input: string,
+    filter: string,
+    outputPath: string,
+    lavfi = false,
+  ) {
+    await new Promise((res, rej) => {
+      const cmd = ffmpeg(input);
+      if (lavfi) cmd.inputFormat('lavfi');
+      cmd
+        .videoFilters(filter)
+        .outputOptions(['-frames:v 1', '-q:v 2', '-pix_fmt yuvj420p'])
+        .on('end', res)
+        .on('error', rej)
+        .save(outputPath);
+    });
+  }
+
+  private async renderLettering(
+    input: string,
+    lettering: Lettering,
+    name: string,
+    tempDir: string,
+    lavfi = false,
+  ) {
+    const output = path.join(tempDir, `${name}.jpg`);
+    const filter = letteringFilter(
+      lettering,
+      (text, weight) => this.fonts.resolve(text, weight),
+      this.textWriter(tempDir, name),
+    );
+    await this.renderStill(input, filter, output, lavfi);
+    return output;
+  }
+
+  private async letterComicPage(art: Buffer, page: ComicPage, tempDir: string) {
+    const artPath = path.join(tempDir, `p${page.page}_art.jpg`);
+    fs.writeFileSync(artPath, art);
+    const lettering = pageLettering(await probeImageSize(artPath), {
+      caption: page.caption,
+      dialogue: page.dialogue,
+      captionPosition: page.caption_position,
+    });
+    if (lettering.truncated)
+      console.warn(`⚠️  Page ${page.page} lettering was shortened to fit`);
+    return fs.readFileSync(
+      await this.renderLettering(artPath, lettering, `p${page.page}`, tempDir),
+    );
+  }
+
+  // Cover (page one's art under the title) and a contents page, bound with the lettered pages
+  private async bindComic(
+    lessonId: string,
+    title: string,
+    manifest: ComicStoryboard,
+    language: Language,
+    checkpoint: Checkpoint,
+    tempDir: string,
+  ) {
+    const pages: PdfPage[] = [];
+    const addPage = async (file: string) => {
+      const size = await probeImageSize(file);
+      pages.push({ jpeg: fs.readFileSync(file), ...size });
+    };
+
+    const first = manifest.pages[0];
+    const coverArt = path.join(tempDir, 'cover_art.jpg');
+    const firstStep = `page-${first.page}`;
+    fs.writeFileSync(
+      coverArt,
+      (checkpoint.readFile(firstStep, 'art.jpg') ??
+        checkpoint.readFile(firstStep, 'page.jpg'))!,
+    );
+    const size = await probeImageSize(coverArt);
+    await addPage(
+      await this.renderLettering(
+        coverArt,
+        coverLettering(size, title, manifest.thematic_era),
+        'cover',
+        tempDir,
+      ),
+    );
+
+    const entries = manifest.pages.map((page, i) => ({
+      number: i + 1,
+      title:
+        page.title ?? page.caption.split(/\s+/).slice(0, 6).join(' ') + '…',
+    }));
+    const contents = contentsLettering(size, title, entries);
+    await addPage(
+      await this.renderLettering(
+        `color=c=${contents.background}:s=${size.width}x${size.height}`,
+        contents,
+        'contents',
+        tempDir,
+        true,
+      ),
+    );
+    // Contents rows link to the pages after the cover and contents
+    pages[1].links = contents.rows.map((area, i) => ({ area, page: i + 2 }));
+
+    for (const page of manifest.pages) {
+      const file = path.join(tempDir, `bound_p${page.page}.jpg`);
+      fs.writeFileSync(
+        file,
+        checkpoint.readFile(`page-${page.page}`, 'page.jpg')!,
+      );
+      await addPage(file);
     }
 
-    // Inside SlidesService class...
-
-async generateSkillTree(courseId: string) {
-    // 1. Fetch existing modules and lessons
-    const { data: course } = await this.supabase
-        .from('courses')
-        .select(`*, modules(id, title, order_index, lesson_plans(id, title, order_index, status))`)
-        .eq('id', courseId)
-        .single();
-
-    if (!course) throw new Error("Course not found");
-
-    // Check if tree already exists
-    const { data: existingTree } = await this.supabase.from('skill_trees').select('id').eq('course_id', courseId).single();
-    if (existingTree) return { message: 'Tree already exists', treeId: existingTree.id };
-
-    // 2. Prepare data for Gemini to Layout
-    const flatLessons = course.modules
-        .sort((a, b) => a.order_index - b.order_index)
-        .flatMap((m, mIdx) => 
-            m.lesson_plans
-                .sort((a, b) => a.order_index - b.order_index)
-                .map((l, lIdx) => ({ 
-                    id: l.id, 
-                    title: l.title, 
-                    module: m.title, 
-                    globalIndex: mIdx * 10 + lIdx // Helper for linear dependency
-                }))
-        );
+    const pdf = imagePdf({
+      title,
+      language: language.code,
+      pages,
+      outline: [
+        { title, page: 0 },
+        ...entries.map((entry, i) => ({ title: entry.title, page: i + 2 })),
+      ],
+    });
+    const names = [
+      'cover.jpg',
+      'contents.jpg',
+      ...manifest.pages.map(
+        (p) => `page${String(p.page).padStart(2, '0')}.jpg`,
+      ),
+    ];
+    const cbz = zipStore([
+      ...pages.map((page, i) => ({
+        name: `${String(i).padStart(3, '0')}_${names[i]}`,
+        data: page.jpeg,
+      })),
+      {
+        name: 'ComicInfo.xml',
+        data: Buffer.from(
+          comicInfoXml({
+            title,
+            series: manifest.thematic_era,
+            language: language.code,
+            pages: pages.map((page, i) => ({
+              type: i === 0 ? 'FrontCover' : i === 1 ? 'Other' : 'Story',
+              bookmark: i === 0 ? title : entries[i - 2]?.title,
+              width: page.width,
+              height: page.height,
+            })),
+          }),
+        ),
+      },
+    ]);
+
+    const stamp = Date.now();
+    const { url: pdfUrl } = await this.storage.put(
+      `comics/${lessonId}/comic_${stamp}.pdf`,
+      pdf,
+      { contentType: 'application/pdf', public: true },
+    );
+    const { url: cbzUrl } = await this.storage.put(
+      `comics/${lessonId}/comic_${stamp}.cbz`,
+      cbz,
+      { contentType: 'application/vnd.comicbook+zip', public: true },
+    );
+    console.log(`📚 [${lessonId}] Bound ${pages.length}-page PDF and CBZ`);
+    return { pdfUrl, cbzUrl };
+  }
+
+  // Inside SlidesService class...
+
+  // Lays every lesson of the course out on the skill tree canvas, in curriculum order
+  async layoutSkillTree(course: Course): Promise<PlacedNode[]> {
+    // 2. Prepare data for Gemini to Layout (modules and lessons come back in order_index order)
+    const flatLessons = course.modules.flatMap((m) => m.lessonPlans);
 
     // 3. AI Layout Generation
-    const ai = await this.getGoogleGenAI();
     const prompt = `
         I have a list of lessons for a course: "${course.title}".
-        List: ${JSON.stringify(flatLessons.map(l => ({ id: l.id, title: l.title })))}
+        List: ${JSON.stringify(flatLessons.map((l) => ({ id: l.id, title: l.title })))}
 
         I need you to arrange these into a visual Skill Tree RPG-style map.
         
         Rules:
-        1. The output must be a JSON array of nodes.
+        1. The output must be a JSON array of nodes, exactly one per lesson, using the lesson ids above.
         2. x_position: 0-100 (horizontal canvas percent).
         3. y_position: 0-100 (vertical canvas percent). Top (0) is start, Bottom (100) is end.
         4. Organize them logically. Usually earlier lessons at top, later at bottom. Branches are cool.
-        5. "dependencies": array of IDs of the *immediate* parent node(s).
+        5. "dependencies": array of IDs of the *immediate* parent node(s). No cycles.
+        6. Keep nodes at least ${MIN_NODE_GAP} apart so they don't overlap.
         
         Output JSON only:
         [
@@ -501,33 +2025,71 @@ async generateSkillTree(courseId: string) {
         ]
     `;
 
-    const result = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: [{ role: 'user', parts: [{ text: prompt }] }]
-    });
+    // The model's layout is checked as a DAG over exactly these lessons; unusable output falls back to a layered layout
+    let nodes: PlacedNode[] | null = null;
+    try {
+      const layout = await this.ai.generateStructured(
+        prompt,
+        skillTreeLayoutSchema,
+        { task: 'skillTree.layout' },
+      );
+      const check = checkLayout(
+        flatLessons.map((l) => l.id),
+        layout,
+      );
+      if (check.issues.length > 0)
+        console.warn(
+          `⚠️  Skill tree layout for ${course.id}: ${check.issues.join('; ')}`,
+        );
+      nodes = check.nodes;
+    } catch (e) {
+      console.warn(`⚠️  Skill tree layout for ${course.id} failed:`, e);
+    }
+    if (!nodes) {
+      console.log(`📐 Using layered fallback layout for ${course.id}`);
+      nodes = layeredLayout(
+        course.modules.map((m) => m.lessonPlans.map((l) => l.id)),
+      );
+    }
+    return nodes;
+  }
 
-    const layout = JSON.parse(result.candidates?.[0]?.content?.parts?.[0]?.text?.replace(/```json|```/g, '').trim() || "[]");
+  async generateSkillTree(courseId: string) {
+    // 1. Fetch existing modules and lessons
+    const course = await this.courses.findById(courseId);
 
-    // 4. Save to DB
-    const { data: newTree } = await this.supabase.from('skill_trees').insert({ course_id: courseId }).select().single();
+    if (!course) throw new Error('Course not found');
 
-    const nodesToInsert = layout.map((node: any) => {
-        const originalLesson = flatLessons.find(l => l.id === node.lesson_id);
+    // Check if tree already exists
+    const existingTree = await this.skillTrees.findByCourse(courseId);
+    if (existingTree)
+      return { message: 'Tree already exists', treeId: existingTree.id };
+
+    const nodes = await this.layoutSkillTree(course);
+    const flatLessons = course.modules.flatMap((m) => m.lessonPlans);
+
+    // 4. Save to DB
+    const newTree = await this.skillTrees.create(courseId);
+
+    const lessonsById = new Map(flatLessons.map((l) => [l.id, l]));
+    const nodesToInsert = nodes.map((node) => {
+      const lesson = lessonsById.get(node.lessonId)!;
+      return {
+        treeId: newTree.id,
+        lessonPlanId: node.lessonId,
+        label: lesson.title,
+        x: node.x,
+        y: node.y,
+        dependencies: node.dependencies,
         // Fallback status logic
-        const lessonStatus = course.modules.flatMap(m => m.lesson_plans).find(l => l.id === node.lesson_id)?.status || 'locked';
-
-        return {
-            tree_id: newTree.id,
-            lesson_plan_id: node.lesson_id,
-            label: originalLesson?.title || "Unknown Lesson",
-            x_position: node.x,
-            y_position: node.y,
-            dependencies: node.dependencies,
-            status: lessonStatus
-        };
+        status: lesson.status || 'locked',
+        unlockRule: 'all' as const,
+        optional: false,
+        retiredAt: null,
+      };
     });
 
-    await this.supabase.from('skill_nodes').insert(nodesToInsert);
+    await this.skillTrees.insertNodes(nodesToInsert);
     return { message: 'Tree Generated', treeId: newTree.id };
+  }
 }
-}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorage } from './local-storage';
+
+describe('LocalStorage', () => {
+  let dir: string;
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalStorage(dir, 'http://localhost:3001', 'secret');
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('round-trips objects with their content type', async () => {
+    const stored = await storage.put('lesson-1/a b.png', Buffer.from('png'), {
+      contentType: 'image/png',
+    });
+    expect(stored.url).toBe('http://localhost:3001/storage/lesson-1/a%20b.png');
+    expect((await storage.get('lesson-1/a b.png'))?.toString()).toBe('png');
+    expect(await storage.locate('lesson-1/a b.png')).toEqual({
+      file: path.join(dir, 'lesson-1', 'a b.png'),
+      contentType: 'image/png',
+      public: false,
+    });
+
+    await storage.delete('lesson-1/a b.png');
+    expect(await storage.get('lesson-1/a b.png')).toBeUndefined();
+  });
+
+  it('remembers which objects were stored as public', async () => {
+    await storage.put('lesson-1/final.mp4', Buffer.from('mp4'), {
+      contentType: 'video/mp4',
+      public: true,
+    });
+    expect(await storage.locate('lesson-1/final.mp4')).toMatchObject({
+      public: true,
+    });
+
+    await storage.put('lesson-1/final.mp4', Buffer.from('mp4'), {
+      contentType: 'video/mp4',
+    });
+    expect(await storage.locate('lesson-1/final.mp4')).toMatchObject({
+      public: false,
+    });
+  });
+
+  it('does not serve sidecar files as objects', async () => {
+    await storage.put('lesson-1/x.mp4', Buffer.from('mp4'), {
+      contentType: 'video/mp4',
+      public: true,
+    });
+    expect(await storage.locate('lesson-1/x.mp4.content-type')).toBeUndefined();
+    expect(await storage.locate('lesson-1/x.mp4.public')).toBeUndefined();
+  });
+
+  it('signs URLs that expire', async () => {
+    const url = new URL(await storage.signedUrl('lesson-1/x.mp4', 60));
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(storage.verify('lesson-1/x.mp4', expires, signature)).toBe(true);
+    expect(storage.verify('lesson-2/x.mp4', expires, signature)).toBe(false);
+    expect(storage.verify('lesson-1/x.mp4', expires + 1, signature)).toBe(
+      false,
+    );
+    expect(
+      storage.verify('lesson-1/x.mp4', Date.now() / 1000 - 1, signature),
+    ).toBe(false);
+  });
+
+  it('rejects keys that escape the storage root', async () => {
+    await expect(
+      storage.put('../outside.txt', Buffer.from('x'), {
+        contentType: 'text/plain',
+      }),
+    ).rejects.toThrow('escapes');
+  });
+});
@@ -0,0 +1,126 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PutOptions, StorageService, StoredObject } from './storage.service';
+
+const CONTENT_TYPE_SUFFIX = '.content-type';
+// Marks an object stored with `public: true`
+const PUBLIC_SUFFIX = '.public';
+const SIDECARS = [CONTENT_TYPE_SUFFIX, PUBLIC_SUFFIX];
+
+/**
+ * Keeps objects under `rootDir` and serves them through the app's own
+ * `/storage/*` route (see StorageController), so development and tests
+ * need no external bucket. Signed URLs carry an HMAC over key and expiry.
+ */
+export class LocalStorage extends StorageService {
+  constructor(
+    private readonly rootDir: string,
+    private readonly baseUrl: string,
+    private readonly secret: string,
+  ) {
+    super();
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: PutOptions,
+  ): Promise<StoredObject> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    // Concurrent puts of one key each write their own temp file; the last rename wins
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tmp, body);
+    await fs.promises.rename(tmp, file);
+    await fs.promises.writeFile(
+      file + CONTENT_TYPE_SUFFIX,
+      options.contentType,
+    );
+    if (options.public) {
+      await fs.promises.writeFile(file + PUBLIC_SUFFIX, '');
+    } else {
+      await fs.promises.rm(file + PUBLIC_SUFFIX, { force: true });
+    }
+    return { key, url: this.publicUrl(key) };
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async delete(key: string) {
+    const file = this.resolve(key);
+    await fs.promises.rm(file, { force: true });
+    for (const suffix of SIDECARS) {
+      await fs.promises.rm(file + suffix, { force: true });
+    }
+  }
+
+  publicUrl(key: string) {
+    return `${this.baseUrl}/storage/${encodeKey(key)}`;
+  }
+
+  signedUrl(key: string, expiresInSeconds: number) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(key, expires);
+    return Promise.resolve(
+      `${this.publicUrl(key)}?expires=${expires}&signature=${signature}`,
+    );
+  }
+
+  /** Checks a signature produced by `signedUrl` and that it hasn't expired. */
+  verify(key: string, expires: number, signature: string) {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Absolute path, content type and visibility for serving, or undefined if
+   * missing. Sidecar files are never objects of their own.
+   */
+  async locate(key: string) {
+    if (SIDECARS.some((suffix) => key.endsWith(suffix))) return undefined;
+    const file = this.resolve(key);
+    try {
+      await fs.promises.access(file);
+    } catch {
+      return undefined;
+    }
+    const contentType = await fs.promises
+      .readFile(file + CONTENT_TYPE_SUFFIX, 'utf8')
+      .catch(() => 'application/octet-stream');
+    const isPublic = await fs.promises
+      .access(file + PUBLIC_SUFFIX)
+      .then(() => true)
+      .catch(() => false);
+    return { file, contentType, public: isPublic };
+  }
+
+  private sign(key: string, expires: number) {
+    return createHmac('sha256', this.secret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+
+  private resolve(key: string) {
+    const root = path.resolve(this.rootDir);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+    return file;
+  }
+}
+
+function encodeKey(key: string) {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
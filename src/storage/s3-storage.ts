@@ -0,0 +1,95 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { PutOptions, StorageService, StoredObject } from './storage.service';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for MinIO, R2, etc.; omit for AWS.
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  // Public base URL (CDN or bucket website); defaults to the endpoint's bucket URL.
+  publicUrl?: string;
+}
+
+/** Any S3-compatible object store (AWS S3, MinIO, Cloudflare R2, ...). */
+export class S3Storage extends StorageService {
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    super();
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: PutOptions,
+  ): Promise<StoredObject> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+      }),
+    );
+    return { key, url: this.publicUrl(key) };
+  }
+
+  async get(key: string) {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+      if (!object.Body) return undefined;
+      return Buffer.from(await object.Body.transformToByteArray());
+    } catch (e) {
+      if (e instanceof NoSuchKey) return undefined;
+      throw e;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    );
+  }
+
+  publicUrl(key: string) {
+    const path = key.split('/').map(encodeURIComponent).join('/');
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/$/, '')}/${path}`;
+    }
+    const { bucket, region, endpoint } = this.options;
+    if (endpoint) return `${endpoint.replace(/\/$/, '')}/${bucket}/${path}`;
+    return `https://${bucket}.s3.${region}.amazonaws.com/${path}`;
+  }
+
+  signedUrl(key: string, expiresInSeconds: number) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+}
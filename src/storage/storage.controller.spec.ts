@@ -0,0 +1,73 @@
+import {
+  ForbiddenException,
+  NotFoundException,
+  StreamableFile,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorage } from './local-storage';
+import { StorageController } from './storage.controller';
+
+describe('StorageController', () => {
+  let dir: string;
+  let storage: LocalStorage;
+  let controller: StorageController;
+
+  const signed = async (key: string) => {
+    const url = new URL(await storage.signedUrl(key, 60));
+    return {
+      expires: url.searchParams.get('expires')!,
+      signature: url.searchParams.get('signature')!,
+    };
+  };
+
+  const body = async (file: StreamableFile) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.getStream()) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString();
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalStorage(dir, 'http://localhost:3001', 'secret');
+    controller = new StorageController(storage);
+    await storage.put('lesson-1/final.mp4', Buffer.from('mp4'), {
+      contentType: 'video/mp4',
+      public: true,
+    });
+    await storage.put('lesson-1/a0.pcm', Buffer.from('pcm'), {
+      contentType: 'application/octet-stream',
+    });
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('serves public objects without a signature', async () => {
+    const file = await controller.getObject(['lesson-1', 'final.mp4']);
+    expect(file.getHeaders().type).toBe('video/mp4');
+    expect(await body(file)).toBe('mp4');
+  });
+
+  it('serves other objects only with a valid signature', async () => {
+    await expect(
+      controller.getObject(['lesson-1', 'a0.pcm']),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    const { expires, signature } = await signed('lesson-1/a0.pcm');
+    await expect(
+      controller.getObject(['lesson-1', 'a0.pcm'], expires, 'forged'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    const file = await controller.getObject(
+      ['lesson-1', 'a0.pcm'],
+      expires,
+      signature,
+    );
+    expect(await body(file)).toBe('pcm');
+  });
+
+  it('hides the content-type sidecars', async () => {
+    await expect(
+      controller.getObject(['lesson-1', 'final.mp4.content-type']),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
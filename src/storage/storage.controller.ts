@@ -0,0 +1,43 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { Public } from '../auth/auth.decorators';
+import { LocalStorage } from './local-storage';
+import { StorageService } from './storage.service';
+
+// Serves objects written by the local-disk backend; other backends serve their own URLs.
+// Objects stored as public need no credentials; any other object needs a valid signature.
+@Public()
+@Controller('storage')
+export class StorageController {
+  constructor(private readonly storage: StorageService) {}
+
+  @Get('*key')
+  async getObject(
+    @Param('key') key: string | string[],
+    @Query('expires') expires?: string,
+    @Query('signature') signature?: string,
+  ) {
+    if (!(this.storage instanceof LocalStorage)) throw new NotFoundException();
+
+    const objectKey = Array.isArray(key) ? key.join('/') : key;
+    const object = await this.storage.locate(objectKey).catch(() => undefined);
+    if (!object) throw new NotFoundException(`No object at ${objectKey}`);
+    if (
+      (!object.public || signature !== undefined) &&
+      !this.storage.verify(objectKey, Number(expires), signature ?? '')
+    ) {
+      throw new ForbiddenException('Invalid or expired signature');
+    }
+    return new StreamableFile(createReadStream(object.file), {
+      type: object.contentType,
+    });
+  }
+}
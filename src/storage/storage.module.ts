@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import { LocalStorage } from './local-storage';
+import { S3Storage } from './s3-storage';
+import { StorageController } from './storage.controller';
+import { StorageService } from './storage.service';
+import { SupabaseStorage } from './supabase-storage';
+
+@Module({
+  controllers: [StorageController],
+  providers: [
+    {
+      // STORAGE_DRIVER picks the backend: supabase (default), local or s3.
+      provide: StorageService,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const bucket = config.get<string>('STORAGE_BUCKET') ?? 'seeker';
+        switch (config.get<string>('STORAGE_DRIVER') ?? 'supabase') {
+          case 'local':
+            return new LocalStorage(
+              config.get('STORAGE_DIR') ??
+                path.resolve(process.cwd(), 'data', 'storage'),
+              config.get('PUBLIC_BASE_URL') ?? 'http://localhost:3001',
+              config.get('STORAGE_SIGNING_SECRET') ?? 'local-dev-secret',
+            );
+          case 's3':
+            return new S3Storage({
+              bucket,
+              region: config.get('S3_REGION') ?? 'us-east-1',
+              endpoint: config.get('S3_ENDPOINT'),
+              accessKeyId: config.get('S3_ACCESS_KEY_ID'),
+              secretAccessKey: config.get('S3_SECRET_ACCESS_KEY'),
+              forcePathStyle: config.get('S3_FORCE_PATH_STYLE') === 'true',
+              publicUrl: config.get('S3_PUBLIC_URL'),
+            });
+          case 'supabase':
+            return new SupabaseStorage(
+              createClient(
+                config.getOrThrow<string>('SUPABASE_URL'),
+                config.getOrThrow<string>('SUPABASE_SERVICE_ROLE_KEY'),
+              ),
+              bucket,
+            );
+          default:
+            throw new Error(
+              `Unknown STORAGE_DRIVER "${config.get('STORAGE_DRIVER')}"`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
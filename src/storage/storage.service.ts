@@ -0,0 +1,34 @@
+export interface PutOptions {
+  contentType: string;
+  // Published assets anyone holding the URL may fetch. Buckets decide this
+  // for themselves; the local backend serves other objects only when signed.
+  public?: boolean;
+}
+
+export interface StoredObject {
+  key: string;
+  url: string;
+}
+
+/**
+ * Object storage for generated media. Keys are bucket-relative paths such as
+ * `${lessonId}/slides_123.mp4`; pipelines never talk to a vendor SDK directly.
+ */
+export abstract class StorageService {
+  // Writes (or overwrites) the object and returns its public URL.
+  abstract put(
+    key: string,
+    body: Buffer,
+    options: PutOptions,
+  ): Promise<StoredObject>;
+
+  // Returns the object's bytes, or undefined when it doesn't exist.
+  abstract get(key: string): Promise<Buffer | undefined>;
+
+  abstract delete(key: string): Promise<void>;
+
+  abstract publicUrl(key: string): string;
+
+  // A time-limited URL that works even when the bucket isn't public.
+  abstract signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,53 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PutOptions, StorageService, StoredObject } from './storage.service';
+
+export class SupabaseStorage extends StorageService {
+  constructor(
+    private readonly supabase: SupabaseClient<any, any>,
+    private readonly bucket: string,
+  ) {
+    super();
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: PutOptions,
+  ): Promise<StoredObject> {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(key, body, { contentType: options.contentType, upsert: true });
+    if (error) throw new Error(`Failed to upload ${key}: ${error.message}`);
+    return { key, url: this.publicUrl(key) };
+  }
+
+  async get(key: string) {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .download(key);
+    if (error || !data) return undefined;
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(key: string) {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .remove([key]);
+    if (error) throw new Error(`Failed to delete ${key}: ${error.message}`);
+  }
+
+  publicUrl(key: string) {
+    return this.supabase.storage.from(this.bucket).getPublicUrl(key).data
+      .publicUrl;
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number) {
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(key, expiresInSeconds);
+    if (error || !data) {
+      throw new Error(`Failed to sign ${key}: ${error?.message ?? 'no URL'}`);
+    }
+    return data.signedUrl;
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { JobsService } from '../jobs/jobs.service';
+import { LessonRepository } from '../repositories/repositories';
+import { promptOverride } from '../slides/regenerate.controller';
+import { RegeneratePartDto } from '../slides/slides.dto';
+import { StoredCinematic } from './video.schemas';
+
+@Controller('lessons/:lessonId/cinematic')
+export class ScenesController {
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly lessons: LessonRepository,
+    private readonly access: AccessService,
+  ) {}
+
+  // Re-shoots scene `n` (from 1) of the finished cinematic and re-stitches it
+  @Post('scenes/:n/regenerate')
+  async regenerateScene(
+    @CurrentPrincipal() principal: Principal,
+    @Param('lessonId', ParseUUIDPipe) lessonId: string,
+    @Param('n', ParseIntPipe) n: number,
+    @Body() body: RegeneratePartDto,
+  ) {
+    await this.access.checkLesson(principal, lessonId);
+    const lesson = await this.lessons.findById(lessonId);
+    if (!lesson) throw new NotFoundException(`Lesson ${lessonId} not found`);
+    const cinematic = lesson.animatedVideoManifest as StoredCinematic | null;
+    if (lesson.animatedVideoStatus !== 'ready' || !cinematic) {
+      throw new BadRequestException(
+        `Lesson ${lessonId} has no finished cinematic that can be re-shot; generate it again first`,
+      );
+    }
+    if (n < 1 || n > cinematic.scenes.length) {
+      throw new NotFoundException(
+        `Scene ${n} not found; the cinematic has scenes 1-${cinematic.scenes.length}`,
+      );
+    }
+    const job = await this.jobsService.enqueue(
+      'cinematic',
+      lessonId,
+      { regenerate: n, prompt: promptOverride(body.prompt) },
+      { exclusive: true },
+    );
+    return { message: `Re-shooting scene ${n}`, jobId: job.id };
+  }
+}
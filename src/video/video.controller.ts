@@ -1,21 +1,47 @@
 import { Controller, Post, Body } from '@nestjs/common';
-import { VideoService } from './video.service';
+import { JobsService } from '../jobs/jobs.service';
+import { requestLanguage } from '../localization/request-language';
+import { AccessService } from '../auth/access.service';
+import { CurrentPrincipal } from '../auth/auth.decorators';
+import type { Principal } from '../auth/principal';
+import { GenerateCinematicDto } from './video.dto';
 
 @Controller('video')
 export class VideoController {
-  constructor(private readonly videoService: VideoService) {}
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly access: AccessService,
+  ) {}
 
   @Post('generate-cinematic')
   async generateCinematic(
-    @Body() body: { lessonId: string; summary: string; title: string; studentId: string }
+    @CurrentPrincipal() principal: Principal,
+    @Body() body: GenerateCinematicDto,
   ) {
+    // The student's interests personalize the script, so they must be in the lesson's course
+    const course = await this.access.checkLesson(principal, body.lessonId);
+    if (course)
+      await this.access.checkStudent(principal, course.id, body.studentId);
+    if (body.courseId) await this.access.checkCourse(principal, body.courseId);
+    const language = requestLanguage(body.language);
     // Run async to avoid gateway timeouts
-    this.videoService.produceCinematicExplainer(
+    const job = await this.jobsService.enqueue(
+      'cinematic',
       body.lessonId,
-      body.summary,
-      body.title,
-      body.studentId,
+      {
+        summary: body.summary,
+        title: body.title,
+        studentId: body.studentId,
+        language,
+        courseId: body.courseId,
+        // Stop after scripting until the draft is approved at /jobs/:id/approve
+        review: body.review === true,
+      },
+      { dedupeOn: ['regenerate', 'language'] },
     );
-    return { message: 'Veo Cinematic production sequence initiated' };
+    return {
+      message: 'Veo Cinematic production sequence initiated',
+      jobId: job.id,
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { createZodDto } from '../api/zod-dto';
+import { MAX_NOTES_LENGTH, MAX_TITLE_LENGTH } from '../slides/slides.dto';
+
+export class GenerateCinematicDto extends createZodDto(
+  z.object({
+    lessonId: z.uuid(),
+    summary: z.string().trim().min(1).max(MAX_NOTES_LENGTH),
+    title: z.string().trim().min(1).max(MAX_TITLE_LENGTH),
+    // Whose interests personalize the script
+    studentId: z.uuid(),
+    language: z.string().max(35).optional(),
+    courseId: z.uuid().optional(),
+    review: z.boolean().optional(),
+  }),
+) {}
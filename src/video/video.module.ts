@@ -1,9 +1,24 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CharactersModule } from '../characters/characters.module';
+import { GenerativeModule } from '../generative/generative.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { RepositoriesModule } from '../repositories/repositories.module';
+import { StorageModule } from '../storage/storage.module';
+import { ScenesController } from './scenes.controller';
 import { VideoController } from './video.controller';
 import { VideoService } from './video.service';
 
 @Module({
-  controllers: [VideoController],
+  imports: [
+    AuthModule,
+    JobsModule,
+    GenerativeModule,
+    StorageModule,
+    RepositoriesModule,
+    CharactersModule,
+  ],
+  controllers: [VideoController, ScenesController],
   providers: [VideoService],
 })
-export class VideoModule {}
\ No newline at end of file
+export class VideoModule {}
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { redrawJobSchema, reviewableJobSchema } from '../jobs/job.types';
+import { CharacterSheet } from '../repositories/entities';
+
+const text = z.string().trim().min(1);
+
+export const visualIdentitySchema = z.object({
+  protagonist_description: text,
+  location_description: text,
+  art_style: text,
+});
+
+export const cinematicSceneSchema = z.object({
+  scene: z.coerce.number().int().positive(),
+  action_prompt: text,
+  dialogue_sfx: text,
+});
+
+export const cinematicScriptSchema = z.array(cinematicSceneSchema).min(1);
+
+// What a teacher reviews before anything is rendered.
+export const cinematicDraftSchema = z.object({
+  identity: visualIdentitySchema,
+  script: cinematicScriptSchema,
+});
+
+export type VisualIdentity = z.infer<typeof visualIdentitySchema>;
+export type CinematicScene = z.infer<typeof cinematicSceneSchema>;
+export type CinematicDraft = z.infer<typeof cinematicDraftSchema>;
+
+// A finished scene as stored in `animated_video_manifest`.
+export interface StoredScene extends CinematicScene {
+  clip_key: string;
+}
+
+// Everything needed to re-shoot one scene and re-stitch the video.
+export interface StoredCinematic {
+  identity: VisualIdentity;
+  language: string;
+  character_sheet: CharacterSheet;
+  scenes: StoredScene[];
+}
+
+export const cinematicJobSchema = z.union([
+  reviewableJobSchema.extend({
+    summary: z.string(),
+    title: z.string(),
+    studentId: z.string(),
+    language: z.string().optional(),
+    courseId: z.string().optional(),
+  }),
+  redrawJobSchema,
+]);
@@ -2,158 +2,490 @@
 // --------------------------------------------------------------------------
 
 import { Injectable, OnModuleInit } from '@nestjs/common';
-import { createClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
 import ffmpeg from 'fluent-ffmpeg';
 import { execSync } from 'child_process';
+import { JobsService } from '../jobs/jobs.service';
+import { Checkpoint, CheckpointService } from '../jobs/checkpoint.service';
+import { GenerativeProvider } from '../generative/generative-provider';
+import { StorageService } from '../storage/storage.service';
+import {
+  LessonRepository,
+  StudentRepository,
+} from '../repositories/repositories';
+import { CharacterSheet } from '../repositories/entities';
+import { CharacterSheetsService } from '../characters/character-sheets.service';
+import {
+  cinematicDraftSchema,
+  cinematicJobSchema,
+  CinematicDraft,
+  CinematicScene,
+  cinematicScriptSchema,
+  StoredCinematic,
+  StoredScene,
+  VisualIdentity,
+  visualIdentitySchema,
+} from './video.schemas';
+import { JobContext } from '../jobs/job.types';
+import { Language, languageFor } from '../localization/languages';
 
 @Injectable()
 export class VideoService implements OnModuleInit {
-    private supabase = createClient(
-        process.env.SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  constructor(
+    private readonly jobs: JobsService,
+    private readonly checkpoints: CheckpointService,
+    private readonly ai: GenerativeProvider,
+    private readonly storage: StorageService,
+    private readonly lessons: LessonRepository,
+    private readonly students: StudentRepository,
+    private readonly characters: CharacterSheetsService,
+  ) {}
+
+  onModuleInit() {
+    this.jobs.registerHandler(
+      'cinematic',
+      ({ lessonId, payload }, ctx) =>
+        // `regenerate` holds a scene number when only that scene is being re-shot
+        payload.regenerate === undefined
+          ? this.produceCinematicExplainer(
+              lessonId,
+              payload.summary,
+              payload.title,
+              payload.studentId,
+              payload.language,
+              payload.courseId,
+              ctx,
+            )
+          : this.regenerateScene(
+              lessonId,
+              payload.regenerate,
+              payload.prompt,
+              ctx,
+            ),
+      { draftSchema: cinematicDraftSchema, payloadSchema: cinematicJobSchema },
     );
 
-    async onModuleInit() {
-        try {
-            const ffmpegPath = execSync('which ffmpeg').toString().trim();
-            ffmpeg.setFfmpegPath(ffmpegPath);
-            console.log('✅ VideoService: Veo 3.1 Engine Initialized');
-        } catch (e) {
-            console.error('❌ FFmpeg not found on system.');
-        }
+    try {
+      const ffmpegPath = execSync('which ffmpeg').toString().trim();
+      ffmpeg.setFfmpegPath(ffmpegPath);
+      console.log('✅ VideoService: Veo 3.1 Engine Initialized');
+    } catch {
+      console.error('❌ FFmpeg not found on system.');
     }
+  }
+
+  async produceCinematicExplainer(
+    lessonId: string,
+    summary: string,
+    title: string,
+    studentId: string,
+    languageCode: string | undefined,
+    courseId: string | undefined,
+    ctx: JobContext,
+  ) {
+    const language = languageFor(languageCode);
+    const tempDir = path.resolve(process.cwd(), 'temp', `veo_${lessonId}`);
+    // Identity, character sheet, script and every Veo clip are kept so a resumed job skips them
+    const checkpoint = this.checkpoints.open(lessonId, 'cinematic');
+    if (!ctx.resume) checkpoint.clear();
+    console.log(
+      `🎬 [${lessonId}] PRODUCTION BEGAN: Independent Scene Generation Mode`,
+    );
 
-    private async getGoogleAIClient() {
-        const { GoogleGenAI } = await import('@google/genai');
-        // We use v1alpha for Veo and Gemini 3 features
-        return new GoogleGenAI({
-            apiKey: process.env.GEMINI_API_KEY!,
-            apiVersion: 'v1alpha',
+    try {
+      if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+
+      // 1. Fetch Student Context
+      const student = await this.students.findById(studentId);
+      const userInterests =
+        student?.interests.join(', ') || 'Cinematic Realism';
+
+      await this.lessons.markProcessing(lessonId, 'animated_video');
+
+      // The course's recurring character, shared with its comics
+      const owner = { lessonId, courseId };
+      let sheet =
+        checkpoint.readJson<CharacterSheet>('character_sheet') ??
+        (await this.characters.find(owner));
+
+      // 2. STAGE 1: Visual Identity Extraction
+      let visualId = checkpoint.readJson<VisualIdentity>('identity');
+      if (!visualId) {
+        console.log(`📝 [${lessonId}] Designing Visual Anchors...`);
+        ctx.progress({
+          stage: 'identity',
+          percent: 0,
+          message: 'Designing Visual Anchors',
         });
-    }
-
-    async produceCinematicExplainer(
-        lessonId: string,
-        summary: string,
-        title: string,
-        studentId: string,
-    ) {
-        const tempDir = path.resolve(process.cwd(), 'temp', `veo_${lessonId}`);
-        console.log(`🎬 [${lessonId}] PRODUCTION BEGAN: Independent Scene Generation Mode`);
-
-        try {
-            if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
-
-            // 1. Fetch Student Context
-            const { data: student } = await this.supabase
-                .from('students')
-                .select('interest')
-                .eq('student_id', studentId)
-                .single();
-            const userInterests = student?.interest?.join(', ') || 'Cinematic Realism';
-
-            await this.supabase.from('lessons').update({ animated_video_status: 'processing' }).eq('lesson_id', lessonId);
-
-            const ai = await this.getGoogleAIClient();
-
-            // 2. STAGE 1: Visual Identity Extraction
-            console.log(`📝 [${lessonId}] Designing Visual Anchors...`);
-            const identityPrompt = `
-                Analyze lesson: "${title}". Context: ${summary}. Style: ${userInterests}.
-                Identify ONE Main Protagonist and ONE primary Location.
-                Return JSON ONLY: 
-                {
-                    "protagonist_description": "detailed physical description including clothing, age, hair, facial features",
-                    "location_description": "detailed environmental description",
-                    "art_style": "consistent visual style (e.g. 3D Animation, Studio Ghibli, Pixar, or Hyper-realism)"
-                }
-            `;
-            const idRes = await ai.models.generateContent({
-                model: 'gemini-3-pro-preview',
-                contents: [{ role: 'user', parts: [{ text: identityPrompt }] }]
-            });
-
-            const idText = idRes.candidates?.[0]?.content?.parts?.[0]?.text?.replace(/```json|```/g, '').trim();
-            if (!idText) throw new Error("Failed to generate Visual Identity JSON");
-            const visualId = JSON.parse(idText);
-
-            console.log(`✅ [${lessonId}] Visual Identity:`, visualId);
-
-            // 3. STAGE 2: Generate 2x2 Character Reference Grid (The "Character DNA")
-            console.log(`🎨 [${lessonId}] Generating 2x2 Character Reference Grid...`);
-            const charGridPrompt = `A professional 2x2 character reference sheet showing the same character from 4 different angles arranged in a grid:
-- Top-left: Front view facing camera
-- Top-right: Side profile (left side)
-- Bottom-left: 3/4 three-quarter view
-- Bottom-right: Back view
-
-Character description: ${visualId.protagonist_description}
-Art style: ${visualId.art_style}
-
-Requirements:
-- All 4 views must show the EXACT same character with identical features, clothing, and proportions
-- Clean white background
-- Professional reference sheet layout
-- High detail and clarity
-- Consistent lighting across all views`;
-
-            const charGridRes = await ai.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: [{ role: 'user', parts: [{ text: charGridPrompt }] }],
-                config: { responseModalities: ["IMAGE"] }
-            });
-            const charGridB64 = charGridRes.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-            if (!charGridB64) throw new Error('No character reference grid generated');
-
-            console.log(`✅ [${lessonId}] 2x2 Character Grid created`);
-
-            // 4. STAGE 3: Scripting (4 scenes, 8 seconds each)
-            console.log(`📝 [${lessonId}] Drafting 4-scene script (8s per scene)...`);
-            const scriptPrompt = `
-                Write a 4-scene video script based on: ${summary}. 
-                Title: ${title}
-                Protagonist: ${visualId.protagonist_description}
-                Location: ${visualId.location_description}
-                Art Style: ${visualId.art_style}
-                
-                REQUIREMENTS:
-                1. Each scene is exactly 8 seconds long
-                2. Create a cohesive narrative that flows naturally from scene 1 to scene 4
-                3. Each scene should have clear action and purpose
-                4. Include dialogue and sound effects that enhance the storytelling
-                5. Maintain character consistency throughout
-                
-                Output JSON Array ONLY (no markdown, no explanation):
-                [
+        const identityPrompt = `
+                    Analyze lesson: "${title}". Context: ${summary}. Style: ${userInterests}.
+                    Identify ONE Main Protagonist and ONE primary Location.
+                    ${sheet ? `The protagonist is the course's recurring character; describe them exactly as: ${sheet.description}` : ''}
+                    Return JSON ONLY: 
                     {
-                        "scene": 1,
-                        "action_prompt": "Detailed visual description of what happens in this scene, including camera angles, character actions, and environment. Be specific about composition and framing.",
-                        "dialogue_sfx": "Exact dialogue in quotes and sound effects description. Example: A character says 'Hello there!' The sound of footsteps echoing."
+                        "protagonist_description": "detailed physical description including clothing, age, hair, facial features",
+                        "location_description": "detailed environmental description",
+                        "art_style": "consistent visual style (e.g. 3D Animation, Studio Ghibli, Pixar, or Hyper-realism)"
                     }
-                ]
-            `;
-            const scriptRes = await ai.models.generateContent({
-                model: 'gemini-3-pro-preview',
-                contents: [{ role: 'user', parts: [{ text: scriptPrompt }] }]
-            });
-            const scriptText = scriptRes.candidates?.[0]?.content?.parts?.[0]?.text?.replace(/```json|```/g, '').trim();
-            if (!scriptText) throw new Error("Failed to generate Script JSON");
-            const script = JSON.parse(scriptText);
-
-            console.log(`✅ [${lessonId}] Script generated with ${script.length} scenes`);
-
-            // 5. STAGE 4: Independent Scene Generation Loop
-            const videoClips: string[] = [];
-
-            for (let i = 0; i < script.length; i++) {
-                const scene = script[i];
-                console.log(`🎥 [${lessonId}] Scene ${i + 1}/${script.length}: Generating...`);
-
-                // A. Generate Scene Thumbnail (The "Anchor")
-                console.log(`   📸 [${lessonId}] Creating thumbnail anchor for scene ${i + 1}...`);
-                const thumbPrompt = `${scene.action_prompt}
+                `;
+        visualId = await this.ai.generateStructured(
+          identityPrompt,
+          visualIdentitySchema,
+          { task: 'cinematic.identity' },
+        );
+        checkpoint.writeJson('identity', visualId);
+      }
+
+      console.log(`✅ [${lessonId}] Visual Identity:`, visualId);
+
+      // 3. STAGE 2: Scripting (4 scenes, 8 seconds each)
+      let script = checkpoint.readJson<CinematicScene[]>('script');
+      if (!script) {
+        console.log(
+          `📝 [${lessonId}] Drafting 4-scene script (8s per scene)...`,
+        );
+        ctx.progress({
+          stage: 'script',
+          percent: 5,
+          message: 'Drafting scene script',
+        });
+        const scriptPrompt = `
+                    Write a 4-scene video script based on: ${summary}. 
+                    Title: ${title}
+                    Protagonist: ${visualId.protagonist_description}
+                    Location: ${visualId.location_description}
+                    Art Style: ${visualId.art_style}
+                
+                    REQUIREMENTS:
+                    1. Each scene is exactly 8 seconds long
+                    2. Create a cohesive narrative that flows naturally from scene 1 to scene 4
+                    3. Each scene should have clear action and purpose
+                    4. Include dialogue and sound effects that enhance the storytelling
+                    5. Maintain character consistency throughout
+                
+                    Output JSON Array ONLY (no markdown, no explanation):
+                    [
+                        {
+                            "scene": 1,
+                            "action_prompt": "Detailed visual description of what happens in this scene, including camera angles, character actions, and environment. Be specific about composition and framing.",
+                            "dialogue_sfx": "Exact dialogue in quotes and sound effects description. Example: A character says 'Hello there!' The sound of footsteps echoing."
+                        }
+                    ]
+                    ${language.code === 'en' ? '' : `The quoted dialogue must be in ${language.name}. Write everything else, including "action_prompt" and the sound effect descriptions, in English.`}
+                `;
+        script = await this.ai.generateStructured(
+          scriptPrompt,
+          cinematicScriptSchema,
+          { task: 'cinematic.script' },
+        );
+        checkpoint.writeJson('script', script);
+      }
+
+      console.log(
+        `✅ [${lessonId}] Script generated with ${script.length} scenes`,
+      );
+
+      // Review mode stops here, before any image or Veo call, until a teacher approves (and maybe edits) the draft
+      const reviewed = await ctx.review<CinematicDraft>({
+        identity: visualId,
+        script,
+      });
+      if (!reviewed) {
+        await this.lessons.setStatus(
+          lessonId,
+          'animated_video',
+          'awaiting_review',
+        );
+        if (fs.existsSync(tempDir))
+          fs.rmSync(tempDir, { recursive: true, force: true });
+        console.log(`📝 [${lessonId}] Script is waiting for review`);
+        return;
+      }
+      ({ identity: visualId, script } = reviewed);
+      checkpoint.writeJson('identity', visualId);
+      checkpoint.writeJson('script', script);
+
+      // 4. STAGE 3: 2x2 Character Reference Grid (The "Character DNA"), reused from the course when it has one
+      let charGrid: Buffer;
+      if (sheet) {
+        console.log(`♻️  [${lessonId}] Reusing character sheet ${sheet.id}`);
+        charGrid = await this.characters.image(sheet);
+      } else {
+        console.log(
+          `🎨 [${lessonId}] Generating 2x2 Character Reference Grid...`,
+        );
+        ctx.progress({
+          stage: 'character_grid',
+          percent: 10,
+          message: 'Generating 2x2 Character Reference Grid',
+        });
+        ({ sheet, image: charGrid } = await this.characters.create(
+          owner,
+          visualId.protagonist_description,
+          visualId.art_style,
+        ));
+        console.log(`✅ [${lessonId}] 2x2 Character Grid created`);
+      }
+      checkpoint.writeJson('character_sheet', sheet);
+
+      // 5. STAGE 4: Independent Scene Generation Loop
+      const scenes: StoredScene[] = [];
+
+      for (let i = 0; i < script.length; i++) {
+        ctx.signal.throwIfAborted();
+        const scene = script[i];
+        console.log(
+          `🎥 [${lessonId}] Scene ${i + 1}/${script.length}: Generating...`,
+        );
+        // Scenes share 15%-90% of the bar; stitching and upload take the rest
+        const scenePercent = (done: number) => 15 + (75 * done) / script.length;
+
+        const step = `scene-${i + 1}`;
+        if (checkpoint.has(step, 'clip.mp4')) {
+          console.log(`♻️  [${lessonId}] Reusing checkpointed scene ${i + 1}`);
+        } else {
+          await this.renderScene(
+            lessonId,
+            scene,
+            i + 1,
+            visualId,
+            charGrid,
+            language,
+            checkpoint,
+            tempDir,
+            ctx,
+            scenePercent(i),
+            scenePercent(i + 1),
+          );
+        }
+
+        // Each clip is kept in storage so a single scene can be re-shot later
+        let stored = checkpoint.readJson<StoredScene>(step);
+        if (!stored) {
+          stored = await this.storeScene(
+            lessonId,
+            scene,
+            fs.readFileSync(checkpoint.path(step, 'clip.mp4')),
+          );
+          checkpoint.writeJson(step, stored);
+        }
+        scenes.push(stored);
+      }
+
+      // 6. STAGE 5: Stitch Videos with FFmpeg (Stream Copy Method)
+      ctx.progress({
+        stage: 'stitch',
+        percent: 90,
+        message: `Stitching ${script.length} scenes`,
+      });
+      const finalOutputPath = await this.stitchClips(
+        lessonId,
+        script.map((_, i) => checkpoint.path(`scene-${i + 1}`, 'clip.mp4')),
+        tempDir,
+      );
+
+      // 7. STAGE 6: Upload to storage
+      console.log(`☁️  [${lessonId}] Final cinematic produced. Uploading...`);
+      const videoBuffer = fs.readFileSync(finalOutputPath);
+      const storagePath = `${lessonId}/cinematic_${Date.now()}.mp4`;
+
+      const { url: videoUrl } = await this.storage.put(
+        storagePath,
+        videoBuffer,
+        { contentType: 'video/mp4', public: true },
+      );
+
+      await this.lessons.markReady(lessonId, 'animated_video', {
+        animatedVideoUrl: videoUrl,
+        animatedVideoManifest: {
+          identity: visualId,
+          language: language.code,
+          character_sheet: sheet,
+          scenes,
+        } satisfies StoredCinematic,
+      });
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: { kind: 'video', name: 'final_cinematic.mp4', url: videoUrl },
+      });
+      console.log(`🎉 [${lessonId}] PRODUCTION COMPLETE: ${videoUrl}`);
+      console.log(
+        `📊 [${lessonId}] Stats: ${script.length} scenes × 8s = ${script.length * 8}s total video`,
+      );
+
+      // Cleanup
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        console.log(`🧹 [${lessonId}] Temporary files cleaned up`);
+      }
+      checkpoint.clear();
+    } catch (error) {
+      console.error(`❌ [${lessonId}] PRODUCTION FAILED:`, error);
+      await this.lessons.markFailed(lessonId, 'animated_video');
+
+      // Cleanup on failure
+      if (fs.existsSync(tempDir)) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Re-shoots one scene of a finished cinematic (from `prompt` instead of its action prompt, when given)
+   * and re-stitches the video. The other scenes keep their stored clips.
+   */
+  async regenerateScene(
+    lessonId: string,
+    sceneNumber: number,
+    prompt: string | undefined,
+    ctx: JobContext,
+  ) {
+    const tempDir = path.resolve(
+      process.cwd(),
+      'temp',
+      `veo_${lessonId}_s${sceneNumber}`,
+    );
+    const checkpoint = this.checkpoints.openRedraw(
+      lessonId,
+      'cinematic',
+      `scene-${sceneNumber}`,
+    );
+    if (!ctx.resume) checkpoint.clear();
+    console.log(`🎬 [${lessonId}] RE-SHOOTING SCENE ${sceneNumber}`);
+
+    try {
+      if (!fs.existsSync(tempDir)) fs.mkdirSync(tempDir, { recursive: true });
+
+      const lesson = await this.lessons.findById(lessonId);
+      const cinematic = lesson?.animatedVideoManifest as
+        | StoredCinematic
+        | null
+        | undefined;
+      const index = sceneNumber - 1;
+      if (!cinematic?.scenes[index])
+        throw new Error(
+          `Lesson ${lessonId} has no scene ${sceneNumber} to regenerate`,
+        );
+
+      const scene = {
+        ...cinematic.scenes[index],
+        action_prompt: prompt ?? cinematic.scenes[index].action_prompt,
+      };
+      const step = `scene-${sceneNumber}`;
+      if (!checkpoint.has(step, 'clip.mp4')) {
+        const charGrid = await this.characters.image(cinematic.character_sheet);
+        await this.renderScene(
+          lessonId,
+          scene,
+          sceneNumber,
+          cinematic.identity,
+          charGrid,
+          languageFor(cinematic.language),
+          checkpoint,
+          tempDir,
+          ctx,
+          0,
+          80,
+        );
+      }
+      let stored = checkpoint.readJson<StoredScene>(step);
+      if (!stored) {
+        stored = await this.storeScene(
+          lessonId,
+          scene,
+          fs.readFileSync(checkpoint.path(step, 'clip.mp4')),
+        );
+        checkpoint.writeJson(step, stored);
+      }
+
+      // The untouched scenes come back from storage for the stitch
+      ctx.signal.throwIfAborted();
+      ctx.progress({
+        stage: 'stitch',
+        percent: 85,
+        message: `Stitching ${cinematic.scenes.length} scenes`,
+      });
+      const scenes = cinematic.scenes.map((s, i) => (i === index ? stored : s));
+      const clips: string[] = [];
+      for (const [i, s] of scenes.entries()) {
+        if (i === index) {
+          clips.push(checkpoint.path(step, 'clip.mp4'));
+          continue;
+        }
+        const clip = await this.storage.get(s.clip_key);
+        if (!clip) throw new Error(`Stored clip ${s.clip_key} is missing`);
+        const clipPath = path.join(tempDir, `scene_${i + 1}.mp4`);
+        fs.writeFileSync(clipPath, clip);
+        clips.push(clipPath);
+      }
+      const finalOutputPath = await this.stitchClips(lessonId, clips, tempDir);
+
+      const { url: videoUrl } = await this.storage.put(
+        `${lessonId}/cinematic_${Date.now()}.mp4`,
+        fs.readFileSync(finalOutputPath),
+        { contentType: 'video/mp4', public: true },
+      );
+      await this.lessons.update(lessonId, {
+        animatedVideoUrl: videoUrl,
+        animatedVideoManifest: {
+          ...cinematic,
+          scenes,
+        } satisfies StoredCinematic,
+      });
+
+      ctx.progress({
+        stage: 'complete',
+        percent: 100,
+        asset: { kind: 'video', name: 'final_cinematic.mp4', url: videoUrl },
+      });
+      console.log(`🎉 [${lessonId}] SCENE ${sceneNumber} RE-SHOT: ${videoUrl}`);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      checkpoint.clear();
+    } catch (error) {
+      // The published video is only replaced on success, so the lesson keeps its status
+      console.error(`❌ [${lessonId}] SCENE ${sceneNumber} FAILED:`, error);
+      if (fs.existsSync(tempDir))
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  // Thumbnail anchor, then the Veo clip, both checkpointed under `scene-N`
+  private async renderScene(
+    lessonId: string,
+    scene: CinematicScene,
+    sceneNumber: number,
+    visualId: VisualIdentity,
+    charGrid: Buffer,
+    language: Language,
+    checkpoint: Checkpoint,
+    tempDir: string,
+    ctx: JobContext,
+    fromPercent: number,
+    toPercent: number,
+  ) {
+    const step = `scene-${sceneNumber}`;
+    const percent = (done: number) =>
+      fromPercent + (toPercent - fromPercent) * done;
+    ctx.progress({
+      stage: 'scene',
+      step: sceneNumber,
+      percent: percent(0),
+      message: `Creating thumbnail anchor for scene ${sceneNumber}`,
+    });
+
+    // A. Generate Scene Thumbnail (The "Anchor")
+    let thumb = checkpoint.readFile(step, 'thumb.png');
+    if (!thumb) {
+      console.log(
+        `   📸 [${lessonId}] Creating thumbnail anchor for scene ${sceneNumber}...`,
+      );
+      const thumbPrompt = `${scene.action_prompt}
                 
 Style: ${visualId.art_style}
 Location: ${visualId.location_description}
@@ -162,142 +494,120 @@ Character: ${visualId.protagonist_description}
 
 Create a single frame that captures the key moment of this scene. This will be used as the starting frame for video generation.`;
 
-                const thumbRes = await ai.models.generateContent({
-                    model: 'gemini-3-pro-image-preview',
-                    contents: [{ role: 'user', parts: [{ text: thumbPrompt }] }],
-                    config: { responseModalities: ["IMAGE"] }
-                });
-                const thumbB64 = thumbRes.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-                if (!thumbB64) throw new Error(`No thumbnail generated for scene ${i + 1}`);
-
-                console.log(`   ✅ [${lessonId}] Thumbnail created for scene ${i + 1}`);
-
-                // B. Veo 3.1 Video Generation with Both Reference Images
-                console.log(`   🎬 [${lessonId}] Generating video for scene ${i + 1}...`);
-                const veoPayload: any = {
-                    model: 'veo-3.1-generate-preview',
-                    prompt: `${scene.action_prompt}. ${scene.dialogue_sfx}. Maintain character consistency. High quality cinematic video, 24fps, smooth motion.`,
-                    config: {
-                        resolution: '720p',
-                        aspectRatio: '16:9',
-                        durationSeconds: 8,
-                        personGeneration: "allow_adult",
-                        referenceImages: [
-                            {
-                                // Character DNA Grid - ensures 3D character consistency
-                                image: {
-                                    imageBytes: charGridB64,
-                                    mimeType: "image/png"
-                                },
-                                referenceType: "asset"
-                            },
-                            {
-                                // Scene Thumbnail - ensures correct composition and lighting
-                                image: {
-                                    imageBytes: thumbB64,
-                                    mimeType: "image/png"
-                                },
-                                referenceType: "asset"
-                            }
-                        ]
-                    }
-                };
-
-                let operation = await ai.models.generateVideos(veoPayload);
-
-                // Polling for completion
-                process.stdout.write(`   ⏳ [${lessonId}] Waiting for scene ${i + 1}`);
-                while (!operation.done) {
-                    process.stdout.write(".");
-                    await new Promise(r => setTimeout(r, 10000));
-
-                    operation = await ai.operations.getVideosOperation({
-                        operation: operation,
-                    });
-                }
-                console.log(" ✅ Done!");
+      thumb = await this.ai.generateImage(thumbPrompt, {
+        task: 'cinematic.thumbnail',
+      });
+      checkpoint.writeFile(step, 'thumb.png', thumb);
+    }
 
-                if (!operation.response?.generatedVideos?.[0]) {
-                    throw new Error(`No video generated for scene ${i + 1}`);
-                }
+    console.log(
+      `   ✅ [${lessonId}] Thumbnail created for scene ${sceneNumber}`,
+    );
 
-                const currentClip = operation.response.generatedVideos[0];
-                const clipPath = path.join(tempDir, `scene_${i + 1}.mp4`);
+    const thumbPath = `${lessonId}/cinematic/thumb_${sceneNumber}_${Date.now()}.png`;
+    const thumbUrl = await this.storage.put(thumbPath, thumb, {
+      contentType: 'image/png',
+      public: true,
+    });
+    ctx.progress({
+      stage: 'scene',
+      step: sceneNumber,
+      percent: percent(0.2),
+      message: `Waiting for scene ${sceneNumber}`,
+      asset: {
+        kind: 'image',
+        name: `thumb_${sceneNumber}.png`,
+        url: thumbUrl.url,
+      },
+    });
+
+    // B. Veo 3.1 Video Generation with Both Reference Images
+    console.log(
+      `   🎬 [${lessonId}] Generating video for scene ${sceneNumber}...`,
+    );
+    const clipPath = path.join(tempDir, `scene_${sceneNumber}.mp4`);
 
-                if (!currentClip.video) {
-                    throw new Error(`No video file available for scene ${i + 1}`);
-                }
+    // Polling for completion happens inside the provider
+    process.stdout.write(
+      `   ⏳ [${lessonId}] Waiting for scene ${sceneNumber}`,
+    );
+    await this.ai.generateVideo(
+      {
+        prompt: `${scene.action_prompt}. ${scene.dialogue_sfx}.${language.code === 'en' ? '' : ` Characters speak ${language.name}.`} Maintain character consistency. High quality cinematic video, 24fps, smooth motion.`,
+        durationSeconds: 8,
+        // Character DNA Grid ensures 3D character consistency; the Scene Thumbnail ensures composition and lighting
+        referenceImages: [charGrid, thumb],
+        signal: ctx.signal,
+      },
+      clipPath,
+    );
+    console.log(' ✅ Done!');
 
-                // Download the clip locally
-                await ai.files.download({ file: currentClip.video, downloadPath: clipPath });
-                
-                videoClips.push(clipPath);
-                console.log(`   ✅ [${lessonId}] Scene ${i + 1} downloaded to ${clipPath}`);
-            }
-
-            // 6. STAGE 5: Stitch Videos with FFmpeg (Stream Copy Method)
-            console.log(`🔗 [${lessonId}] Stitching ${videoClips.length} scenes together...`);
-            
-            const listFilePath = path.join(tempDir, 'clips.txt');
-            const fileListContent = videoClips.map(clipPath => `file '${path.basename(clipPath)}'`).join('\n');
-            fs.writeFileSync(listFilePath, fileListContent);
-
-            const finalOutputPath = path.join(tempDir, 'final_cinematic.mp4');
-
-            await new Promise<void>((resolve, reject) => {
-                ffmpeg()
-                    .input(listFilePath)
-                    .inputOptions(['-f concat', '-safe 0'])
-                    .outputOptions([
-                        '-c copy',  // Stream copy - NO re-encoding, preserves quality and audio
-                    ])
-                    .output(finalOutputPath)
-                    .on('start', (cmd) => {
-                        console.log(`   🎞️  [${lessonId}] FFmpeg started: ${cmd}`);
-                    })
-                    .on('end', () => {
-                        console.log(`   ✅ [${lessonId}] FFmpeg stitching complete`);
-                        resolve();
-                    })
-                    .on('error', (err) => {
-                        console.error(`   ❌ [${lessonId}] FFmpeg error:`, err);
-                        reject(err);
-                    })
-                    .run();
-            });
-
-            // 7. STAGE 6: Upload to Supabase
-            console.log(`☁️  [${lessonId}] Final cinematic produced. Uploading...`);
-            const videoBuffer = fs.readFileSync(finalOutputPath);
-            const storagePath = `${lessonId}/cinematic_${Date.now()}.mp4`;
-
-            await this.supabase.storage.from('seeker').upload(storagePath, videoBuffer, { contentType: 'video/mp4' });
-            const { data: urlData } = this.supabase.storage.from('seeker').getPublicUrl(storagePath);
-
-            await this.supabase.from('lessons').update({
-                animated_video_url: urlData.publicUrl,
-                animated_video_status: 'ready',
-            }).eq('lesson_id', lessonId);
-
-            console.log(`🎉 [${lessonId}] PRODUCTION COMPLETE: ${urlData.publicUrl}`);
-            console.log(`📊 [${lessonId}] Stats: ${script.length} scenes × 8s = ${script.length * 8}s total video`);
-
-            // Cleanup
-            if (fs.existsSync(tempDir)) {
-                fs.rmSync(tempDir, { recursive: true, force: true });
-                console.log(`🧹 [${lessonId}] Temporary files cleaned up`);
-            }
-
-        } catch (error) {
-            console.error(`❌ [${lessonId}] PRODUCTION FAILED:`, error);
-            await this.supabase.from('lessons').update({ animated_video_status: 'failed' }).eq('lesson_id', lessonId);
-            
-            // Cleanup on failure
-            if (fs.existsSync(tempDir)) {
-                fs.rmSync(tempDir, { recursive: true, force: true });
-            }
-            
-            throw error;
-        }
-    }
-}
\ No newline at end of file
+    // Checkpoint the downloaded clip
+    checkpoint.writeFile(step, 'clip.mp4', fs.readFileSync(clipPath));
+    console.log(
+      `   ✅ [${lessonId}] Scene ${sceneNumber} downloaded to ${clipPath}`,
+    );
+    ctx.progress({
+      stage: 'scene',
+      step: sceneNumber,
+      percent: percent(1),
+      message: `Scene ${sceneNumber} ready`,
+      asset: { kind: 'video', name: `scene_${sceneNumber}.mp4` },
+    });
+  }
+
+  private async storeScene(
+    lessonId: string,
+    scene: CinematicScene,
+    clip: Buffer,
+  ): Promise<StoredScene> {
+    const { key } = await this.storage.put(
+      `${lessonId}/cinematic/scene_${scene.scene}_${Date.now()}.mp4`,
+      clip,
+      { contentType: 'video/mp4' },
+    );
+    return { ...scene, clip_key: key };
+  }
+
+  // Concatenates the clips without re-encoding; returns the stitched file
+  private async stitchClips(
+    lessonId: string,
+    clips: string[],
+    tempDir: string,
+  ) {
+    console.log(
+      `🔗 [${lessonId}] Stitching ${clips.length} scenes together...`,
+    );
+    const listFilePath = path.join(tempDir, 'clips.txt');
+    const fileListContent = clips
+      .map((clipPath) => `file '${clipPath}'`)
+      .join('\n');
+    fs.writeFileSync(listFilePath, fileListContent);
+
+    const finalOutputPath = path.join(tempDir, 'final_cinematic.mp4');
+
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg()
+        .input(listFilePath)
+        .inputOptions(['-f concat', '-safe 0'])
+        .outputOptions([
+          '-c copy', // Stream copy - NO re-encoding, preserves quality and audio
+        ])
+        .output(finalOutputPath)
+        .on('start', (cmd) => {
+          console.log(`   🎞️  [${lessonId}] FFmpeg started: ${cmd}`);
+        })
+        .on('end', () => {
+          console.log(`   ✅ [${lessonId}] FFmpeg stitching complete`);
+          resolve();
+        })
+        .on('error', (err) => {
+          console.error(`   ❌ [${lessonId}] FFmpeg error:`, err);
+          reject(err);
+        })
+        .run();
+    });
+    return finalOutputPath;
+  }
+}